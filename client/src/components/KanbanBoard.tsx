@@ -9,11 +9,14 @@ import { HTML5Backend } from 'react-dnd-html5-backend';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Calendar, Clock, DollarSign, User, AlertTriangle } from 'lucide-react';
-import { Order } from '../../shared/schema';
+import { Calendar, Clock, DollarSign, User, AlertTriangle, Layers } from 'lucide-react';
+import { Order, OrderItem } from '../../shared/schema';
+
+// Orders may carry their line items (GET /:id) or just a count (GET /)
+type BoardOrder = Order & { items?: OrderItem[]; itemCount?: number };
 
 interface KanbanBoardProps {
-  orders: Order[];
+  orders: BoardOrder[];
   onOrderUpdate: (orderId: string, newStatus: string) => void;
   onOrderClick: (order: Order) => void;
 }
@@ -28,7 +31,7 @@ const ORDER_STATUSES = [
 ];
 
 interface OrderCardProps {
-  order: Order;
+  order: BoardOrder;
   onOrderClick: (order: Order) => void;
 }
 
@@ -50,6 +53,8 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onOrderClick }) => {
   };
 
   const isOverdue = order.estimatedCompletion && new Date(order.estimatedCompletion) < new Date();
+  const itemCount = order.items?.length ?? order.itemCount ?? 1;
+  const completedItems = order.items?.filter(item => item.status === 'completed').length;
 
   return (
     <Card
@@ -102,6 +107,17 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onOrderClick }) => {
             </div>
           )}
 
+          {itemCount > 1 && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Layers className="w-3 h-3" />
+              <span>
+                {completedItems !== undefined
+                  ? `${completedItems}/${itemCount} pieces done`
+                  : `${itemCount} pieces`}
+              </span>
+            </div>
+          )}
+
           {order.artworkDescription && (
             <p className="text-xs text-gray-500 truncate">
               {order.artworkDescription}
@@ -125,7 +141,7 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onOrderClick }) => {
 
 interface KanbanColumnProps {
   status: typeof ORDER_STATUSES[0];
-  orders: Order[];
+  orders: BoardOrder[];
   onOrderUpdate: (orderId: string, newStatus: string) => void;
   onOrderClick: (order: Order) => void;
 }
@@ -12,7 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Separator } from './ui/separator';
 import { Badge } from './ui/badge';
 import { Calculator, Info, Zap } from 'lucide-react';
-import { calculateFramingPrice, MATERIAL_PRICING } from '../../shared/pricing';
+import { calculateFramingPrice, normalizePriceBook, DEFAULT_PRICE_BOOK, PriceBook } from '../../shared/pricing';
 
 interface PricingCalculatorProps {
   onPriceCalculated?: (pricing: any) => void;
@@ -52,40 +52,51 @@ export const PricingCalculator: React.FC<PricingCalculatorProps> = ({
 
   const [pricing, setPricing] = useState<any>(null);
   const [showBreakdown, setShowBreakdown] = useState(false);
+  const [priceBook, setPriceBook] = useState<PriceBook>(DEFAULT_PRICE_BOOK);
+
+  // Load the active price book, keeping the built-in defaults if it is unavailable
+  useEffect(() => {
+    fetch('/api/price-books/active')
+      .then(response => response.ok ? response.json() : null)
+      .then((book: PriceBook | null) => {
+        if (book) setPriceBook(normalizePriceBook(book));
+      })
+      .catch(error => console.error('Error loading price book:', error));
+  }, []);
 
   // Calculate pricing whenever specs change
   useEffect(() => {
     if (specs.imageWidth > 0 && specs.imageHeight > 0) {
-      const calculatedPricing = calculateFramingPrice(specs);
+      const calculatedPricing = calculateFramingPrice(specs, priceBook);
       setPricing(calculatedPricing);
       onPriceCalculated?.(calculatedPricing);
     }
-  }, [specs, onPriceCalculated]);
+  }, [specs, priceBook, onPriceCalculated]);
 
   const updateSpec = (key: keyof OrderSpecs, value: any) => {
     setSpecs(prev => ({ ...prev, [key]: value }));
   };
 
-  const frameOptions = Object.keys(MATERIAL_PRICING.frames).map(key => ({
+  const frameOptions = Object.keys(priceBook.materials.frames).map(key => ({
     value: key,
     label: key.split('-').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' '),
-    price: MATERIAL_PRICING.frames[key]
+    price: priceBook.materials.frames[key]
   }));
 
-  const matOptions = Object.keys(MATERIAL_PRICING.mats).map(key => ({
+  const matOptions = Object.keys(priceBook.materials.mats).map(key => ({
     value: key,
     label: key.charAt(0).toUpperCase() + key.slice(1),
-    price: MATERIAL_PRICING.mats[key]
+    price: priceBook.materials.mats[key]
   }));
 
-  const glassOptions = Object.keys(MATERIAL_PRICING.glass).map(key => ({
+  const glassOptions = Object.keys(priceBook.materials.glass).map(key => ({
     value: key,
     label: key.split('-').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' '),
-    price: MATERIAL_PRICING.glass[key]
+    price: priceBook.materials.glass[key]
   }));
 
   return (
@@ -280,7 +291,11 @@ export const PricingCalculator: React.FC<PricingCalculatorProps> = ({
                     <span>Base Price:</span>
                     <span className="text-right">${pricing.breakdown.basePrice}</span>
                     
-                    <span>Frame:</span>
+                    <span>
+                      Frame ({pricing.moulding.method === 'united_inch'
+                        ? `${pricing.moulding.unitedInches} united in`
+                        : `${pricing.moulding.mode}, ${pricing.moulding.footage} ft`}):
+                    </span>
                     <span className="text-right">${pricing.breakdown.framePrice}</span>
                     
                     {pricing.breakdown.matPrice > 0 && (
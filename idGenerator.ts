@@ -4,7 +4,7 @@
  * 
  * Provides functions to generate unique IDs for various entities in the system.
  */
-import { randomUUID } from 'crypto';
+import { randomUUID, randomInt } from 'crypto';
 
 /**
  * Generate a unique ID for any entity
@@ -43,6 +43,23 @@ export function generateTrackingId(): string {
   return result;
 }
 
+/**
+ * Generate a gift card code, e.g. GC-7K2M-Q9XD-4TBA
+ * Uses crypto randomness since the code is the only thing protecting the balance
+ */
+export function generateGiftCardCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I
+  const groups = [];
+  for (let g = 0; g < 3; g++) {
+    let group = '';
+    for (let i = 0; i < 4; i++) {
+      group += chars.charAt(randomInt(chars.length));
+    }
+    groups.push(group);
+  }
+  return `GC-${groups.join('-')}`;
+}
+
 /**
  * Generate a QR code ID
  */
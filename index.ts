@@ -37,7 +37,15 @@ app.use(cors({
   credentials: true
 }));
 
-app.use(express.json({ limit: '50mb' }));
+// Signed webhooks keep the exact bytes received; signatures are computed over them, not the parsed JSON
+app.use(express.json({
+  limit: '50mb',
+  verify: (req, _res, buf) => {
+    if (req.headers['stripe-signature'] || req.headers['x-signature']) {
+      (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 // Health check endpoints (specific paths first)
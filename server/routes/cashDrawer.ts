@@ -0,0 +1,119 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { cashDrawerService, DrawerError, zReportToCsv } from "../services/cashDrawerService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const openSessionSchema = z.object({
+  register: z.string().min(1).optional(),
+  openingFloat: z.coerce.number().nonnegative(),
+  openedBy: z.string().min(1),
+  notes: z.string().optional()
+});
+
+const movementSchema = z.object({
+  type: z.enum(['paid_in', 'paid_out']),
+  amount: z.coerce.number().positive(),
+  reason: z.string().min(1),
+  actor: z.string().min(1)
+});
+
+const closeSessionSchema = z.object({
+  closedBy: z.string().min(1),
+  counted: z.record(z.coerce.number().nonnegative()),
+  notes: z.string().optional()
+});
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof DrawerError) {
+    const status = { not_found: 404, invalid_request: 400, invalid_state: 409 }[error.code];
+    return res.status(status).json({ error: error.message, code: error.code });
+  }
+  structuredLogger.error(message, {
+    error: error as Error,
+    severity: 'medium'
+  });
+  res.status(500).json({ error: message });
+}
+
+// Recent drawer sessions
+router.get("/sessions", async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 30;
+    res.json(await cashDrawerService.listSessions(limit));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch drawer sessions");
+  }
+});
+
+// Open session for a register (defaults to "main")
+router.get("/sessions/current", async (req, res) => {
+  try {
+    const session = await cashDrawerService.getCurrentSession((req.query.register as string) || 'main');
+    if (!session) {
+      return res.status(404).json({ error: "No open drawer session" });
+    }
+    res.json(session);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch drawer session");
+  }
+});
+
+// Open a drawer with a starting float
+router.post("/sessions", async (req, res) => {
+  try {
+    const parsed = openSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid drawer session", details: parsed.error.flatten() });
+    }
+    res.status(201).json(await cashDrawerService.openSession(parsed.data));
+  } catch (error) {
+    handleError(res, error, "Failed to open drawer session");
+  }
+});
+
+// Record a paid-in or paid-out
+router.post("/sessions/:id/movements", async (req, res) => {
+  try {
+    const parsed = movementSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid drawer movement", details: parsed.error.flatten() });
+    }
+    res.status(201).json(await cashDrawerService.recordMovement(req.params.id, parsed.data));
+  } catch (error) {
+    handleError(res, error, "Failed to record drawer movement");
+  }
+});
+
+// Close a drawer with counted amounts per tender
+router.post("/sessions/:id/close", async (req, res) => {
+  try {
+    const parsed = closeSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid drawer count", details: parsed.error.flatten() });
+    }
+    res.json(await cashDrawerService.closeSession(req.params.id, parsed.data));
+  } catch (error) {
+    handleError(res, error, "Failed to close drawer session");
+  }
+});
+
+// Z-report (X-report while the session is still open); ?format=csv to export
+router.get("/sessions/:id/report", async (req, res) => {
+  try {
+    const report = await cashDrawerService.getReport(req.params.id);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="z-report-${report.register}-${report.openedAt.slice(0, 10)}.csv"`);
+      return res.send(zReportToCsv(report));
+    }
+
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, "Failed to build drawer report");
+  }
+});
+
+export default router;
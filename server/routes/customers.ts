@@ -0,0 +1,195 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { customerService, CustomerError } from "../services/customerService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const customerSchema = z.object({
+  name: z.string().trim().min(1),
+  email: z.string().trim().email().nullable().optional().or(z.literal('')),
+  phone: z.string().trim().nullable().optional(),
+  address: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  preferredContact: z.enum(['email', 'phone', 'sms']).optional(),
+  taxExempt: z.boolean().optional(),
+  resaleCertificateNumber: z.string().trim().nullable().optional(),
+  resaleCertificateExpiresAt: z.coerce.date().nullable().optional(),
+  allowDuplicate: z.boolean().optional()
+});
+
+const mergeSchema = z.object({
+  duplicateId: z.string().uuid(),
+  actor: z.string().min(1).default('staff')
+});
+
+function customerErrorStatus(error: CustomerError): number {
+  return { not_found: 404, invalid_request: 400, duplicate: 409, invalid_state: 409 }[error.code];
+}
+
+function sendCustomerError(res: Response, error: CustomerError) {
+  return res.status(customerErrorStatus(error)).json({
+    error: error.message,
+    code: error.code,
+    duplicates: error.duplicates.length > 0 ? error.duplicates : undefined
+  });
+}
+
+// Search customers by name, phone or email (phone and email are compared normalized)
+router.get("/", async (req, res) => {
+  try {
+    const { q, limit = 50, offset = 0 } = req.query;
+    res.json(await customerService.search(
+      q as string | undefined,
+      Math.min(parseInt(limit as string) || 50, 200),
+      parseInt(offset as string) || 0
+    ));
+  } catch (error) {
+    structuredLogger.error('Failed to search customers', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to search customers" });
+  }
+});
+
+// Customers sharing a phone number or email address
+router.get("/duplicates", async (req, res) => {
+  try {
+    res.json(await customerService.listDuplicateGroups());
+  } catch (error) {
+    structuredLogger.error('Failed to find duplicate customers', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to find duplicate customers" });
+  }
+});
+
+// Likely matches for details about to be entered, for a "did you mean" prompt
+router.post("/duplicates/check", async (req, res) => {
+  try {
+    const { name, phone, email } = req.body;
+    res.json(await customerService.findDuplicates({ name, phone, email }));
+  } catch (error) {
+    structuredLogger.error('Failed to check for duplicate customers', {
+      error: error as Error,
+      severity: 'low'
+    });
+    res.status(500).json({ error: "Failed to check for duplicate customers" });
+  }
+});
+
+// Recompute job: rebuild every customer's lifetime stats from order and payment history
+router.post("/stats/recompute", async (req, res) => {
+  try {
+    res.json({ updated: await customerService.recomputeAllStats() });
+  } catch (error) {
+    structuredLogger.error('Failed to recompute customer stats', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to recompute customer stats" });
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    res.json(await customerService.getCustomer(req.params.id));
+  } catch (error) {
+    if (error instanceof CustomerError) {
+      return sendCustomerError(res, error);
+    }
+    structuredLogger.error('Failed to fetch customer', {
+      error: error as Error,
+      severity: 'medium',
+      customerId: req.params.id
+    });
+    res.status(500).json({ error: "Failed to fetch customer" });
+  }
+});
+
+// Create a customer; likely duplicates are rejected with 409 unless allowDuplicate is set
+router.post("/", async (req, res) => {
+  try {
+    const parsed = customerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid customer", details: parsed.error.flatten() });
+    }
+
+    const { allowDuplicate, ...input } = parsed.data;
+    res.status(201).json(await customerService.createCustomer(input, { allowDuplicate }));
+  } catch (error) {
+    if (error instanceof CustomerError) {
+      return sendCustomerError(res, error);
+    }
+    structuredLogger.error('Failed to create customer', {
+      error: error as Error,
+      severity: 'high'
+    });
+    res.status(500).json({ error: "Failed to create customer" });
+  }
+});
+
+router.put("/:id", async (req, res) => {
+  try {
+    const parsed = customerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid customer", details: parsed.error.flatten() });
+    }
+
+    const { allowDuplicate, ...input } = parsed.data;
+    res.json(await customerService.updateCustomer(req.params.id, input, { allowDuplicate }));
+  } catch (error) {
+    if (error instanceof CustomerError) {
+      return sendCustomerError(res, error);
+    }
+    structuredLogger.error('Failed to update customer', {
+      error: error as Error,
+      severity: 'medium',
+      customerId: req.params.id
+    });
+    res.status(500).json({ error: "Failed to update customer" });
+  }
+});
+
+router.delete("/:id", async (req, res) => {
+  try {
+    await customerService.deleteCustomer(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof CustomerError) {
+      return sendCustomerError(res, error);
+    }
+    structuredLogger.error('Failed to delete customer', {
+      error: error as Error,
+      severity: 'medium',
+      customerId: req.params.id
+    });
+    res.status(500).json({ error: "Failed to delete customer" });
+  }
+});
+
+// Merge a duplicate record into this one
+router.post("/:id/merge", async (req, res) => {
+  try {
+    const parsed = mergeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid merge request", details: parsed.error.flatten() });
+    }
+
+    res.json(await customerService.mergeCustomers(req.params.id, parsed.data.duplicateId, parsed.data.actor));
+  } catch (error) {
+    if (error instanceof CustomerError) {
+      return sendCustomerError(res, error);
+    }
+    structuredLogger.error('Failed to merge customers', {
+      error: error as Error,
+      severity: 'high',
+      customerId: req.params.id
+    });
+    res.status(500).json({ error: "Failed to merge customers" });
+  }
+});
+
+export default router;
@@ -0,0 +1,72 @@
+import { Router } from "express";
+import { z } from "zod";
+import { depositService, DepositError } from "../services/depositService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const depositRuleSchema = z.object({
+  name: z.string().min(1),
+  priority: z.enum(['standard', 'rush', 'express']).nullable().optional(),
+  minTotal: z.coerce.number().nonnegative().nullable().optional(),
+  percent: z.coerce.number().min(0).max(100),
+  minimumAmount: z.coerce.number().nonnegative().nullable().optional(),
+  sortOrder: z.coerce.number().int().optional(),
+  active: z.boolean().optional()
+});
+
+// Deposit rules in evaluation order
+router.get("/", async (req, res) => {
+  try {
+    res.json(await depositService.listRules());
+  } catch (error) {
+    structuredLogger.error('Failed to fetch deposit rules', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch deposit rules" });
+  }
+});
+
+router.post("/", async (req, res) => {
+  try {
+    const parsed = depositRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid deposit rule", details: parsed.error.flatten() });
+    }
+
+    res.status(201).json(await depositService.createRule(parsed.data));
+  } catch (error) {
+    if (error instanceof DepositError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to create deposit rule', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to create deposit rule" });
+  }
+});
+
+// Replace a rule; set active: false to retire it
+router.put("/:id", async (req, res) => {
+  try {
+    const parsed = depositRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid deposit rule", details: parsed.error.flatten() });
+    }
+
+    res.json(await depositService.updateRule(req.params.id, parsed.data));
+  } catch (error) {
+    if (error instanceof DepositError) {
+      return res.status(error.code === 'not_found' ? 404 : 400).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to update deposit rule', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to update deposit rule" });
+  }
+});
+
+export default router;
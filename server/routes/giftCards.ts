@@ -0,0 +1,73 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storedValueService, StoredValueError } from "../services/storedValueService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const issueGiftCardSchema = z.object({
+  amount: z.coerce.number().positive(),
+  customerId: z.string().uuid().optional(),
+  issuedBy: z.string().optional(),
+  expiresAt: z.coerce.date().optional(),
+  reason: z.string().optional()
+});
+
+// Issue a new gift card with a generated code
+router.post("/", async (req, res) => {
+  try {
+    const parsed = issueGiftCardSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid gift card", details: parsed.error.flatten() });
+    }
+
+    res.status(201).json(await storedValueService.issueGiftCard(parsed.data));
+  } catch (error) {
+    if (error instanceof StoredValueError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to issue gift card', {
+      error: error as Error,
+      severity: 'high'
+    });
+    res.status(500).json({ error: "Failed to issue gift card" });
+  }
+});
+
+// Gift cards held by a customer, with balances
+router.get("/", async (req, res) => {
+  try {
+    const { customerId } = req.query;
+    if (!customerId) {
+      return res.status(400).json({ error: "customerId is required" });
+    }
+
+    res.json(await storedValueService.listCustomerGiftCards(customerId as string));
+  } catch (error) {
+    structuredLogger.error('Failed to fetch gift cards', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch gift cards" });
+  }
+});
+
+// Balance and ledger history for a code
+router.get("/:code", async (req, res) => {
+  try {
+    const card = await storedValueService.getGiftCardByCode(req.params.code);
+    if (!card) {
+      return res.status(404).json({ error: "Gift card not found" });
+    }
+
+    res.json({ ...card, history: await storedValueService.getGiftCardHistory(card.id) });
+  } catch (error) {
+    structuredLogger.error('Failed to fetch gift card', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch gift card" });
+  }
+});
+
+export default router;
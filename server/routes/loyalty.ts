@@ -0,0 +1,132 @@
+import { Router } from "express";
+import { z } from "zod";
+import { loyaltyService, LoyaltyError, BONUS_MATCH_FIELDS, POINT_VALUE, MIN_REDEMPTION_POINTS } from "../services/loyaltyService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  kind: z.enum(['per_dollar', 'bonus']),
+  pointsPerDollar: z.coerce.number().positive().nullable().optional(),
+  bonusPoints: z.coerce.number().int().positive().nullable().optional(),
+  matchField: z.enum(BONUS_MATCH_FIELDS).nullable().optional(),
+  matchValue: z.string().nullable().optional(),
+  minOrderTotal: z.coerce.number().nonnegative().nullable().optional(),
+  active: z.boolean().optional()
+});
+
+const adjustmentSchema = z.object({
+  points: z.coerce.number().int().refine(value => value !== 0, "Points cannot be zero"),
+  reason: z.string().min(1),
+  actor: z.string().min(1).default('staff')
+});
+
+function loyaltyErrorStatus(error: LoyaltyError): number {
+  return { not_found: 404, invalid_request: 400, insufficient_points: 422, invalid_state: 409 }[error.code];
+}
+
+router.get("/rules", async (req, res) => {
+  try {
+    res.json(await loyaltyService.listRules());
+  } catch (error) {
+    structuredLogger.error('Failed to fetch loyalty rules', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch loyalty rules" });
+  }
+});
+
+router.post("/rules", async (req, res) => {
+  try {
+    const parsed = ruleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid loyalty rule", details: parsed.error.flatten() });
+    }
+
+    res.status(201).json(await loyaltyService.createRule(parsed.data));
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return res.status(loyaltyErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to create loyalty rule', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to create loyalty rule" });
+  }
+});
+
+// Replace a rule; set active: false to retire it (points already earned are kept)
+router.put("/rules/:id", async (req, res) => {
+  try {
+    const parsed = ruleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid loyalty rule", details: parsed.error.flatten() });
+    }
+
+    res.json(await loyaltyService.updateRule(req.params.id, parsed.data));
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return res.status(loyaltyErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to update loyalty rule', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to update loyalty rule" });
+  }
+});
+
+// Points balance and ledger history for a customer
+router.get("/customers/:customerId", async (req, res) => {
+  try {
+    const { customerId } = req.params;
+    const [balance, history] = await Promise.all([
+      loyaltyService.getBalance(customerId),
+      loyaltyService.getHistory(customerId)
+    ]);
+
+    res.json({
+      customerId,
+      balance,
+      pointValue: POINT_VALUE,
+      minRedemption: MIN_REDEMPTION_POINTS,
+      history
+    });
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return res.status(loyaltyErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to fetch loyalty points', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch loyalty points" });
+  }
+});
+
+// Manually add or remove points
+router.post("/customers/:customerId/adjustments", async (req, res) => {
+  try {
+    const parsed = adjustmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid adjustment", details: parsed.error.flatten() });
+    }
+
+    const { points, reason, actor } = parsed.data;
+    res.status(201).json(await loyaltyService.adjustPoints(req.params.customerId, points, reason, actor));
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return res.status(loyaltyErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to adjust loyalty points', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to adjust loyalty points" });
+  }
+});
+
+export default router;
@@ -1,17 +1,148 @@
 @@ .. @@
  import { Router } from "express";
++import { z } from "zod";
  import { db } from "../db";
 -import { orders, customers } from "../../shared/schema";
-+import { orders, customers, payments, orderMaterials, materials } from "../../shared/schema";
++import { orders, orderItems, customers, payments, orderMaterials, materials } from "../../shared/schema";
  import { eq, desc, and, or, like, sql } from "drizzle-orm";
-+import { calculateFramingPrice, calculateEstimatedCompletion } from "../../shared/pricing";
++import { calculateFramingPrice, calculateEstimatedCompletion, calculateDiscountLines, calculateTax, applyDiscounts, tradeDiscount, TradeTier, findPricingMismatches, rollUpBreakdowns, OrderSpecs, PricingResult } from "../../shared/pricing";
 +import { aiService } from "../services/aiService";
 +import { notificationService } from "../services/notificationService";
++import { priceBookService } from "../services/priceBookService";
++import { orderStatusService, StatusTransitionError } from "../services/orderStatusService";
++import { depositService, DepositError } from "../services/depositService";
++import { customerService } from "../services/customerService";
++import { LoyaltyError } from "../services/loyaltyService";
++import { promotionService, PromotionError } from "../services/promotionService";
++import { taxService, toAppliedTax, effectiveTaxRate } from "../services/taxService";
++import { tradeAccountService } from "../services/tradeAccountService";
++import { paymentService, PaymentError } from "../services/paymentService";
++import { salesReportService } from "../services/salesReportService";
++import { StoredValueError } from "../services/storedValueService";
 +import { withOrderTransaction } from "../utils/transactionHandler";
 +import { structuredLogger } from "../utils/logger";
  
  const router = Router();
  
++// Sizes and prices may arrive as numeric strings from forms; blanks count as not given
++const blankToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
++const optionalNumber = z.preprocess(blankToUndefined, z.coerce.number().finite().optional());
++const optionalLength = z.preprocess(blankToUndefined, z.coerce.number().finite().nonnegative().optional());
++const length = z.coerce.number().finite().nonnegative();
++
++const matLayerSchema = z.object({
++  matType: z.string().min(1),
++  reveal: optionalLength, // ignored for the top layer
++  fillet: z.preprocess(blankToUndefined, z.string().optional()),
++  vGroove: z.boolean().optional()
++});
++
++// Submitted pricing, checked against the server's own pricing
++const submittedPricing = {
++  basePrice: optionalNumber,
++  framePrice: optionalNumber,
++  matPrice: optionalNumber,
++  glassPrice: optionalNumber,
++  backingPrice: optionalNumber,
++  laborPrice: optionalNumber,
++  rushFee: optionalNumber,
++  subtotal: optionalNumber,
++  discount: optionalNumber,
++  tax: optionalNumber,
++  total: optionalNumber
++};
++
++// One framed piece
++const orderPieceSchema = z.object({
++  artworkDescription: z.string().optional(),
++  imageWidth: z.coerce.number().finite().positive(),
++  imageHeight: z.coerce.number().finite().positive(),
++  matWidth: optionalLength,
++  matHeight: optionalLength,
++  matBorders: z.object({ top: length, bottom: length, left: length, right: length }).optional(),
++  frameStyle: z.string().min(1).default('contemporary'),
++  mouldingMode: z.enum(['length', 'chop', 'join']).default('length'),
++  matType: z.string().optional(),
++  matLayers: z.array(matLayerSchema).optional(),
++  glassType: z.string().min(1).default('regular'),
++  backingType: z.string().min(1).default('standard'),
++  complexity: z.enum(['simple', 'medium', 'complex']).default('medium'),
++  specialInstructions: z.string().optional(),
++  ...submittedPricing
++});
++
++type OrderPieceInput = z.infer<typeof orderPieceSchema>;
++
++// A multi-piece order lists its pieces in items; otherwise the piece fields sit on the order itself
++const createOrderSchema = orderPieceSchema.partial().extend({
++  customerId: z.string().uuid().optional(),
++  status: z.enum(['quote', 'approved']).default('quote'),
++  priority: z.enum(['standard', 'rush', 'express']).default('standard'),
++  items: z.array(orderPieceSchema).optional(),
++  location: z.string().optional(),
++  onAccount: z.boolean().optional(),
++  couponCode: z.string().optional(),
++  discounts: z.array(z.object({
++    kind: z.enum(['percent', 'fixed']),
++    value: z.coerce.number().finite(),
++    label: z.string().optional(),
++    category: z.enum(['order', 'frame', 'mat', 'glass', 'backing', 'labor']).optional()
++  })).optional(),
++  internalNotes: z.string().optional(),
++  imageUrls: z.array(z.string()).optional(),
++  actor: z.string().optional()
++}).refine(
++  order => (order.items?.length || (order.imageWidth && order.imageHeight)) || order.total !== undefined,
++  { message: 'Orders without pieces need a total', path: ['total'] }
++);
++
++// Installments must add up to the order total; depositService checks that
++const paymentScheduleSchema = z.object({
++  installments: z.array(z.object({
++    dueDate: z.coerce.date(),
++    amount: z.coerce.number().finite().positive()
++  }))
++});
++
++// Column values shared by orders and order_items for one priced piece
++function toItemColumns(input: OrderPieceInput, specs: OrderSpecs, pricing: PricingResult) {
++  return {
++    artworkDescription: input.artworkDescription,
++    imageWidth: specs.imageWidth.toString(),
++    imageHeight: specs.imageHeight.toString(),
++    matBorderTop: pricing.borders.top.toString(),
++    matBorderBottom: pricing.borders.bottom.toString(),
++    matBorderLeft: pricing.borders.left.toString(),
++    matBorderRight: pricing.borders.right.toString(),
++    frameStyle: input.frameStyle,
++    mouldingMode: specs.mouldingMode,
++    matType: specs.matLayers?.[0]?.matType || specs.matType,
++    matLayers: specs.matLayers,
++    glassType: input.glassType,
++    backingType: input.backingType,
++    complexity: specs.complexity
++  };
++}
++
++// Build pricing engine specs from a validated piece
++function toOrderSpecs(piece: OrderPieceInput, priority: OrderSpecs['priority']): OrderSpecs {
++  return {
++    imageWidth: piece.imageWidth,
++    imageHeight: piece.imageHeight,
++    matWidth: piece.matWidth || 0,
++    matHeight: piece.matHeight || 0,
++    matBorders: piece.matBorders,
++    frameStyle: piece.frameStyle,
++    mouldingMode: piece.mouldingMode,
++    matType: piece.matType && piece.matType !== 'none' ? piece.matType : undefined,
++    matLayers: piece.matLayers,
++    glassType: piece.glassType,
++    backingType: piece.backingType,
++    complexity: piece.complexity,
++    priority
++  };
++}
++
 +// Get all orders with enhanced filtering and sorting
  router.get("/", async (req, res) => {
    try {
@@ -32,7 +163,8 @@
 +    let query = db
 +      .select({
 +        order: orders,
-+        customer: customers
++        customer: customers,
++        itemCount: sql<number>`(select count(*) from order_items where order_items.order_id = ${orders.id})`
 +      })
 +      .from(orders)
 +      .leftJoin(customers, eq(orders.customerId, customers.id));
@@ -68,9 +200,10 @@
 +
 +    const results = await query;
 +    
-+    const formattedOrders = results.map(({ order, customer }) => ({
++    const formattedOrders = results.map(({ order, customer, itemCount }) => ({
 +      ...order,
-+      customer
++      customer,
++      itemCount: Number(itemCount)
 +    }));
 +
 +    res.json(formattedOrders);
@@ -103,6 +236,13 @@
 +      return res.status(404).json({ error: "Order not found" });
 +    }
 +
++    // Get line items for this order
++    const items = await db
++      .select()
++      .from(orderItems)
++      .where(eq(orderItems.orderId, id))
++      .orderBy(orderItems.lineNumber);
++
 +    // Get payments for this order
 +    const orderPayments = await db
 +      .select()
@@ -120,11 +260,17 @@
 +      .leftJoin(materials, eq(orderMaterials.materialId, materials.id))
 +      .where(eq(orderMaterials.orderId, id));
 +
++    const statusHistory = await orderStatusService.getHistory(id);
++    const paymentSchedule = await depositService.getSchedule(id);
++
 +    const { order, customer } = orderData[0];
 +    
 +    res.json({
 +      ...order,
 +      customer,
++      items,
++      statusHistory,
++      paymentSchedule,
 +      payments: orderPayments,
 +      materials: orderMaterialsList
 +    });
@@ -152,30 +298,106 @@
 -    }).returning();
 -    
 -    res.json(newOrder);
-+    const orderData = req.body;
++    const parsed = createOrderSchema.safeParse(req.body);
++    if (!parsed.success) {
++      return res.status(400).json({ error: "Invalid order", details: parsed.error.flatten() });
++    }
++    const orderData = parsed.data;
++    const priority = orderData.priority;
++
++    // Each framed piece is an item; a body without items is a single-item order
++    const singlePiece = !orderData.items?.length;
++    const itemInputs: OrderPieceInput[] = !singlePiece
++      ? orderData.items!
++      : (orderData.imageWidth && orderData.imageHeight ? [orderPieceSchema.parse(orderData)] : []);
++
++    // Price on the server and reject totals the client computed differently
++    const priceBook = await priceBookService.getActivePriceBook();
++    const taxContext = await taxService.resolveTax(db, orderData.location || undefined, orderData.customerId);
++    const pricedItems = itemInputs.map(input => {
++      const specs = toOrderSpecs(input, priority);
++      return { input, specs, pricing: calculateFramingPrice(specs, priceBook, [], taxContext.rates) };
++    });
++    const orderBreakdown = pricedItems.length > 0
++      ? rollUpBreakdowns(pricedItems.map(item => item.pricing.breakdown))
++      : null;
++
++    const mismatches = [
++      ...pricedItems.flatMap(({ input, pricing }, index) => singlePiece
++        ? []
++        : findPricingMismatches(input, pricing.breakdown).map(field => `items[${index}].${field}`)),
++      ...(orderBreakdown ? findPricingMismatches(orderData, orderBreakdown) : [])
++    ];
++    if (mismatches.length > 0) {
++      structuredLogger.warn('Rejected order with mismatched pricing', {
++        operation: 'order.create',
++        metadata: { mismatches, submittedTotal: orderData.total, expectedTotal: orderBreakdown?.total }
++      });
++      return res.status(409).json({
++        error: "Submitted pricing does not match server pricing",
++        code: 'pricing_mismatch',
++        mismatches,
++        pricing: {
++          items: pricedItems.map(item => item.pricing),
++          totals: orderBreakdown
++        }
++      });
++    }
++
++    const initialStatus = orderData.status;
++
++    const primary = pricedItems[0];
++
++    // Trade account customers get their tier discount either way, and are billed on terms
++    // unless they pay at the counter (onAccount: false)
++    const tradeAccount = orderData.customerId
++      ? await tradeAccountService.getAccountForCustomer(db, orderData.customerId)
++      : null;
++    const billingAccount = tradeAccount && orderData.onAccount !== false ? tradeAccount : null;
++
++    // Trade tier, promotions, a coupon and staff discounts come off the priced subtotal before tax
++    const discounts = orderBreakdown
++      ? [
++          ...(tradeAccount ? [tradeDiscount(tradeAccount.tier as TradeTier)] : []),
++          ...await promotionService.resolveDiscounts(db, {
++            couponCode: orderData.couponCode,
++            manual: orderData.discounts,
++            automatic: true
++          }, orderBreakdown.subtotal)
++        ]
++      : [];
++    const discountLines = orderBreakdown ? calculateDiscountLines(orderBreakdown, discounts) : [];
++    const discountedBreakdown = orderBreakdown && discountLines.length > 0
++      ? applyDiscounts(orderBreakdown, discountLines, taxContext.rates)
++      : orderBreakdown;
++    const appliedTax = orderBreakdown
++      ? toAppliedTax(taxContext, calculateTax(orderBreakdown, discountLines, taxContext.rates))
++      : undefined;
++    const orderTotal = discountedBreakdown ? discountedBreakdown.total.toString() : orderData.total!.toFixed(2);
++
++    // Orders needing a deposit start as quotes and are approved once it is paid
++    const deposit = billingAccount
++      ? { amount: 0 }
++      : await depositService.getRequiredDeposit(db, { total: orderTotal, priority });
++    if (initialStatus === 'approved' && deposit.amount > 0) {
++      return res.status(409).json({
++        error: `A deposit of $${deposit.amount.toFixed(2)} is required before approval`,
++        code: 'guard_failed',
++        depositRequired: deposit.amount
++      });
++    }
++    if (initialStatus === 'approved' && billingAccount) {
++      const creditProblem = await tradeAccountService.checkCredit(db, billingAccount.id, parseFloat(orderTotal));
++      if (creditProblem) {
++        return res.status(409).json({ error: creditProblem, code: 'guard_failed' });
++      }
++    }
 +    
-+    await withOrderTransaction(
++    const newOrder = await withOrderTransaction(
 +      orderData.customerId || 'new',
 +      async (tx) => {
 +        // Generate order number
 +        const orderNumber = `JF-${Date.now().toString().slice(-8)}`;
-+        
-+        // Calculate pricing if specifications provided
-+        let pricingBreakdown = null;
-+        if (orderData.imageWidth && orderData.imageHeight) {
-+          pricingBreakdown = calculateFramingPrice({
-+            imageWidth: parseFloat(orderData.imageWidth),
-+            imageHeight: parseFloat(orderData.imageHeight),
-+            matWidth: parseFloat(orderData.matWidth || 0),
-+            matHeight: parseFloat(orderData.matHeight || 0),
-+            frameStyle: orderData.frameStyle || 'contemporary',
-+            matType: orderData.matType,
-+            glassType: orderData.glassType || 'regular',
-+            backingType: orderData.backingType || 'standard',
-+            complexity: orderData.complexity || 'medium',
-+            rush: orderData.priority === 'rush' || orderData.priority === 'express'
-+          });
-+        }
 +
 +        // Calculate estimated completion
 +        const currentWorkload = await tx
@@ -191,46 +413,87 @@
 +            )
 +          );
 +
++        // The most complex piece drives the turnaround estimate
++        const complexity = pricedItems.reduce<OrderSpecs['complexity']>((current, { specs }) => {
++          const rank = { simple: 0, medium: 1, complex: 2 };
++          return rank[specs.complexity] > rank[current] ? specs.complexity : current;
++        }, orderData.complexity || primary?.specs.complexity || 'medium');
++
 +        const estimatedCompletion = calculateEstimatedCompletion(
 +          currentWorkload[0]?.count || 0,
-+          orderData.complexity || 'medium',
-+          orderData.priority || 'standard'
++          complexity,
++          priority
 +        );
 +
-+        // Create the order
++        // Create the order; single-piece columns mirror the first item for existing views
 +        const [newOrder] = await tx.insert(orders).values({
 +          customerId: orderData.customerId,
 +          orderNumber,
-+          status: orderData.status || 'quote',
-+          priority: orderData.priority || 'standard',
-+          artworkDescription: orderData.artworkDescription,
-+          imageWidth: orderData.imageWidth,
-+          imageHeight: orderData.imageHeight,
-+          matWidth: orderData.matWidth,
-+          matHeight: orderData.matHeight,
-+          frameStyle: orderData.frameStyle,
-+          matType: orderData.matType,
-+          glassType: orderData.glassType,
-+          backingType: orderData.backingType,
-+          complexity: orderData.complexity || 'medium',
++          status: initialStatus,
++          priority,
++          ...(primary ? toItemColumns(primary.input, primary.specs, primary.pricing) : {}),
++          artworkDescription: orderData.artworkDescription || primary?.input.artworkDescription,
++          matWidth: primary?.input.matWidth?.toString(),
++          matHeight: primary?.input.matHeight?.toString(),
++          complexity,
 +          specialInstructions: orderData.specialInstructions,
 +          internalNotes: orderData.internalNotes,
 +          imageUrls: orderData.imageUrls || [],
 +          estimatedCompletion,
-+          // Pricing breakdown
-+          basePrice: pricingBreakdown?.breakdown.basePrice.toString(),
-+          framePrice: pricingBreakdown?.breakdown.framePrice.toString(),
-+          matPrice: pricingBreakdown?.breakdown.matPrice.toString(),
-+          glassPrice: pricingBreakdown?.breakdown.glassPrice.toString(),
-+          backingPrice: pricingBreakdown?.breakdown.backingPrice.toString(),
-+          laborPrice: pricingBreakdown?.breakdown.laborPrice.toString(),
-+          rushFee: pricingBreakdown?.breakdown.rushFee.toString(),
-+          subtotal: pricingBreakdown?.breakdown.subtotal.toString(),
-+          tax: pricingBreakdown?.breakdown.tax.toString(),
-+          total: pricingBreakdown?.breakdown.total.toString() || orderData.total,
++          // Pricing breakdown rolled up from the items
++          basePrice: orderBreakdown?.basePrice.toString(),
++          framePrice: orderBreakdown?.framePrice.toString(),
++          matPrice: orderBreakdown?.matPrice.toString(),
++          glassPrice: orderBreakdown?.glassPrice.toString(),
++          backingPrice: orderBreakdown?.backingPrice.toString(),
++          laborPrice: orderBreakdown?.laborPrice.toString(),
++          rushFee: orderBreakdown?.rushFee.toString(),
++          subtotal: orderBreakdown?.subtotal.toString(),
++          discount: discountedBreakdown?.discount.toString(),
++          discountLines: discountLines.length > 0 ? discountLines : undefined,
++          tax: discountedBreakdown?.tax.toString(),
++          taxRate: discountedBreakdown ? effectiveTaxRate(discountedBreakdown) : undefined,
++          taxDetails: appliedTax,
++          total: orderTotal,
++          depositRequired: deposit.amount.toFixed(2),
++          tradeAccountId: billingAccount?.id,
++          paymentTerms: billingAccount?.terms,
++          priceBookVersion: primary ? priceBook.version : undefined,
 +          paymentStatus: 'unpaid'
 +        }).returning();
 +
++        await promotionService.claimUsage(tx, discountLines);
++
++        if (pricedItems.length > 0) {
++          await tx.insert(orderItems).values(pricedItems.map(({ input, specs, pricing }, index) => ({
++            orderId: newOrder.id,
++            lineNumber: index + 1,
++            ...toItemColumns(input, specs, pricing),
++            basePrice: pricing.breakdown.basePrice.toString(),
++            framePrice: pricing.breakdown.framePrice.toString(),
++            matPrice: pricing.breakdown.matPrice.toString(),
++            glassPrice: pricing.breakdown.glassPrice.toString(),
++            backingPrice: pricing.breakdown.backingPrice.toString(),
++            laborPrice: pricing.breakdown.laborPrice.toString(),
++            rushFee: pricing.breakdown.rushFee.toString(),
++            subtotal: pricing.breakdown.subtotal.toString(),
++            tax: pricing.breakdown.tax.toString(),
++            total: pricing.breakdown.total.toString(),
++            specialInstructions: singlePiece ? undefined : input.specialInstructions
++          })));
++        }
++
++        if (newOrder.customerId) {
++          await customerService.recomputeStats(tx, newOrder.customerId);
++        }
++
++        await orderStatusService.recordTransition(tx, newOrder, {
++          fromStatus: null,
++          toStatus: newOrder.status,
++          actor: orderData.actor || 'staff',
++          note: 'Order created'
++        });
++
 +        // If images provided, trigger AI analysis
 +        if (orderData.imageUrls && orderData.imageUrls.length > 0) {
 +          // Run AI analysis asynchronously
@@ -266,6 +529,9 @@
 +
 +    res.json(newOrder);
    } catch (error) {
++    if (error instanceof PromotionError) {
++      return res.status(promotionErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
 +    structuredLogger.error('Failed to create order', {
 +      error: error as Error,
 +      severity: 'high'
@@ -274,26 +540,18 @@
    }
  });
  
-+// Update order status with notifications
++// Move an order through its status lifecycle with notifications
 +router.patch("/:id/status", async (req, res) => {
 +  try {
 +    const { id } = req.params;
-+    const { status, notes } = req.body;
-+
-+    const [updatedOrder] = await db
-+      .update(orders)
-+      .set({
-+        status,
-+        lastStatusUpdate: new Date(),
-+        internalNotes: notes ? `${new Date().toISOString()}: ${notes}` : undefined,
-+        updatedAt: new Date()
-+      })
-+      .where(eq(orders.id, id))
-+      .returning();
++    const { status, notes, actor, override } = req.body;
 +
-+    if (!updatedOrder) {
-+      return res.status(404).json({ error: "Order not found" });
-+    }
++    const updatedOrder = await orderStatusService.transition(id, {
++      status,
++      actor: actor || 'staff',
++      note: notes,
++      override: Boolean(override)
++    });
 +
 +    // Send status update notification
 +    const templateName = status === 'ready' ? 'ready_for_pickup' : 'status_update';
@@ -308,6 +566,10 @@
 +
 +    res.json(updatedOrder);
 +  } catch (error) {
++    if (error instanceof StatusTransitionError) {
++      const httpStatus = { not_found: 404, invalid_status: 400, invalid_transition: 409, guard_failed: 409 }[error.code];
++      return res.status(httpStatus).json({ error: error.message, code: error.code, reasons: error.reasons });
++    }
 +    structuredLogger.error('Failed to update order status', {
 +      error: error as Error,
 +      severity: 'medium',
@@ -317,69 +579,382 @@
 +  }
 +});
 +
-+// Process payment for order
-+router.post("/:id/payments", async (req, res) => {
++// Status transition history for an order
++router.get("/:id/status-history", async (req, res) => {
 +  try {
-+    const { id } = req.params;
-+    const { amount, method, transactionId, notes } = req.body;
++    res.json(await orderStatusService.getHistory(req.params.id));
++  } catch (error) {
++    structuredLogger.error('Failed to fetch order status history', {
++      error: error as Error,
++      severity: 'low',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to fetch order status history" });
++  }
++});
 +
-+    await withOrderTransaction(id, async (tx) => {
-+      // Get current order
-+      const [order] = await tx
-+        .select()
-+        .from(orders)
-+        .where(eq(orders.id, id))
-+        .limit(1);
++// Installment schedule with what each installment has been covered by payments so far
++router.get("/:id/payment-schedule", async (req, res) => {
++  try {
++    res.json(await depositService.getSchedule(req.params.id));
++  } catch (error) {
++    if (error instanceof DepositError) {
++      return res.status(depositErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to fetch payment schedule', {
++      error: error as Error,
++      severity: 'low',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to fetch payment schedule" });
++  }
++});
 +
-+      if (!order) {
-+        throw new Error('Order not found');
-+      }
++// Replace the installment schedule; installments must add up to the order total
++router.put("/:id/payment-schedule", async (req, res) => {
++  try {
++    const parsed = paymentScheduleSchema.safeParse(req.body);
++    if (!parsed.success) {
++      return res.status(400).json({ error: "Invalid payment schedule", details: parsed.error.flatten() });
++    }
++
++    res.json(await depositService.setSchedule(req.params.id, parsed.data.installments));
++  } catch (error) {
++    if (error instanceof DepositError) {
++      return res.status(depositErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to save payment schedule', {
++      error: error as Error,
++      severity: 'medium',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to save payment schedule" });
++  }
++});
++
++router.delete("/:id/payment-schedule", async (req, res) => {
++  try {
++    await depositService.clearSchedule(req.params.id);
++    res.status(204).end();
++  } catch (error) {
++    structuredLogger.error('Failed to clear payment schedule', {
++      error: error as Error,
++      severity: 'medium',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to clear payment schedule" });
++  }
++});
++
++function depositErrorStatus(error: DepositError): number {
++  return { not_found: 404, invalid_request: 400, invalid_state: 409 }[error.code];
++}
++
++// Update production status (and optionally the assigned framer) of a single line item
++router.patch("/:id/items/:itemId/status", async (req, res) => {
++  try {
++    const { id, itemId } = req.params;
++    const { status, assignedTo } = req.body;
++
++    if (!['pending', 'in_production', 'completed'].includes(status)) {
++      return res.status(400).json({ error: "Invalid item status" });
++    }
++
++    const [updatedItem] = await db
++      .update(orderItems)
++      .set({
++        status,
++        assignedTo,
++        completedAt: status === 'completed' ? new Date() : null,
++        updatedAt: new Date()
++      })
++      .where(and(eq(orderItems.id, itemId), eq(orderItems.orderId, id)))
++      .returning();
++
++    if (!updatedItem) {
++      return res.status(404).json({ error: "Order item not found" });
++    }
++
++    res.json(updatedItem);
++  } catch (error) {
++    structuredLogger.error('Failed to update order item status', {
++      error: error as Error,
++      severity: 'medium',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to update order item status" });
++  }
++});
++
++// Process payment for order; retries carrying the same Idempotency-Key are replayed.
++// A paymentMethodToken charges the card through the payment provider. Drawer tenders are
++// recorded against drawerSessionId, or else the open session of `register` (default "main").
++router.post("/:id/payments", async (req, res) => {
++  try {
++    const { id } = req.params;
++    const { amount, method, transactionId, notes, giftCardCode, paymentMethodToken, capture, drawerSessionId, register } = req.body;
++    const idempotencyKey = req.get('Idempotency-Key') || undefined;
 +
-+      // Create payment record
-+      const [payment] = await tx.insert(payments).values({
-+        orderId: id,
-+        amount: amount.toString(),
++    const result = paymentMethodToken
++      ? await paymentService.chargeCard(id, {
++        amount: parseFloat(amount),
++        paymentMethodToken,
++        capture: capture !== false,
++        notes,
++        idempotencyKey,
++        drawerSessionId,
++        register
++      })
++      : await paymentService.recordPayment(id, {
++        amount: parseFloat(amount),
 +        method,
 +        transactionId,
 +        notes,
-+        status: 'completed'
-+      }).returning();
++        idempotencyKey,
++        giftCardCode,
++        drawerSessionId,
++        register
++      });
 +
-+      // Update order payment status
-+      const currentPaid = parseFloat(order.amountPaid || '0');
-+      const newAmountPaid = currentPaid + parseFloat(amount);
-+      const orderTotal = parseFloat(order.total);
-+      
-+      let paymentStatus = 'partial';
-+      if (newAmountPaid >= orderTotal) {
-+        paymentStatus = 'paid';
-+      } else if (newAmountPaid <= 0) {
-+        paymentStatus = 'unpaid';
-+      }
++    if (result.replayed) {
++      res.set('Idempotent-Replayed', 'true');
++    }
++    res.json({
++      success: true,
++      payment: result.payment,
++      order: result.order,
++      remainingBalance: result.remainingBalance
++    });
++  } catch (error) {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code, declineCode: error.declineCode });
++    }
++    if (error instanceof StoredValueError) {
++      return res.status(storedValueErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to process payment', {
++      error: error as Error,
++      severity: 'high',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to process payment" });
++  }
++});
 +
-+      await tx
-+        .update(orders)
-+        .set({
-+          amountPaid: newAmountPaid.toString(),
-+          paymentStatus,
-+          updatedAt: new Date()
-+        })
-+        .where(eq(orders.id, id));
++function storedValueErrorStatus(error: StoredValueError): number {
++  return { not_found: 404, invalid_request: 400, insufficient_balance: 422, inactive: 409 }[error.code];
++}
++
++function paymentErrorStatus(error: PaymentError): number {
++  return {
++    not_found: 404,
++    invalid_request: 400,
++    invalid_state: 409,
++    idempotency_conflict: 422,
++    declined: 402,
++    provider_unavailable: 504
++  }[error.code];
++}
 +
-+      return payment;
-+    }, 'payment');
++function loyaltyErrorStatus(error: LoyaltyError): number {
++  return { not_found: 404, invalid_request: 400, insufficient_points: 422, invalid_state: 409 }[error.code];
++}
 +
-+    res.json({ success: true, payment });
++function promotionErrorStatus(error: PromotionError): number {
++  return { not_found: 404, invalid_request: 400, duplicate: 409, unavailable: 422, exhausted: 409 }[error.code];
++}
++
++// Add a coupon ({ couponCode }) or a staff discount ({ kind, value, label?, category? }) to the order
++router.post("/:id/discounts", async (req, res) => {
++  try {
++    const { couponCode, kind, value, label, category, actor } = req.body;
++    const order = await paymentService.addDiscount(
++      req.params.id,
++      couponCode
++        ? { couponCode }
++        : { manual: [{ kind, value: parseFloat(value), label, category }] },
++      actor || 'staff'
++    );
++    res.json(order);
 +  } catch (error) {
-+    structuredLogger.error('Failed to process payment', {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    if (error instanceof PromotionError) {
++      return res.status(promotionErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to add discount', {
++      error: error as Error,
++      severity: 'medium',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to add discount" });
++  }
++});
++
++// Remove a discount line by its reference; a coupon's use is given back
++router.delete("/:id/discounts/:reference", async (req, res) => {
++  try {
++    const { id, reference } = req.params;
++    const order = await paymentService.removeDiscount(id, reference, (req.query.actor as string) || 'staff');
++    res.json(order);
++  } catch (error) {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to remove discount', {
++      error: error as Error,
++      severity: 'medium',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to remove discount" });
++  }
++});
++
++// Redeem loyalty points as a discount line on the order
++router.post("/:id/loyalty-redemptions", async (req, res) => {
++  try {
++    const { points, actor } = req.body;
++    const order = await paymentService.redeemLoyaltyPoints(req.params.id, parseInt(points), actor || 'staff');
++    res.json(order);
++  } catch (error) {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    if (error instanceof LoyaltyError) {
++      return res.status(loyaltyErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to redeem loyalty points', {
++      error: error as Error,
++      severity: 'medium',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to redeem loyalty points" });
++  }
++});
++
++// Remove a loyalty discount and return the points
++router.delete("/:id/loyalty-redemptions/:entryId", async (req, res) => {
++  try {
++    const { id, entryId } = req.params;
++    const order = await paymentService.removeLoyaltyRedemption(id, entryId, (req.query.actor as string) || 'staff');
++    res.json(order);
++  } catch (error) {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    if (error instanceof LoyaltyError) {
++      return res.status(loyaltyErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to remove loyalty redemption', {
++      error: error as Error,
++      severity: 'medium',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to remove loyalty redemption" });
++  }
++});
++
++// Capture a card authorization; an amount below the hold is a partial capture
++router.post("/:id/payments/:paymentId/capture", async (req, res) => {
++  try {
++    const { id, paymentId } = req.params;
++    const { amount } = req.body;
++
++    const result = await paymentService.capturePayment(
++      id,
++      paymentId,
++      amount !== undefined ? parseFloat(amount) : undefined
++    );
++
++    res.json({ success: true, payment: result.entry, order: result.order });
++  } catch (error) {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to capture payment', {
 +      error: error as Error,
 +      severity: 'high',
 +      orderId: req.params.id
 +    });
-+    res.status(500).json({ error: "Failed to process payment" });
++    res.status(500).json({ error: "Failed to capture payment" });
 +  }
 +});
 +
++// Refund all or part of a payment to its original method or to store credit
++router.post("/:id/payments/:paymentId/refund", async (req, res) => {
++  try {
++    const { id, paymentId } = req.params;
++    const { amount, reason, destination, notes, drawerSessionId, register } = req.body;
++
++    if (destination !== undefined && !['original', 'store_credit'].includes(destination)) {
++      return res.status(400).json({ error: "Invalid refund destination" });
++    }
++
++    const result = await paymentService.refundPayment(id, paymentId, {
++      amount: amount !== undefined ? parseFloat(amount) : undefined,
++      reason,
++      destination,
++      notes,
++      drawerSessionId,
++      register
++    });
++
++    res.json({ success: true, refund: result.entry, order: result.order });
++  } catch (error) {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to refund payment', {
++      error: error as Error,
++      severity: 'high',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to refund payment" });
++  }
++});
++
++// Void a payment in full
++router.post("/:id/payments/:paymentId/void", async (req, res) => {
++  try {
++    const { id, paymentId } = req.params;
++    const { reason, drawerSessionId, register } = req.body;
++    const result = await paymentService.voidPayment(id, paymentId, reason, { drawerSessionId, register });
++
++    res.json({ success: true, void: result.entry, order: result.order });
++  } catch (error) {
++    if (error instanceof PaymentError) {
++      return res.status(paymentErrorStatus(error)).json({ error: error.message, code: error.code });
++    }
++    structuredLogger.error('Failed to void payment', {
++      error: error as Error,
++      severity: 'high',
++      orderId: req.params.id
++    });
++    res.status(500).json({ error: "Failed to void payment" });
++  }
++});
++
++// Materials of one kind by how many orders used them in the timeframe, with the revenue they brought in.
++// Each piece of a multi-piece order counts; single-piece orders only have the order columns.
++function topMaterials(field: 'frameStyle' | 'matType' | 'glassType', startDate: Date) {
++  const priceField = ({ frameStyle: 'framePrice', matType: 'matPrice', glassType: 'glassPrice' } as const)[field];
++  const name = sql<string>`case when ${orderItems.id} is null then ${orders[field]} else ${orderItems[field]} end`;
++  const price = sql`case when ${orderItems.id} is null then ${orders[priceField]} else ${orderItems[priceField]} end`;
++  return db
++    .select({
++      name,
++      orders: sql<number>`count(distinct ${orders.id})`,
++      revenue: sql<number>`coalesce(sum(cast(${price} as decimal)), 0)`
++    })
++    .from(orders)
++    .leftJoin(orderItems, eq(orderItems.orderId, orders.id))
++    .where(sql`${orders.createdAt} >= ${startDate} and ${name} is not null and ${orders.status} not in ('quote', 'cancelled')`)
++    .groupBy(name)
++    .orderBy(sql`count(distinct ${orders.id}) desc`)
++    .limit(5);
++}
++
 +// Get order analytics
 +router.get("/analytics/dashboard", async (req, res) => {
 +  try {
@@ -394,7 +969,12 @@
 +      totalRevenue,
 +      statusBreakdown,
 +      paymentBreakdown,
-+      recentOrders
++      recentOrders,
++      salesTrend,
++      turnaround,
++      topFrames,
++      topMats,
++      topGlass
 +    ] = await Promise.all([
 +      // Total orders in timeframe
 +      db
@@ -439,7 +1019,28 @@
 +        .from(orders)
 +        .leftJoin(customers, eq(orders.customerId, customers.id))
 +        .orderBy(desc(orders.createdAt))
-+        .limit(10)
++        .limit(10),
++
++      // Revenue and margin trend against the previous timeframe
++      salesReportService.getReport({
++        from: startDate,
++        to: new Date(),
++        interval: days <= 31 ? 'day' : days <= 180 ? 'week' : 'month'
++      }),
++
++      // Average turnaround of orders completed in timeframe
++      db
++        .select({
++          completedOrders: sql<number>`count(*)`,
++          averageDays: sql<number>`avg(extract(epoch from (actual_completion - created_at)) / 86400)`
++        })
++        .from(orders)
++        .where(sql`actual_completion >= ${startDate} and created_at is not null`),
++
++      // Most used frame styles, mat types and glass types
++      topMaterials('frameStyle', startDate),
++      topMaterials('matType', startDate),
++      topMaterials('glassType', startDate)
 +    ]);
 +
 +    res.json({
@@ -450,7 +1051,21 @@
 +      recentOrders: recentOrders.map(({ order, customer }) => ({
 +        ...order,
 +        customer
-+      }))
++      })),
++      sales: salesTrend.totals,
++      revenueTrend: salesTrend.rows,
++      trendInterval: salesTrend.interval,
++      turnaround: {
++        completedOrders: Number(turnaround[0]?.completedOrders || 0),
++        averageDays: turnaround[0]?.averageDays !== null && turnaround[0]?.averageDays !== undefined
++          ? Math.round(Number(turnaround[0].averageDays) * 10) / 10
++          : null
++      },
++      topMaterials: {
++        frames: topFrames,
++        mats: topMats,
++        glass: topGlass
++      }
 +    });
 +
 +  } catch (error) {
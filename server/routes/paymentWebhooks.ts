@@ -0,0 +1,35 @@
+import express, { Request, Router } from "express";
+import { paymentService, PaymentError } from "../services/paymentService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+type WebhookRequest = Request & { rawBody?: Buffer };
+
+// Provider webhooks need the raw body for signature verification. JSON bodies are already
+// parsed by the app-wide express.json(), which keeps the raw bytes as rawBody for signed
+// requests; express.raw() covers any other content type.
+router.post("/", express.raw({ type: "*/*" }), async (req: WebhookRequest, res) => {
+  try {
+    const signature = req.get('Stripe-Signature') || req.get('X-Signature') || undefined;
+    const rawBody = req.rawBody ?? (Buffer.isBuffer(req.body) ? req.body : undefined);
+    if (!rawBody) {
+      return res.status(400).json({ error: "Webhook body could not be read" });
+    }
+    const { event, applied } = await paymentService.handleProviderWebhook(rawBody, signature);
+
+    res.json({ received: true, eventId: event.id, applied });
+  } catch (error) {
+    if (error instanceof PaymentError && error.code === 'invalid_request') {
+      return res.status(400).json({ error: error.message });
+    }
+    structuredLogger.error('Failed to process payment webhook', {
+      error: error as Error,
+      severity: 'high',
+      integration: 'payments'
+    });
+    res.status(500).json({ error: "Failed to process payment webhook" });
+  }
+});
+
+export default router;
@@ -0,0 +1,122 @@
+import { Router } from "express";
+import { z } from "zod";
+import { priceBookService } from "../services/priceBookService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const rateTableSchema = z.record(z.number().nonnegative());
+
+const mouldingModeTableSchema = z.object({
+  length: z.number().nonnegative(),
+  chop: z.number().nonnegative(),
+  join: z.number().nonnegative()
+});
+
+const publishPriceBookSchema = z.object({
+  name: z.string().min(1),
+  tiers: z.array(z.object({
+    minSize: z.number().nonnegative(),
+    maxSize: z.number().positive().nullable(),
+    basePrice: z.number().nonnegative(),
+    laborMultiplier: z.number().positive()
+  })).min(1),
+  materials: z.object({
+    frames: rateTableSchema,
+    mats: rateTableSchema,
+    glass: rateTableSchema,
+    backing: rateTableSchema
+  }),
+  moulding: z.object({
+    rates: z.record(mouldingModeTableSchema.partial()),
+    modeMultipliers: mouldingModeTableSchema,
+    wasteFactor: mouldingModeTableSchema,
+    unitedInchTables: z.record(z.array(z.object({
+      maxUnitedInches: z.number().positive(),
+      price: z.number().nonnegative()
+    })))
+  }).optional(),
+  matStack: z.object({
+    fillets: rateTableSchema,
+    vGroove: z.number().nonnegative(),
+    layerLabor: z.number().nonnegative()
+  }).optional(),
+  effectiveFrom: z.coerce.date().optional(),
+  notes: z.string().optional(),
+  createdBy: z.string().optional()
+});
+
+// List all price book versions
+router.get("/", async (req, res) => {
+  try {
+    res.json(await priceBookService.listPriceBooks());
+  } catch (error) {
+    structuredLogger.error('Failed to fetch price books', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch price books" });
+  }
+});
+
+// Get the price book currently used for new orders
+router.get("/active", async (req, res) => {
+  try {
+    res.json(await priceBookService.getActivePriceBook());
+  } catch (error) {
+    structuredLogger.error('Failed to fetch active price book', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch active price book" });
+  }
+});
+
+// Get a specific version (used to reproduce historical quotes)
+router.get("/:version", async (req, res) => {
+  try {
+    const version = parseInt(req.params.version);
+    if (isNaN(version)) {
+      return res.status(400).json({ error: "Invalid price book version" });
+    }
+
+    const priceBook = await priceBookService.getPriceBookByVersion(version);
+    if (!priceBook) {
+      return res.status(404).json({ error: "Price book not found" });
+    }
+
+    res.json(priceBook);
+  } catch (error) {
+    structuredLogger.error('Failed to fetch price book', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch price book" });
+  }
+});
+
+// Publish a new price book version
+router.post("/", async (req, res) => {
+  try {
+    const parsed = publishPriceBookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid price book", details: parsed.error.flatten() });
+    }
+
+    const { tiers, ...rest } = parsed.data;
+    const priceBook = await priceBookService.publishPriceBook({
+      ...rest,
+      tiers: tiers.map(tier => ({ ...tier, maxSize: tier.maxSize ?? Infinity }))
+    });
+
+    res.status(201).json(priceBook);
+  } catch (error) {
+    structuredLogger.error('Failed to publish price book', {
+      error: error as Error,
+      severity: 'high'
+    });
+    res.status(500).json({ error: "Failed to publish price book" });
+  }
+});
+
+export default router;
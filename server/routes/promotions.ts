@@ -0,0 +1,109 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db";
+import { promotionService, PromotionError, DISCOUNT_CATEGORIES } from "../services/promotionService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const promotionSchema = z.object({
+  name: z.string().min(1),
+  code: z.string().trim().min(1).nullable().optional(), // omit for a promotion that applies automatically
+  kind: z.enum(['percent', 'fixed']),
+  value: z.coerce.number().positive(),
+  category: z.enum(DISCOUNT_CATEGORIES).optional(),
+  minSubtotal: z.coerce.number().nonnegative().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  usageLimit: z.coerce.number().int().positive().nullable().optional(),
+  active: z.boolean().optional()
+});
+
+function promotionErrorStatus(error: PromotionError): number {
+  return { not_found: 404, invalid_request: 400, duplicate: 409, unavailable: 422, exhausted: 409 }[error.code];
+}
+
+router.get("/", async (req, res) => {
+  try {
+    res.json(await promotionService.listPromotions());
+  } catch (error) {
+    structuredLogger.error('Failed to fetch promotions', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch promotions" });
+  }
+});
+
+// Automatic promotions running now, used to preview discounts on a new order
+router.get("/active", async (req, res) => {
+  try {
+    res.json(await promotionService.getActivePromotions());
+  } catch (error) {
+    structuredLogger.error('Failed to fetch active promotions', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch active promotions" });
+  }
+});
+
+// Check a coupon before it is applied; pass ?subtotal= to check its minimum
+router.get("/coupons/:code", async (req, res) => {
+  try {
+    const subtotal = req.query.subtotal ? parseFloat(req.query.subtotal as string) : null;
+    res.json(await promotionService.lookupCoupon(db, req.params.code, subtotal));
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return res.status(promotionErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to look up coupon', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to look up coupon" });
+  }
+});
+
+router.post("/", async (req, res) => {
+  try {
+    const parsed = promotionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid promotion", details: parsed.error.flatten() });
+    }
+
+    res.status(201).json(await promotionService.createPromotion(parsed.data));
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return res.status(promotionErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to create promotion', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to create promotion" });
+  }
+});
+
+// Replace a promotion; set active: false to end it early (orders keep their discount lines)
+router.put("/:id", async (req, res) => {
+  try {
+    const parsed = promotionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid promotion", details: parsed.error.flatten() });
+    }
+
+    res.json(await promotionService.updatePromotion(req.params.id, parsed.data));
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return res.status(promotionErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to update promotion', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to update promotion" });
+  }
+});
+
+export default router;
@@ -0,0 +1,102 @@
+import { Router } from "express";
+import { z } from "zod";
+import { receivablesService, ReceivablesError, agingReportToCsv, receivablesToCsv } from "../services/receivablesService";
+import { AR_BUCKETS } from "../../shared/receivables";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const agingQuerySchema = z.object({
+  asOf: z.coerce.date().optional() // defaults to now
+});
+
+const ordersQuerySchema = agingQuerySchema.extend({
+  customerId: z.string().uuid().optional(),
+  bucket: z.enum(AR_BUCKETS).optional()
+});
+
+const dateStamp = (asOf?: Date) => (asOf || new Date()).toISOString().slice(0, 10);
+
+// Outstanding balances by customer in 0-30/31-60/61-90/90+ buckets; ?format=csv to export
+router.get("/aging", async (req, res) => {
+  try {
+    const parsed = agingQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid aging request", details: parsed.error.flatten() });
+    }
+
+    const report = await receivablesService.getAgingReport(parsed.data.asOf);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="ar-aging-${dateStamp(parsed.data.asOf)}.csv"`);
+      return res.send(agingReportToCsv(report));
+    }
+
+    res.json(report);
+  } catch (error) {
+    structuredLogger.error('Failed to build AR aging report', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to build AR aging report" });
+  }
+});
+
+// Open orders, optionally for one customer or bucket; ?format=csv to export
+router.get("/aging/orders", async (req, res) => {
+  try {
+    const parsed = ordersQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid aging request", details: parsed.error.flatten() });
+    }
+
+    const { asOf, ...filter } = parsed.data;
+    const lines = await receivablesService.getOpenReceivables(asOf, filter);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="ar-open-orders-${dateStamp(asOf)}.csv"`);
+      return res.send(receivablesToCsv(lines));
+    }
+
+    res.json(lines);
+  } catch (error) {
+    structuredLogger.error('Failed to fetch open receivables', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch open receivables" });
+  }
+});
+
+// One customer's aging with their open orders; ?format=csv to export the orders
+router.get("/aging/customers/:customerId", async (req, res) => {
+  try {
+    const parsed = agingQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid aging request", details: parsed.error.flatten() });
+    }
+
+    const detail = await receivablesService.getCustomerAging(req.params.customerId, parsed.data.asOf);
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="ar-aging-${req.params.customerId.slice(0, 8)}-${dateStamp(parsed.data.asOf)}.csv"`);
+      return res.send(receivablesToCsv(detail.orders));
+    }
+
+    res.json(detail);
+  } catch (error) {
+    if (error instanceof ReceivablesError) {
+      return res.status(404).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to build customer aging', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to build customer aging" });
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import { Router } from "express";
+import { z } from "zod";
+import { salesReportService, SALES_DIMENSIONS, SALES_INTERVALS } from "../services/salesReportService";
+import { taxReportService, taxReportToCsv } from "../services/taxReportService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+const periodSchema = z.object({
+  from: z.coerce.date().optional(), // defaults to 30 days before `to`
+  to: z.coerce.date().optional() // defaults to now
+});
+
+const salesQuerySchema = periodSchema.extend({
+  groupBy: z.enum(SALES_DIMENSIONS).optional(),
+  interval: z.enum(SALES_INTERVALS).optional()
+});
+
+function resolvePeriod(period: z.infer<typeof periodSchema>): { from: Date; to: Date } {
+  const to = period.to || new Date();
+  const from = period.from || new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+  return { from, to };
+}
+
+// Revenue, cost of goods and margin for a period against the one before it,
+// sliced by ?groupBy=frameStyle|matType|glassType|complexity|priority|category and/or ?interval=day|week|month
+router.get("/sales", async (req, res) => {
+  try {
+    const parsed = salesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid sales report request", details: parsed.error.flatten() });
+    }
+
+    const { from, to } = resolvePeriod(parsed.data);
+    if (from >= to) {
+      return res.status(400).json({ error: "Report period must end after it starts" });
+    }
+
+    res.json(await salesReportService.getReport({
+      from,
+      to,
+      groupBy: parsed.data.groupBy,
+      interval: parsed.data.interval
+    }));
+  } catch (error) {
+    structuredLogger.error('Failed to build sales report', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to build sales report" });
+  }
+});
+
+// Sales tax liability by location, jurisdiction and rate on the configured cash or accrual basis; ?format=csv to export
+router.get("/tax", async (req, res) => {
+  try {
+    const parsed = periodSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid tax report request", details: parsed.error.flatten() });
+    }
+
+    const { from, to } = resolvePeriod(parsed.data);
+    if (from >= to) {
+      return res.status(400).json({ error: "Report period must end after it starts" });
+    }
+
+    const report = await taxReportService.getReport({ from, to });
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="sales-tax-${report.from.slice(0, 10)}-${report.to.slice(0, 10)}.csv"`);
+      return res.send(taxReportToCsv(report));
+    }
+
+    res.json(report);
+  } catch (error) {
+    structuredLogger.error('Failed to build tax report', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to build tax report" });
+  }
+});
+
+export default router;
@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db";
+import { storedValueService, StoredValueError } from "../services/storedValueService";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const adjustmentSchema = z.object({
+  amount: z.coerce.number().refine(value => value !== 0, "Amount cannot be zero"),
+  reason: z.string().min(1)
+});
+
+// Store credit balance and ledger history for a customer
+router.get("/:customerId", async (req, res) => {
+  try {
+    const { customerId } = req.params;
+    const [balance, history] = await Promise.all([
+      storedValueService.getStoreCreditBalance(db, customerId),
+      storedValueService.getStoreCreditHistory(customerId)
+    ]);
+
+    res.json({ customerId, balance, history });
+  } catch (error) {
+    structuredLogger.error('Failed to fetch store credit', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch store credit" });
+  }
+});
+
+// Manually add or remove store credit
+router.post("/:customerId/adjustments", async (req, res) => {
+  try {
+    const parsed = adjustmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid adjustment", details: parsed.error.flatten() });
+    }
+
+    const balance = await storedValueService.adjustStoreCredit(req.params.customerId, parsed.data.amount, parsed.data.reason);
+    res.status(201).json({ customerId: req.params.customerId, balance });
+  } catch (error) {
+    if (error instanceof StoredValueError) {
+      const status = error.code === 'insufficient_balance' ? 422 : 400;
+      return res.status(status).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to adjust store credit', {
+      error: error as Error,
+      severity: 'high'
+    });
+    res.status(500).json({ error: "Failed to adjust store credit" });
+  }
+});
+
+export default router;
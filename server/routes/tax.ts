@@ -0,0 +1,87 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db";
+import { taxService, TaxError } from "../services/taxService";
+import { TAX_CATEGORIES } from "../../shared/pricing";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const rateSchema = z.object({
+  location: z.string().trim().min(1),
+  category: z.enum(TAX_CATEGORIES),
+  rate: z.coerce.number().min(0).lt(1), // fraction, e.g. 0.0875
+  jurisdiction: z.string().trim().nullable().optional()
+});
+
+function taxErrorStatus(error: TaxError): number {
+  return { not_found: 404, invalid_request: 400 }[error.code];
+}
+
+router.get("/rates", async (req, res) => {
+  try {
+    res.json(await taxService.listRates(req.query.location as string | undefined));
+  } catch (error) {
+    structuredLogger.error('Failed to fetch tax rates', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch tax rates" });
+  }
+});
+
+// Rates a new order would be taxed at; pass customerId to apply a resale certificate
+router.get("/rates/resolve", async (req, res) => {
+  try {
+    res.json(await taxService.resolveTax(
+      db,
+      (req.query.location as string) || undefined,
+      (req.query.customerId as string) || undefined
+    ));
+  } catch (error) {
+    structuredLogger.error('Failed to resolve tax rates', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to resolve tax rates" });
+  }
+});
+
+// Set the rate for a location and category; existing orders keep the rates they were taxed at
+router.put("/rates", async (req, res) => {
+  try {
+    const parsed = rateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid tax rate", details: parsed.error.flatten() });
+    }
+
+    res.json(await taxService.setRate(parsed.data));
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return res.status(taxErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to set tax rate', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to set tax rate" });
+  }
+});
+
+router.delete("/rates/:id", async (req, res) => {
+  try {
+    await taxService.deleteRate(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return res.status(taxErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to delete tax rate', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to delete tax rate" });
+  }
+});
+
+export default router;
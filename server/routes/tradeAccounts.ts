@@ -0,0 +1,183 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db";
+import { tradeAccountService, TradeAccountError, TRADE_TERMS } from "../services/tradeAccountService";
+import { TRADE_DISCOUNT_TIERS, TradeTier } from "../../shared/pricing";
+import { structuredLogger } from "../utils/logger";
+
+const router = Router();
+
+const accountSchema = z.object({
+  companyName: z.string().trim().min(1),
+  tier: z.enum(Object.keys(TRADE_DISCOUNT_TIERS) as [TradeTier, ...TradeTier[]]).optional(),
+  creditLimit: z.coerce.number().nonnegative(),
+  terms: z.enum(TRADE_TERMS).optional(),
+  billingEmail: z.string().trim().email().nullable().optional(),
+  active: z.boolean().optional()
+});
+
+const createAccountSchema = accountSchema.extend({
+  customerId: z.string().uuid()
+});
+
+const statementSchema = z.object({
+  periodEnd: z.coerce.date().optional() // defaults to now
+});
+
+function tradeAccountErrorStatus(error: TradeAccountError): number {
+  return { not_found: 404, invalid_request: 400, duplicate: 409 }[error.code];
+}
+
+router.get("/", async (req, res) => {
+  try {
+    res.json(await tradeAccountService.listAccounts());
+  } catch (error) {
+    structuredLogger.error('Failed to fetch trade accounts', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch trade accounts" });
+  }
+});
+
+router.post("/", async (req, res) => {
+  try {
+    const parsed = createAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid trade account", details: parsed.error.flatten() });
+    }
+
+    res.status(201).json(await tradeAccountService.createAccount(parsed.data));
+  } catch (error) {
+    if (error instanceof TradeAccountError) {
+      return res.status(tradeAccountErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to create trade account', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to create trade account" });
+  }
+});
+
+// Active account for a customer, used to price and bill their new orders
+router.get("/customers/:customerId", async (req, res) => {
+  try {
+    const account = await tradeAccountService.getAccountForCustomer(db, req.params.customerId);
+    if (!account) {
+      return res.status(404).json({ error: "Customer has no active trade account", code: 'not_found' });
+    }
+    res.json(await tradeAccountService.getSummary(account.id));
+  } catch (error) {
+    structuredLogger.error('Failed to fetch customer trade account', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch customer trade account" });
+  }
+});
+
+// Month-end job: statements for every account with an invoiced balance
+router.post("/statements/run", async (req, res) => {
+  try {
+    const parsed = statementSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid statement request", details: parsed.error.flatten() });
+    }
+
+    const statements = await tradeAccountService.generateMonthlyStatements(parsed.data.periodEnd);
+    res.json({ generated: statements.length, statements });
+  } catch (error) {
+    structuredLogger.error('Failed to generate trade statements', {
+      error: error as Error,
+      severity: 'high'
+    });
+    res.status(500).json({ error: "Failed to generate trade statements" });
+  }
+});
+
+router.get("/statements/:statementId", async (req, res) => {
+  try {
+    res.json(await tradeAccountService.getStatement(req.params.statementId));
+  } catch (error) {
+    if (error instanceof TradeAccountError) {
+      return res.status(tradeAccountErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to fetch trade statement', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch trade statement" });
+  }
+});
+
+// Account with its open balance, available credit and open orders
+router.get("/:id", async (req, res) => {
+  try {
+    res.json(await tradeAccountService.getSummary(req.params.id));
+  } catch (error) {
+    if (error instanceof TradeAccountError) {
+      return res.status(tradeAccountErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to fetch trade account', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch trade account" });
+  }
+});
+
+router.put("/:id", async (req, res) => {
+  try {
+    const parsed = accountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid trade account", details: parsed.error.flatten() });
+    }
+
+    res.json(await tradeAccountService.updateAccount(req.params.id, parsed.data));
+  } catch (error) {
+    if (error instanceof TradeAccountError) {
+      return res.status(tradeAccountErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to update trade account', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to update trade account" });
+  }
+});
+
+router.get("/:id/statements", async (req, res) => {
+  try {
+    res.json(await tradeAccountService.listStatements(req.params.id));
+  } catch (error) {
+    structuredLogger.error('Failed to fetch trade statements', {
+      error: error as Error,
+      severity: 'medium'
+    });
+    res.status(500).json({ error: "Failed to fetch trade statements" });
+  }
+});
+
+// Issue (or fetch the already issued) statement for the month ending at periodEnd
+router.post("/:id/statements", async (req, res) => {
+  try {
+    const parsed = statementSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid statement request", details: parsed.error.flatten() });
+    }
+
+    res.status(201).json(await tradeAccountService.generateStatement(req.params.id, parsed.data.periodEnd));
+  } catch (error) {
+    if (error instanceof TradeAccountError) {
+      return res.status(tradeAccountErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    structuredLogger.error('Failed to generate trade statement', {
+      error: error as Error,
+      severity: 'high'
+    });
+    res.status(500).json({ error: "Failed to generate trade statement" });
+  }
+});
+
+export default router;
@@ -0,0 +1,356 @@
+/**
+ * Cash Drawer Service
+ * Drawer sessions, paid-in/paid-out, tender reconciliation and Z-reports
+ */
+
+import { db } from '../db';
+import { drawerSessions, drawerMovements, payments, DrawerSession, DrawerMovement } from '../../shared/schema';
+import { toCsv } from '../../shared/csv';
+import { eq, and, desc, notInArray, sql } from 'drizzle-orm';
+import { withTransaction } from '../utils/transactionHandler';
+import { EXCLUDED_PAYMENT_STATUSES, RECONCILED_TENDERS } from './paymentService';
+import { structuredLogger } from '../utils/logger';
+
+export interface TenderLine {
+  tender: string;
+  paymentCount: number;
+  sales: number;
+  refunds: number; // negative ledger rows (refunds and voids), as a positive number
+  expected: number;
+  counted: number | null;
+  overShort: number | null;
+}
+
+export interface ZReport {
+  sessionId: string;
+  register: string;
+  openedBy: string;
+  openedAt: string;
+  closedBy: string | null;
+  closedAt: string | null;
+  cash: {
+    openingFloat: number;
+    sales: number;
+    refunds: number;
+    paidIn: number;
+    paidOut: number;
+    expected: number;
+  };
+  tenders: TenderLine[];
+  otherTenders: Omit<TenderLine, 'expected' | 'counted' | 'overShort'>[];
+  movements: Pick<DrawerMovement, 'type' | 'amount' | 'reason' | 'actor' | 'createdAt'>[];
+  totals: {
+    grossSales: number;
+    refunds: number;
+    netSales: number;
+    overShort: number | null;
+  };
+  generatedAt: string;
+}
+
+export type DrawerErrorCode = 'not_found' | 'invalid_request' | 'invalid_state';
+
+export class DrawerError extends Error {
+  constructor(public readonly code: DrawerErrorCode, message: string) {
+    super(message);
+    this.name = 'DrawerError';
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class CashDrawerService {
+  async openSession(input: { register?: string; openingFloat: number; openedBy: string; notes?: string }): Promise<DrawerSession> {
+    if (!(input.openingFloat >= 0)) {
+      throw new DrawerError('invalid_request', 'Opening float must be zero or more');
+    }
+    if (!input.openedBy) {
+      throw new DrawerError('invalid_request', 'openedBy is required');
+    }
+
+    const register = input.register || 'main';
+
+    return withTransaction(async (tx) => {
+      const [open] = await tx
+        .select({ id: drawerSessions.id })
+        .from(drawerSessions)
+        .where(and(eq(drawerSessions.register, register), eq(drawerSessions.status, 'open')))
+        .limit(1);
+
+      if (open) {
+        throw new DrawerError('invalid_state', `Register ${register} already has an open session`);
+      }
+
+      const [session] = await tx.insert(drawerSessions).values({
+        register,
+        openingFloat: input.openingFloat.toFixed(2),
+        openedBy: input.openedBy,
+        notes: input.notes
+      }).returning();
+
+      return session;
+    }, { operation: 'drawer.open', metadata: { register } });
+  }
+
+  async getCurrentSession(register: string = 'main'): Promise<DrawerSession | null> {
+    const [session] = await db
+      .select()
+      .from(drawerSessions)
+      .where(and(eq(drawerSessions.register, register), eq(drawerSessions.status, 'open')))
+      .limit(1);
+
+    return session || null;
+  }
+
+  async getSession(sessionId: string): Promise<DrawerSession | null> {
+    const [session] = await db.select().from(drawerSessions).where(eq(drawerSessions.id, sessionId)).limit(1);
+    return session || null;
+  }
+
+  async listSessions(limit: number = 30): Promise<DrawerSession[]> {
+    return db.select().from(drawerSessions).orderBy(desc(drawerSessions.openedAt)).limit(limit);
+  }
+
+  async recordMovement(
+    sessionId: string,
+    input: { type: 'paid_in' | 'paid_out'; amount: number; reason: string; actor: string }
+  ): Promise<DrawerMovement> {
+    if (!['paid_in', 'paid_out'].includes(input.type)) {
+      throw new DrawerError('invalid_request', 'Movement type must be paid_in or paid_out');
+    }
+    if (!(input.amount > 0)) {
+      throw new DrawerError('invalid_request', 'Amount must be positive');
+    }
+    if (!input.reason?.trim() || !input.actor) {
+      throw new DrawerError('invalid_request', 'A reason and actor are required');
+    }
+
+    // The share lock holds off a close until the movement commits, so the Z-report sees it
+    return withTransaction(async (tx) => {
+      const [session] = await tx
+        .select({ status: drawerSessions.status })
+        .from(drawerSessions)
+        .where(eq(drawerSessions.id, sessionId))
+        .for('share')
+        .limit(1);
+
+      if (!session) {
+        throw new DrawerError('not_found', 'Drawer session not found');
+      }
+      if (session.status !== 'open') {
+        throw new DrawerError('invalid_state', 'Drawer session is closed');
+      }
+
+      const [movement] = await tx.insert(drawerMovements).values({
+        sessionId,
+        type: input.type,
+        amount: input.amount.toFixed(2),
+        reason: input.reason,
+        actor: input.actor
+      }).returning();
+
+      return movement;
+    }, { operation: 'drawer.movement', metadata: { sessionId, type: input.type } });
+  }
+
+  /**
+   * Closes a session with counted amounts per tender and stores its Z-report
+   */
+  async closeSession(
+    sessionId: string,
+    input: { closedBy: string; counted: Record<string, number>; notes?: string }
+  ): Promise<{ session: DrawerSession; report: ZReport }> {
+    if (!input.closedBy) {
+      throw new DrawerError('invalid_request', 'closedBy is required');
+    }
+
+    return withTransaction(async (tx) => {
+      const [session] = await tx
+        .select()
+        .from(drawerSessions)
+        .where(eq(drawerSessions.id, sessionId))
+        .for('update')
+        .limit(1);
+
+      if (!session) {
+        throw new DrawerError('not_found', 'Drawer session not found');
+      }
+      if (session.status !== 'open') {
+        throw new DrawerError('invalid_state', 'Drawer session is already closed');
+      }
+
+      const closedAt = new Date();
+      const closing = { ...session, closedBy: input.closedBy, closedAt };
+      const report = await this.buildReport(tx, closing, input.counted);
+
+      const [closed] = await tx
+        .update(drawerSessions)
+        .set({
+          status: 'closed',
+          closedBy: input.closedBy,
+          closedAt,
+          countedAmounts: input.counted,
+          expectedAmounts: Object.fromEntries(report.tenders.map(line => [line.tender, line.expected])),
+          overShort: report.totals.overShort?.toFixed(2),
+          zReport: report,
+          notes: input.notes ?? session.notes
+        })
+        .where(eq(drawerSessions.id, sessionId))
+        .returning();
+
+      if (report.totals.overShort && Math.abs(report.totals.overShort) >= 0.01) {
+        structuredLogger.warn('Drawer closed over/short', {
+          operation: 'drawer.close',
+          metadata: { sessionId, register: session.register, overShort: report.totals.overShort }
+        });
+      }
+
+      return { session: closed, report };
+    }, { operation: 'drawer.close', metadata: { sessionId } });
+  }
+
+  /**
+   * Z-report for a session: the stored snapshot once closed, a running X-report while open
+   */
+  async getReport(sessionId: string): Promise<ZReport> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new DrawerError('not_found', 'Drawer session not found');
+    }
+
+    if (session.status === 'closed' && session.zReport) {
+      return session.zReport as ZReport;
+    }
+
+    return this.buildReport(db, session, session.countedAmounts || {});
+  }
+
+  private async buildReport(tx: typeof db, session: DrawerSession, counted: Record<string, number>): Promise<ZReport> {
+    // Payments, refunds and voids recorded against this session, grouped by tender
+    const byTender = await tx
+      .select({
+        tender: payments.method,
+        paymentCount: sql<number>`count(*) filter (where ${payments.amount} > 0)`,
+        sales: sql<string>`coalesce(sum(${payments.amount}) filter (where ${payments.amount} > 0), 0)`,
+        refunds: sql<string>`coalesce(-sum(${payments.amount}) filter (where ${payments.amount} < 0), 0)`
+      })
+      .from(payments)
+      .where(
+        and(
+          eq(payments.drawerSessionId, session.id),
+          notInArray(payments.status, EXCLUDED_PAYMENT_STATUSES)
+        )
+      )
+      .groupBy(payments.method);
+
+    const movements = await tx
+      .select()
+      .from(drawerMovements)
+      .where(eq(drawerMovements.sessionId, session.id))
+      .orderBy(drawerMovements.createdAt);
+
+    const paidIn = round(movements.filter(m => m.type === 'paid_in').reduce((sum, m) => sum + parseFloat(m.amount), 0));
+    const paidOut = round(movements.filter(m => m.type === 'paid_out').reduce((sum, m) => sum + parseFloat(m.amount), 0));
+    const openingFloat = parseFloat(session.openingFloat);
+
+    const activity = (tender: string) => {
+      const row = byTender.find(r => r.tender === tender);
+      return {
+        paymentCount: Number(row?.paymentCount || 0),
+        sales: round(parseFloat(row?.sales || '0')),
+        refunds: round(parseFloat(row?.refunds || '0'))
+      };
+    };
+
+    const tenders: TenderLine[] = RECONCILED_TENDERS.map(tender => {
+      const { paymentCount, sales, refunds } = activity(tender);
+      const expected = tender === 'cash'
+        ? round(openingFloat + sales - refunds + paidIn - paidOut)
+        : round(sales - refunds);
+      const countedAmount = counted[tender] !== undefined ? round(Number(counted[tender])) : null;
+
+      return {
+        tender,
+        paymentCount,
+        sales,
+        refunds,
+        expected,
+        counted: countedAmount,
+        overShort: countedAmount !== null ? round(countedAmount - expected) : null
+      };
+    });
+
+    const otherTenders = byTender
+      .filter(row => !(RECONCILED_TENDERS as readonly string[]).includes(row.tender))
+      .map(row => ({ tender: row.tender, ...activity(row.tender) }));
+
+    const allLines = [...tenders, ...otherTenders];
+    const grossSales = round(allLines.reduce((sum, line) => sum + line.sales, 0));
+    const refunds = round(allLines.reduce((sum, line) => sum + line.refunds, 0));
+    const countedLines = tenders.filter(line => line.overShort !== null);
+    const cash = tenders.find(line => line.tender === 'cash')!;
+
+    return {
+      sessionId: session.id,
+      register: session.register,
+      openedBy: session.openedBy,
+      openedAt: new Date(session.openedAt).toISOString(),
+      closedBy: session.closedBy,
+      closedAt: session.closedAt ? new Date(session.closedAt).toISOString() : null,
+      cash: {
+        openingFloat,
+        sales: cash.sales,
+        refunds: cash.refunds,
+        paidIn,
+        paidOut,
+        expected: cash.expected
+      },
+      tenders,
+      otherTenders,
+      movements: movements.map(({ type, amount, reason, actor, createdAt }) => ({ type, amount, reason, actor, createdAt })),
+      totals: {
+        grossSales,
+        refunds,
+        netSales: round(grossSales - refunds),
+        overShort: countedLines.length > 0
+          ? round(countedLines.reduce((sum, line) => sum + (line.overShort || 0), 0))
+          : null
+      },
+      generatedAt: new Date().toISOString()
+    };
+  }
+}
+
+/**
+ * Flattens a Z-report into CSV rows for export
+ */
+export function zReportToCsv(report: ZReport): string {
+  const rows: unknown[][] = [
+    ['Z-Report', report.register],
+    ['Opened', report.openedAt, report.openedBy],
+    ['Closed', report.closedAt, report.closedBy],
+    [],
+    ['Tender', 'Payments', 'Sales', 'Refunds', 'Expected', 'Counted', 'Over/Short'],
+    ...report.tenders.map(line => [
+      line.tender, line.paymentCount, line.sales, line.refunds, line.expected, line.counted, line.overShort
+    ]),
+    ...report.otherTenders.map(line => [line.tender, line.paymentCount, line.sales, line.refunds]),
+    [],
+    ['Opening Float', report.cash.openingFloat],
+    ['Paid In', report.cash.paidIn],
+    ['Paid Out', report.cash.paidOut],
+    ['Expected Cash', report.cash.expected],
+    [],
+    ['Gross Sales', report.totals.grossSales],
+    ['Refunds', report.totals.refunds],
+    ['Net Sales', report.totals.netSales],
+    ['Over/Short', report.totals.overShort],
+    [],
+    ['Movement', 'Amount', 'Reason', 'Actor', 'Time'],
+    ...report.movements.map(m => [m.type, m.amount, m.reason, m.actor, m.createdAt ? new Date(m.createdAt).toISOString() : ''])
+  ];
+
+  return toCsv(rows);
+}
+
+export const cashDrawerService = new CashDrawerService();
@@ -0,0 +1,493 @@
+/**
+ * Customer Service
+ * Customer records with normalized contact search, duplicate detection and merging
+ */
+
+import { db } from '../db';
+import { customers, orders, payments, notifications, giftCards, storeCreditLedger, loyaltyLedger, tradeAccounts, Customer } from '../../shared/schema';
+import { eq, and, or, ne, isNull, ilike, inArray, asc, sql } from 'drizzle-orm';
+import { withCustomerTransaction } from '../utils/transactionHandler';
+import { structuredLogger } from '../utils/logger';
+
+type Tx = typeof db;
+
+export interface CustomerInput {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  preferredContact?: 'email' | 'phone' | 'sms';
+  taxExempt?: boolean;
+  resaleCertificateNumber?: string | null;
+  resaleCertificateExpiresAt?: Date | null;
+}
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateMatch {
+  customer: Customer;
+  matchedOn: DuplicateReason[];
+}
+
+export interface DuplicateGroup {
+  matchedOn: 'phone' | 'email';
+  value: string;
+  customers: Customer[];
+}
+
+export interface MergeResult {
+  customer: Customer;
+  moved: {
+    orders: number;
+    payments: number;
+    notifications: number;
+    giftCards: number;
+    storeCreditEntries: number;
+    loyaltyPoints: number;
+  };
+}
+
+export interface CustomerStats {
+  totalOrders: number;
+  totalSpent: string;
+  lastOrderDate: Date | null;
+}
+
+export type CustomerErrorCode = 'not_found' | 'invalid_request' | 'duplicate' | 'invalid_state';
+
+export class CustomerError extends Error {
+  constructor(
+    public readonly code: CustomerErrorCode,
+    message: string,
+    public readonly duplicates: DuplicateMatch[] = []
+  ) {
+    super(message);
+    this.name = 'CustomerError';
+  }
+}
+
+/**
+ * Digits only, dropping a leading US country code: "+1 (555) 123-4567" -> "5551234567"
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (!digits) return null;
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = (email || '').trim().toLowerCase();
+  return normalized || null;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const notMerged = isNull(customers.mergedIntoId);
+
+// Quotes and cancelled orders are not purchases
+const countsAsOrder = sql`${orders.status} not in ('quote', 'cancelled')`;
+
+export class CustomerService {
+  /**
+   * Searches by name, phone or email. Phone and email are compared normalized,
+   * so "(555) 123-4567" finds "555.123.4567".
+   */
+  async search(query: string | undefined, limit = 50, offset = 0): Promise<Customer[]> {
+    const term = (query || '').trim();
+    const conditions = [notMerged];
+
+    if (term) {
+      const digits = normalizePhone(term);
+      const matches = [
+        ilike(customers.name, `%${term}%`),
+        ilike(customers.emailNormalized, `%${term.toLowerCase()}%`)
+      ];
+      if (digits && digits.length >= 3) {
+        matches.push(ilike(customers.phoneNormalized, `%${digits}%`));
+      }
+      conditions.push(or(...matches)!);
+    }
+
+    return db
+      .select()
+      .from(customers)
+      .where(and(...conditions))
+      .orderBy(asc(customers.name))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getCustomer(id: string): Promise<Customer> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id)).limit(1);
+    if (!customer) {
+      throw new CustomerError('not_found', 'Customer not found');
+    }
+    return customer;
+  }
+
+  /**
+   * Creates a customer. Throws a 'duplicate' error listing likely matches
+   * unless allowDuplicate is set.
+   */
+  async createCustomer(input: CustomerInput, options: { allowDuplicate?: boolean } = {}): Promise<Customer> {
+    this.validate(input);
+
+    if (!options.allowDuplicate) {
+      const duplicates = await this.findDuplicates(input);
+      if (duplicates.length > 0) {
+        throw new CustomerError('duplicate', 'A customer with matching contact details already exists', duplicates);
+      }
+    }
+
+    const [customer] = await db.insert(customers).values(this.toColumns(input)).returning();
+
+    structuredLogger.info('Customer created', {
+      customerId: customer.id,
+      operation: 'customer.create'
+    });
+    return customer;
+  }
+
+  async updateCustomer(id: string, input: CustomerInput, options: { allowDuplicate?: boolean } = {}): Promise<Customer> {
+    this.validate(input);
+    const existing = await this.getCustomer(id);
+    if (existing.mergedIntoId) {
+      throw new CustomerError('invalid_state', 'Customer was merged into another record');
+    }
+
+    if (!options.allowDuplicate) {
+      const duplicates = (await this.findDuplicates(input, id))
+        .filter(match => match.matchedOn.some(reason => reason !== 'name'));
+      if (duplicates.length > 0) {
+        throw new CustomerError('duplicate', 'Another customer already has this phone or email', duplicates);
+      }
+    }
+
+    const [customer] = await db
+      .update(customers)
+      .set({ ...this.toColumns(input), updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return customer;
+  }
+
+  /**
+   * Deletes a customer with no history; customers with orders or balances must be merged instead
+   */
+  async deleteCustomer(id: string): Promise<void> {
+    await this.getCustomer(id);
+
+    const [[orderCount], [cardCount], [creditCount], [accountCount]] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` }).from(orders).where(eq(orders.customerId, id)),
+      db.select({ count: sql<number>`count(*)::int` }).from(giftCards).where(eq(giftCards.customerId, id)),
+      db.select({ count: sql<number>`count(*)::int` }).from(storeCreditLedger).where(eq(storeCreditLedger.customerId, id)),
+      db.select({ count: sql<number>`count(*)::int` }).from(tradeAccounts).where(eq(tradeAccounts.customerId, id))
+    ]);
+    if (orderCount.count + cardCount.count + creditCount.count + accountCount.count > 0) {
+      throw new CustomerError('invalid_state', 'Customers with orders, gift cards, store credit or a trade account cannot be deleted');
+    }
+
+    await db.delete(notifications).where(eq(notifications.customerId, id));
+    await db.delete(customers).where(eq(customers.id, id));
+  }
+
+  /**
+   * Active customers sharing a normalized phone or email, or the exact name, with the input
+   */
+  async findDuplicates(input: Partial<CustomerInput>, excludeId?: string): Promise<DuplicateMatch[]> {
+    const phone = normalizePhone(input.phone);
+    const email = normalizeEmail(input.email);
+    const name = input.name ? normalizeName(input.name) : null;
+
+    const matches = [
+      phone ? eq(customers.phoneNormalized, phone) : undefined,
+      email ? eq(customers.emailNormalized, email) : undefined,
+      name ? sql`lower(regexp_replace(trim(${customers.name}), '\\s+', ' ', 'g')) = ${name}` : undefined
+    ].filter(Boolean);
+    if (matches.length === 0) return [];
+
+    const candidates = await db
+      .select()
+      .from(customers)
+      .where(and(notMerged, excludeId ? ne(customers.id, excludeId) : undefined, or(...matches)))
+      .limit(20);
+
+    return candidates.map(customer => ({
+      customer,
+      matchedOn: [
+        phone && customer.phoneNormalized === phone ? 'phone' : null,
+        email && customer.emailNormalized === email ? 'email' : null,
+        name && normalizeName(customer.name) === name ? 'name' : null
+      ].filter((reason): reason is DuplicateReason => reason !== null)
+    }));
+  }
+
+  /**
+   * Groups of active customers that share a phone number or email address
+   */
+  async listDuplicateGroups(): Promise<DuplicateGroup[]> {
+    const [phoneGroups, emailGroups] = await Promise.all([
+      db
+        .select({ value: customers.phoneNormalized, ids: sql<string[]>`array_agg(${customers.id})` })
+        .from(customers)
+        .where(and(notMerged, sql`${customers.phoneNormalized} is not null`))
+        .groupBy(customers.phoneNormalized)
+        .having(sql`count(*) > 1`),
+      db
+        .select({ value: customers.emailNormalized, ids: sql<string[]>`array_agg(${customers.id})` })
+        .from(customers)
+        .where(and(notMerged, sql`${customers.emailNormalized} is not null`))
+        .groupBy(customers.emailNormalized)
+        .having(sql`count(*) > 1`)
+    ]);
+
+    const ids = [...new Set([...phoneGroups, ...emailGroups].flatMap(group => group.ids))];
+    if (ids.length === 0) return [];
+
+    const rows = await db.select().from(customers).where(inArray(customers.id, ids));
+    const byId = new Map(rows.map(customer => [customer.id, customer]));
+
+    return [
+      ...phoneGroups.map(group => ({ matchedOn: 'phone' as const, value: group.value!, ids: group.ids })),
+      ...emailGroups.map(group => ({ matchedOn: 'email' as const, value: group.value!, ids: group.ids }))
+    ].map(({ ids: groupIds, ...group }) => ({
+      ...group,
+      customers: groupIds.map(id => byId.get(id)!).filter(Boolean)
+    }));
+  }
+
+  /**
+   * Merges a duplicate into the surviving record. Orders (and with them their
+   * payments), notifications, gift cards, store credit and loyalty points move
+   * to the survivor; the duplicate is kept, marked as merged, for the audit trail.
+   */
+  async mergeCustomers(survivorId: string, duplicateId: string, actor: string): Promise<MergeResult> {
+    if (survivorId === duplicateId) {
+      throw new CustomerError('invalid_request', 'A customer cannot be merged into itself');
+    }
+
+    return withCustomerTransaction(survivorId, async (tx) => {
+      const locked = await tx
+        .select()
+        .from(customers)
+        .where(inArray(customers.id, [survivorId, duplicateId]))
+        .orderBy(asc(customers.id))
+        .for('update');
+
+      const survivor = locked.find(customer => customer.id === survivorId);
+      const duplicate = locked.find(customer => customer.id === duplicateId);
+      if (!survivor || !duplicate) {
+        throw new CustomerError('not_found', 'Customer not found');
+      }
+      if (survivor.mergedIntoId || duplicate.mergedIntoId) {
+        throw new CustomerError('invalid_state', 'Customer was already merged into another record');
+      }
+
+      // A customer has at most one trade account; the duplicate's moves over if the survivor has none
+      const accounts = await tx
+        .select({ id: tradeAccounts.id, customerId: tradeAccounts.customerId })
+        .from(tradeAccounts)
+        .where(inArray(tradeAccounts.customerId, [survivorId, duplicateId]));
+      if (accounts.length > 1) {
+        throw new CustomerError('invalid_state', 'Both customers have trade accounts, so they cannot be merged');
+      }
+      if (accounts[0]?.customerId === duplicateId) {
+        await tx
+          .update(tradeAccounts)
+          .set({ customerId: survivorId, updatedAt: new Date() })
+          .where(eq(tradeAccounts.id, accounts[0].id));
+      }
+
+      const movedOrders = await tx
+        .update(orders)
+        .set({ customerId: survivorId, updatedAt: new Date() })
+        .where(eq(orders.customerId, duplicateId))
+        .returning({ id: orders.id });
+
+      const [paymentCount] = movedOrders.length > 0
+        ? await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(payments)
+          .where(inArray(payments.orderId, movedOrders.map(order => order.id)))
+        : [{ count: 0 }];
+
+      const movedNotifications = await tx
+        .update(notifications)
+        .set({ customerId: survivorId })
+        .where(eq(notifications.customerId, duplicateId))
+        .returning({ id: notifications.id });
+
+      const movedGiftCards = await tx
+        .update(giftCards)
+        .set({ customerId: survivorId })
+        .where(eq(giftCards.customerId, duplicateId))
+        .returning({ id: giftCards.id });
+
+      const movedCredit = await tx
+        .update(storeCreditLedger)
+        .set({ customerId: survivorId })
+        .where(eq(storeCreditLedger.customerId, duplicateId))
+        .returning({ id: storeCreditLedger.id });
+
+      // Ledger entries move with the points so the survivor's balance stays their sum
+      await tx
+        .update(loyaltyLedger)
+        .set({ customerId: survivorId })
+        .where(eq(loyaltyLedger.customerId, duplicateId));
+
+      const [merged] = await tx
+        .update(customers)
+        .set({
+          // The survivor keeps its own details and fills gaps from the duplicate
+          email: survivor.email || duplicate.email,
+          emailNormalized: survivor.emailNormalized || duplicate.emailNormalized,
+          phone: survivor.phone || duplicate.phone,
+          phoneNormalized: survivor.phoneNormalized || duplicate.phoneNormalized,
+          address: survivor.address || duplicate.address,
+          notes: [survivor.notes, duplicate.notes].filter(Boolean).join('\n') || null,
+          loyaltyPoints: (survivor.loyaltyPoints || 0) + (duplicate.loyaltyPoints || 0),
+          updatedAt: new Date()
+        })
+        .where(eq(customers.id, survivorId))
+        .returning();
+
+      await tx
+        .update(customers)
+        .set({
+          mergedIntoId: survivorId,
+          mergedAt: new Date(),
+          loyaltyPoints: 0,
+          updatedAt: new Date()
+        })
+        .where(eq(customers.id, duplicateId));
+
+      // The duplicate has no orders left, so its stats rebuild to zero
+      const stats = await this.recomputeStats(tx, survivorId);
+      await this.recomputeStats(tx, duplicateId);
+
+      const moved = {
+        orders: movedOrders.length,
+        payments: paymentCount.count,
+        notifications: movedNotifications.length,
+        giftCards: movedGiftCards.length,
+        storeCreditEntries: movedCredit.length,
+        loyaltyPoints: duplicate.loyaltyPoints || 0
+      };
+
+      structuredLogger.info('Customers merged', {
+        customerId: survivorId,
+        operation: 'customer.merge',
+        metadata: { duplicateId, actor, moved }
+      });
+
+      return { customer: { ...merged, ...stats }, moved };
+    }, 'merge');
+  }
+
+  /**
+   * Rebuilds one customer's lifetime stats from their orders. totalSpent is the
+   * net amount paid (refunds already reduce orders.amountPaid), so it also
+   * includes payments on orders that were later cancelled.
+   * Locks the customer row so concurrent order transactions apply in turn.
+   */
+  async recomputeStats(tx: Tx, customerId: string): Promise<CustomerStats> {
+    await tx.select({ id: customers.id }).from(customers).where(eq(customers.id, customerId)).for('update');
+
+    const [stats] = await tx
+      .select({
+        totalOrders: sql<number>`(count(*) filter (where ${countsAsOrder}))::int`,
+        totalSpent: sql<string>`coalesce(sum(${orders.amountPaid}), 0)`,
+        lastOrderDate: sql<Date | null>`max(${orders.createdAt}) filter (where ${countsAsOrder})`.mapWith(orders.createdAt)
+      })
+      .from(orders)
+      .where(eq(orders.customerId, customerId));
+
+    const result: CustomerStats = {
+      totalOrders: stats?.totalOrders || 0,
+      totalSpent: parseFloat(stats?.totalSpent || '0').toFixed(2),
+      lastOrderDate: stats?.lastOrderDate || null
+    };
+
+    await tx
+      .update(customers)
+      .set({ ...result, updatedAt: new Date() })
+      .where(eq(customers.id, customerId));
+
+    return result;
+  }
+
+  /**
+   * Recompute job: rebuilds every customer's stats from order history in one statement.
+   * Returns the number of customers whose stats changed.
+   */
+  async recomputeAllStats(): Promise<number> {
+    const startedAt = Date.now();
+
+    const result = await db.execute(sql`
+      update customers c
+      set
+        total_orders = s.total_orders,
+        total_spent = s.total_spent,
+        last_order_date = s.last_order_date,
+        updated_at = now()
+      from (
+        select
+          c2.id,
+          (count(o.id) filter (where o.status not in ('quote', 'cancelled')))::int as total_orders,
+          coalesce(sum(o.amount_paid), 0)::decimal(10,2) as total_spent,
+          max(o.created_at) filter (where o.status not in ('quote', 'cancelled')) as last_order_date
+        from customers c2
+        left join orders o on o.customer_id = c2.id
+        group by c2.id
+      ) s
+      where c.id = s.id
+        and (
+          c.total_orders is distinct from s.total_orders
+          or c.total_spent is distinct from s.total_spent
+          or c.last_order_date is distinct from s.last_order_date
+        )
+    `);
+
+    const updated = (result as { rowCount?: number }).rowCount ?? 0;
+    structuredLogger.info('Customer stats recomputed', {
+      operation: 'customer.recomputeStats',
+      metadata: { updated, durationMs: Date.now() - startedAt }
+    });
+    return updated;
+  }
+
+  private validate(input: CustomerInput): void {
+    if (!input.name || !input.name.trim()) {
+      throw new CustomerError('invalid_request', 'Customer name is required');
+    }
+    if (!normalizePhone(input.phone) && !normalizeEmail(input.email)) {
+      throw new CustomerError('invalid_request', 'A phone number or email is required');
+    }
+    const phone = normalizePhone(input.phone);
+    if (phone && phone.length < 7) {
+      throw new CustomerError('invalid_request', 'Phone number is too short');
+    }
+    if (input.taxExempt && !input.resaleCertificateNumber?.trim()) {
+      throw new CustomerError('invalid_request', 'Tax-exempt customers need a resale certificate number');
+    }
+  }
+
+  private toColumns(input: CustomerInput) {
+    return {
+      name: input.name.trim(),
+      email: input.email?.trim() || null,
+      emailNormalized: normalizeEmail(input.email),
+      phone: input.phone?.trim() || null,
+      phoneNormalized: normalizePhone(input.phone),
+      address: input.address ?? null,
+      notes: input.notes ?? null,
+      preferredContact: input.preferredContact || 'email',
+      taxExempt: input.taxExempt ?? false,
+      resaleCertificateNumber: input.resaleCertificateNumber?.trim() || null,
+      resaleCertificateExpiresAt: input.resaleCertificateExpiresAt ?? null
+    };
+  }
+}
+
+export const customerService = new CustomerService();
@@ -0,0 +1,312 @@
+/**
+ * Deposit Service
+ * Deposit rules enforced on approval and installment schedules for order balances
+ */
+
+import { db } from '../db';
+import { depositRules, paymentInstallments, orders, DepositRule, Order, PaymentInstallment } from '../../shared/schema';
+import { eq, and, asc, ne, inArray, lte } from 'drizzle-orm';
+import { withOrderTransaction } from '../utils/transactionHandler';
+import { structuredLogger } from '../utils/logger';
+
+type Tx = typeof db;
+
+export interface DepositRuleInput {
+  name: string;
+  priority?: string | null;
+  minTotal?: number | null;
+  percent: number;
+  minimumAmount?: number | null;
+  sortOrder?: number;
+  active?: boolean;
+}
+
+export interface DepositRequirement {
+  amount: number;
+  rule: DepositRule | null; // null when no rule matches
+}
+
+export interface InstallmentInput {
+  amount: number;
+  dueDate: Date;
+}
+
+export type InstallmentStatus = 'paid' | 'partial' | 'upcoming' | 'overdue';
+
+export interface InstallmentWithStatus extends PaymentInstallment {
+  amountCovered: number;
+  status: InstallmentStatus;
+}
+
+export interface DueInstallment {
+  orderId: string;
+  installment: PaymentInstallment;
+  amountDue: number;
+}
+
+export type DepositErrorCode = 'not_found' | 'invalid_request' | 'invalid_state';
+
+export class DepositError extends Error {
+  constructor(public readonly code: DepositErrorCode, message: string) {
+    super(message);
+    this.name = 'DepositError';
+  }
+}
+
+// Minimum days between reminders for the same installment
+const REMINDER_INTERVAL_DAYS = 3;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Picks the first active rule matching the order and computes its deposit
+ */
+export function calculateDeposit(
+  order: Pick<Order, 'total' | 'priority'>,
+  rules: DepositRule[]
+): DepositRequirement {
+  const total = parseFloat(order.total);
+  const rule = rules
+    .filter(candidate => candidate.active)
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .find(candidate =>
+      (!candidate.priority || candidate.priority === (order.priority || 'standard'))
+      && (candidate.minTotal === null || total >= parseFloat(candidate.minTotal))
+    );
+
+  if (!rule) {
+    return { amount: 0, rule: null };
+  }
+
+  const percentAmount = total * parseFloat(rule.percent) / 100;
+  const floor = rule.minimumAmount ? parseFloat(rule.minimumAmount) : 0;
+  return { amount: round(Math.min(total, Math.max(percentAmount, floor))), rule };
+}
+
+/**
+ * Applies the amount paid to installments in due-date order
+ */
+export function allocateInstallments(
+  installments: PaymentInstallment[],
+  amountPaid: number,
+  asOf: Date = new Date()
+): InstallmentWithStatus[] {
+  let remaining = amountPaid;
+
+  return [...installments]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(installment => {
+      const amount = parseFloat(installment.amount);
+      const amountCovered = round(Math.max(0, Math.min(amount, remaining)));
+      remaining = round(remaining - amountCovered);
+
+      let status: InstallmentStatus;
+      if (amountCovered >= amount - 0.005) {
+        status = 'paid';
+      } else if (new Date(installment.dueDate) <= asOf) {
+        status = 'overdue';
+      } else {
+        status = amountCovered > 0 ? 'partial' : 'upcoming';
+      }
+
+      return { ...installment, amountCovered, status };
+    });
+}
+
+export class DepositService {
+  async listRules(): Promise<DepositRule[]> {
+    return db.select().from(depositRules).orderBy(asc(depositRules.sortOrder), asc(depositRules.createdAt));
+  }
+
+  async createRule(input: DepositRuleInput): Promise<DepositRule> {
+    this.validateRule(input);
+
+    const [rule] = await db.insert(depositRules).values(this.toRuleColumns(input)).returning();
+    structuredLogger.info('Deposit rule created', {
+      operation: 'deposit.rule',
+      metadata: { ruleId: rule.id, name: rule.name, percent: rule.percent }
+    });
+    return rule;
+  }
+
+  async updateRule(id: string, input: DepositRuleInput): Promise<DepositRule> {
+    this.validateRule(input);
+
+    const [rule] = await db
+      .update(depositRules)
+      .set({ ...this.toRuleColumns(input), updatedAt: new Date() })
+      .where(eq(depositRules.id, id))
+      .returning();
+
+    if (!rule) {
+      throw new DepositError('not_found', 'Deposit rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Deposit the order must have paid before it can be approved
+   */
+  async getRequiredDeposit(tx: Tx, order: Pick<Order, 'total' | 'priority'>): Promise<DepositRequirement> {
+    const rules = await tx.select().from(depositRules).where(eq(depositRules.active, true));
+    return calculateDeposit(order, rules);
+  }
+
+  async getSchedule(orderId: string): Promise<InstallmentWithStatus[]> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+    if (!order) {
+      throw new DepositError('not_found', 'Order not found');
+    }
+
+    const installments = await db
+      .select()
+      .from(paymentInstallments)
+      .where(eq(paymentInstallments.orderId, orderId))
+      .orderBy(asc(paymentInstallments.sequence));
+
+    return allocateInstallments(installments, parseFloat(order.amountPaid || '0'));
+  }
+
+  /**
+   * Replaces an order's schedule. Installments must add up to the order total,
+   * so a deposit already paid is simply the first installment.
+   */
+  async setSchedule(orderId: string, installments: InstallmentInput[]): Promise<InstallmentWithStatus[]> {
+    if (installments.length === 0) {
+      throw new DepositError('invalid_request', 'A schedule needs at least one installment');
+    }
+    if (installments.some(installment => !(installment.amount > 0) || isNaN(installment.dueDate.getTime()))) {
+      throw new DepositError('invalid_request', 'Each installment needs a positive amount and a due date');
+    }
+
+    const sorted = [...installments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+    return withOrderTransaction(orderId, async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update').limit(1);
+      if (!order) {
+        throw new DepositError('not_found', 'Order not found');
+      }
+      if (order.status === 'cancelled') {
+        throw new DepositError('invalid_state', 'Cancelled orders cannot have a payment schedule');
+      }
+
+      const scheduled = round(sorted.reduce((sum, installment) => sum + installment.amount, 0));
+      if (Math.abs(scheduled - parseFloat(order.total)) > 0.005) {
+        throw new DepositError(
+          'invalid_request',
+          `Installments add up to $${scheduled.toFixed(2)} but the order total is $${order.total}`
+        );
+      }
+
+      await tx.delete(paymentInstallments).where(eq(paymentInstallments.orderId, orderId));
+      const rows = await tx.insert(paymentInstallments).values(sorted.map((installment, index) => ({
+        orderId,
+        sequence: index + 1,
+        amount: installment.amount.toFixed(2),
+        dueDate: installment.dueDate
+      }))).returning();
+
+      return allocateInstallments(rows, parseFloat(order.amountPaid || '0'));
+    }, 'schedule');
+  }
+
+  async clearSchedule(orderId: string): Promise<void> {
+    await db.delete(paymentInstallments).where(eq(paymentInstallments.orderId, orderId));
+  }
+
+  /**
+   * Overdue installments on open orders that have not been reminded recently.
+   * At most one (the earliest) per order.
+   */
+  async getDueInstallments(asOf: Date = new Date()): Promise<DueInstallment[]> {
+    const rows = await db
+      .select({ installment: paymentInstallments, order: orders })
+      .from(paymentInstallments)
+      .innerJoin(orders, eq(paymentInstallments.orderId, orders.id))
+      .where(
+        and(
+          ne(orders.status, 'cancelled'),
+          ne(orders.paymentStatus, 'paid'),
+          lte(paymentInstallments.dueDate, asOf)
+        )
+      );
+    if (rows.length === 0) return [];
+
+    // Coverage depends on every installment of the order, not just the overdue ones
+    const orderIds = [...new Set(rows.map(row => row.order.id))];
+    const allInstallments = await db
+      .select()
+      .from(paymentInstallments)
+      .where(inArray(paymentInstallments.orderId, orderIds));
+
+    const reminderCutoff = asOf.getTime() - REMINDER_INTERVAL_DAYS * 24 * 60 * 60 * 1000;
+    const due: DueInstallment[] = [];
+
+    for (const orderId of orderIds) {
+      const order = rows.find(row => row.order.id === orderId)!.order;
+      const schedule = allocateInstallments(
+        allInstallments.filter(installment => installment.orderId === orderId),
+        parseFloat(order.amountPaid || '0'),
+        asOf
+      );
+
+      const overdue = schedule.find(installment => installment.status === 'overdue');
+      if (!overdue) continue;
+      if (overdue.lastReminderAt && new Date(overdue.lastReminderAt).getTime() > reminderCutoff) continue;
+
+      const { amountCovered, status, ...installment } = overdue;
+      due.push({ orderId, installment, amountDue: round(parseFloat(installment.amount) - amountCovered) });
+    }
+
+    return due;
+  }
+
+  /**
+   * Orders among `orderIds` that have an installment schedule
+   */
+  async getScheduledOrderIds(orderIds: string[]): Promise<Set<string>> {
+    if (orderIds.length === 0) return new Set();
+
+    const rows = await db
+      .selectDistinct({ orderId: paymentInstallments.orderId })
+      .from(paymentInstallments)
+      .where(inArray(paymentInstallments.orderId, orderIds));
+    return new Set(rows.map(row => row.orderId));
+  }
+
+  async markReminded(installmentId: string, at: Date = new Date()): Promise<void> {
+    await db
+      .update(paymentInstallments)
+      .set({ lastReminderAt: at })
+      .where(eq(paymentInstallments.id, installmentId));
+  }
+
+  private validateRule(input: DepositRuleInput): void {
+    if (!input.name) {
+      throw new DepositError('invalid_request', 'Deposit rules need a name');
+    }
+    if (!(input.percent >= 0 && input.percent <= 100)) {
+      throw new DepositError('invalid_request', 'Deposit percent must be between 0 and 100');
+    }
+    if (input.priority && !['standard', 'rush', 'express'].includes(input.priority)) {
+      throw new DepositError('invalid_request', `Unknown priority: ${input.priority}`);
+    }
+    if ((input.minTotal ?? 0) < 0 || (input.minimumAmount ?? 0) < 0) {
+      throw new DepositError('invalid_request', 'Amounts cannot be negative');
+    }
+  }
+
+  private toRuleColumns(input: DepositRuleInput) {
+    return {
+      name: input.name,
+      priority: input.priority || null,
+      minTotal: input.minTotal != null ? input.minTotal.toFixed(2) : null,
+      percent: input.percent.toFixed(2),
+      minimumAmount: input.minimumAmount != null ? input.minimumAmount.toFixed(2) : null,
+      sortOrder: input.sortOrder ?? 0,
+      active: input.active ?? true
+    };
+  }
+}
+
+export const depositService = new DepositService();
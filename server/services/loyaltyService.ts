@@ -0,0 +1,358 @@
+/**
+ * Loyalty Service
+ * Points earned on payments and bonus rules, kept as a ledger and redeemed as order discounts
+ */
+
+import { db } from '../db';
+import { loyaltyRules, loyaltyLedger, customers, orderItems, payments, LoyaltyRule, LoyaltyEntry, Order, OrderItem } from '../../shared/schema';
+import { eq, and, desc, asc, sql } from 'drizzle-orm';
+import { DiscountLine } from '../../shared/pricing';
+import { withCustomerTransaction } from '../utils/transactionHandler';
+import { structuredLogger } from '../utils/logger';
+
+type Tx = typeof db;
+
+// Redemption value: 100 points = $5.00
+export const POINT_VALUE = 0.05;
+export const MIN_REDEMPTION_POINTS = 100;
+
+// Store credit is money already credited back once, so spending it earns nothing
+const NON_EARNING_METHODS = ['store_credit'];
+
+export const BONUS_MATCH_FIELDS = ['glassType', 'frameStyle', 'matType', 'priority', 'complexity'] as const;
+export type BonusMatchField = typeof BONUS_MATCH_FIELDS[number];
+
+export interface LoyaltyRuleInput {
+  name: string;
+  kind: 'per_dollar' | 'bonus';
+  pointsPerDollar?: number | null;
+  bonusPoints?: number | null;
+  matchField?: BonusMatchField | null;
+  matchValue?: string | null;
+  minOrderTotal?: number | null;
+  active?: boolean;
+}
+
+export type LoyaltyErrorCode = 'not_found' | 'invalid_request' | 'insufficient_points' | 'invalid_state';
+
+export class LoyaltyError extends Error {
+  constructor(public readonly code: LoyaltyErrorCode, message: string) {
+    super(message);
+    this.name = 'LoyaltyError';
+  }
+}
+
+const sumPoints = (entries: LoyaltyEntry[]) => entries.reduce((sum, entry) => sum + entry.points, 0);
+
+export class LoyaltyService {
+  async listRules(): Promise<LoyaltyRule[]> {
+    return db.select().from(loyaltyRules).orderBy(asc(loyaltyRules.createdAt));
+  }
+
+  async createRule(input: LoyaltyRuleInput): Promise<LoyaltyRule> {
+    this.validateRule(input);
+    const [rule] = await db.insert(loyaltyRules).values(this.toRuleColumns(input)).returning();
+    return rule;
+  }
+
+  async updateRule(id: string, input: LoyaltyRuleInput): Promise<LoyaltyRule> {
+    this.validateRule(input);
+    const [rule] = await db
+      .update(loyaltyRules)
+      .set({ ...this.toRuleColumns(input), updatedAt: new Date() })
+      .where(eq(loyaltyRules.id, id))
+      .returning();
+
+    if (!rule) {
+      throw new LoyaltyError('not_found', 'Loyalty rule not found');
+    }
+    return rule;
+  }
+
+  async getBalance(customerId: string): Promise<number> {
+    const [customer] = await db
+      .select({ loyaltyPoints: customers.loyaltyPoints })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .limit(1);
+
+    if (!customer) {
+      throw new LoyaltyError('not_found', 'Customer not found');
+    }
+    return customer.loyaltyPoints || 0;
+  }
+
+  async getHistory(customerId: string): Promise<LoyaltyEntry[]> {
+    return db
+      .select()
+      .from(loyaltyLedger)
+      .where(eq(loyaltyLedger.customerId, customerId))
+      .orderBy(desc(loyaltyLedger.createdAt));
+  }
+
+  /**
+   * Manual correction, e.g. goodwill points or fixing a mistake
+   */
+  async adjustPoints(customerId: string, points: number, reason: string, actor: string): Promise<LoyaltyEntry> {
+    if (!Number.isInteger(points) || points === 0) {
+      throw new LoyaltyError('invalid_request', 'Adjustment must be a whole, non-zero number of points');
+    }
+    if (!reason) {
+      throw new LoyaltyError('invalid_request', 'A reason is required for adjustments');
+    }
+
+    return withCustomerTransaction(customerId, async (tx) => {
+      await this.lockCustomer(tx, customerId);
+      return this.addEntry(tx, { customerId, points, entryType: 'adjustment', reason, actor });
+    }, 'loyaltyAdjustment');
+  }
+
+  /**
+   * Brings an order's earn and bonus entries in line with its payments.
+   * Runs whenever the order balance is recomputed, so payments, captures and
+   * refunds all converge on the same ledger and running it twice changes nothing.
+   */
+  async syncOrderPoints(tx: Tx, order: Order): Promise<void> {
+    if (!order.customerId) return;
+
+    const rules = await tx.select().from(loyaltyRules).where(eq(loyaltyRules.active, true));
+    const orderPayments = await tx
+      .select()
+      .from(payments)
+      .where(and(eq(payments.orderId, order.id), eq(payments.kind, 'payment')));
+    const entries = await tx.select().from(loyaltyLedger).where(eq(loyaltyLedger.orderId, order.id));
+
+    const currentRate = rules
+      .filter(rule => rule.kind === 'per_dollar')
+      .reduce((sum, rule) => sum + parseFloat(rule.pointsPerDollar || '0'), 0);
+
+    const changes: { points: number; entryType: string; paymentId?: string; ruleId?: string; rate?: number; reason: string }[] = [];
+
+    for (const payment of orderPayments) {
+      if (NON_EARNING_METHODS.includes(payment.method)) continue;
+
+      const paymentEntries = entries.filter(entry => entry.paymentId === payment.id);
+      const earnEntry = paymentEntries.find(entry => entry.entryType === 'earn');
+      // Refunds reverse at the rate the payment earned at, even if the rules changed since
+      const rate = earnEntry?.rate ? parseFloat(earnEntry.rate) : currentRate;
+      const net = ['completed', 'refunded'].includes(payment.status || '')
+        ? Math.max(0, parseFloat(payment.amount) - parseFloat(payment.refundedAmount || '0'))
+        : 0;
+
+      const delta = Math.floor(net * rate + 1e-9) - sumPoints(paymentEntries);
+      if (delta !== 0) {
+        changes.push({
+          points: delta,
+          entryType: delta > 0 ? 'earn' : 'reversal',
+          paymentId: payment.id,
+          rate: delta > 0 ? rate : undefined,
+          reason: delta > 0 ? `Paid $${net.toFixed(2)} on order ${order.orderNumber}` : `Refund on order ${order.orderNumber}`
+        });
+      }
+    }
+
+    // Bonuses are held while the order is paid in full and taken back if it no longer is
+    const bonusRuleIds = new Set([
+      ...rules.filter(rule => rule.kind === 'bonus').map(rule => rule.id),
+      ...entries.filter(entry => entry.ruleId).map(entry => entry.ruleId!)
+    ]);
+    if (bonusRuleIds.size > 0) {
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+
+      for (const ruleId of bonusRuleIds) {
+        const rule = rules.find(candidate => candidate.id === ruleId);
+        const ruleEntries = entries.filter(entry => entry.ruleId === ruleId);
+        const current = sumPoints(ruleEntries);
+        const awarded = ruleEntries.filter(entry => entry.entryType === 'bonus').pop()?.points;
+
+        // A retired rule keeps the points it already gave
+        const qualifies = order.paymentStatus === 'paid'
+          && (rule ? this.matchesBonus(rule, order, items) : current > 0);
+        const delta = (qualifies ? awarded ?? rule?.bonusPoints ?? 0 : 0) - current;
+
+        if (delta !== 0) {
+          changes.push({
+            points: delta,
+            entryType: delta > 0 ? 'bonus' : 'bonus_reversal',
+            ruleId,
+            reason: `${rule?.name || 'Bonus'} on order ${order.orderNumber}`
+          });
+        }
+      }
+    }
+
+    if (changes.length === 0) return;
+
+    await this.lockCustomer(tx, order.customerId);
+    for (const change of changes) {
+      await this.addEntry(tx, {
+        customerId: order.customerId,
+        orderId: order.id,
+        points: change.points,
+        entryType: change.entryType,
+        paymentId: change.paymentId,
+        ruleId: change.ruleId,
+        rate: change.rate,
+        reason: change.reason
+      });
+    }
+
+    structuredLogger.info('Loyalty points synced', {
+      orderId: order.id,
+      customerId: order.customerId,
+      operation: 'loyalty.sync',
+      metadata: { changes: changes.map(({ entryType, points }) => ({ entryType, points })) }
+    });
+  }
+
+  /**
+   * Takes points off the customer's balance and returns the discount line they buy.
+   * The caller applies the line to the order in the same transaction.
+   */
+  async reservePoints(tx: Tx, order: Order, points: number, actor: string): Promise<DiscountLine> {
+    if (!order.customerId) {
+      throw new LoyaltyError('invalid_state', 'Order has no customer to redeem points from');
+    }
+    if (!Number.isInteger(points) || points < MIN_REDEMPTION_POINTS) {
+      throw new LoyaltyError('invalid_request', `At least ${MIN_REDEMPTION_POINTS} whole points must be redeemed`);
+    }
+
+    const balance = await this.lockCustomer(tx, order.customerId);
+    if (points > balance) {
+      throw new LoyaltyError('insufficient_points', `Customer has ${balance} points`);
+    }
+
+    const entry = await this.addEntry(tx, {
+      customerId: order.customerId,
+      orderId: order.id,
+      points: -points,
+      entryType: 'redemption',
+      reason: `Redeemed on order ${order.orderNumber}`,
+      actor
+    });
+
+    return {
+      source: 'loyalty',
+      label: `Loyalty points (${points})`,
+      amount: Math.round(points * POINT_VALUE * 100) / 100,
+      reference: entry.id
+    };
+  }
+
+  /**
+   * Returns the points behind a loyalty discount line to the customer
+   */
+  async releaseRedemption(tx: Tx, order: Order, entryId: string, actor: string): Promise<void> {
+    const [entry] = await tx
+      .select()
+      .from(loyaltyLedger)
+      .where(and(eq(loyaltyLedger.id, entryId), eq(loyaltyLedger.orderId, order.id), eq(loyaltyLedger.entryType, 'redemption')))
+      .limit(1);
+
+    if (!entry) {
+      throw new LoyaltyError('not_found', 'Redemption not found');
+    }
+
+    await this.lockCustomer(tx, entry.customerId);
+    await this.addEntry(tx, {
+      customerId: entry.customerId,
+      orderId: order.id,
+      points: -entry.points,
+      entryType: 'redemption_reversal',
+      reason: `Redemption removed from order ${order.orderNumber}`,
+      actor
+    });
+  }
+
+  /**
+   * Locks the customer row and returns the current points balance
+   */
+  private async lockCustomer(tx: Tx, customerId: string): Promise<number> {
+    const [customer] = await tx
+      .select({ loyaltyPoints: customers.loyaltyPoints })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .for('update');
+
+    if (!customer) {
+      throw new LoyaltyError('not_found', 'Customer not found');
+    }
+    return customer.loyaltyPoints || 0;
+  }
+
+  private async addEntry(
+    tx: Tx,
+    entry: {
+      customerId: string;
+      points: number;
+      entryType: string;
+      orderId?: string;
+      paymentId?: string;
+      ruleId?: string;
+      rate?: number;
+      reason?: string;
+      actor?: string;
+    }
+  ): Promise<LoyaltyEntry> {
+    const [created] = await tx.insert(loyaltyLedger).values({
+      ...entry,
+      rate: entry.rate !== undefined ? entry.rate.toFixed(2) : undefined
+    }).returning();
+
+    await tx
+      .update(customers)
+      .set({ loyaltyPoints: sql`coalesce(${customers.loyaltyPoints}, 0) + ${entry.points}` })
+      .where(eq(customers.id, entry.customerId));
+
+    return created;
+  }
+
+  // Any piece of the order can satisfy the rule; single-piece orders only have the order columns
+  private matchesBonus(rule: LoyaltyRule, order: Order, items: OrderItem[]): boolean {
+    if (rule.minOrderTotal && parseFloat(order.total) < parseFloat(rule.minOrderTotal)) {
+      return false;
+    }
+    if (!rule.matchField || !rule.matchValue) {
+      return true;
+    }
+
+    const needles = rule.matchValue.toLowerCase().split('|').map(value => value.trim()).filter(Boolean);
+    const field = rule.matchField as BonusMatchField;
+    const candidates = [order, ...items].map(source => (source as Record<string, unknown>)[field]);
+    return candidates.some(value =>
+      typeof value === 'string' && needles.some(needle => value.toLowerCase().includes(needle))
+    );
+  }
+
+  private validateRule(input: LoyaltyRuleInput): void {
+    if (!input.name) {
+      throw new LoyaltyError('invalid_request', 'Loyalty rules need a name');
+    }
+    if (input.kind === 'per_dollar' && !((input.pointsPerDollar ?? 0) > 0)) {
+      throw new LoyaltyError('invalid_request', 'Per-dollar rules need a positive pointsPerDollar');
+    }
+    if (input.kind === 'bonus') {
+      if (!Number.isInteger(input.bonusPoints) || input.bonusPoints! <= 0) {
+        throw new LoyaltyError('invalid_request', 'Bonus rules need a positive whole number of bonusPoints');
+      }
+      if (input.matchField && !(BONUS_MATCH_FIELDS as readonly string[]).includes(input.matchField)) {
+        throw new LoyaltyError('invalid_request', `Cannot match on ${input.matchField}`);
+      }
+    }
+  }
+
+  private toRuleColumns(input: LoyaltyRuleInput) {
+    return {
+      name: input.name,
+      kind: input.kind,
+      pointsPerDollar: input.kind === 'per_dollar' ? input.pointsPerDollar!.toFixed(2) : null,
+      bonusPoints: input.kind === 'bonus' ? input.bonusPoints! : null,
+      matchField: input.kind === 'bonus' ? input.matchField || null : null,
+      matchValue: input.kind === 'bonus' ? input.matchValue || null : null,
+      minOrderTotal: input.minOrderTotal != null ? input.minOrderTotal.toFixed(2) : null,
+      active: input.active ?? true
+    };
+  }
+}
+
+export const loyaltyService = new LoyaltyService();
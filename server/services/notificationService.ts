@@ -7,7 +7,9 @@ import sgMail from '@sendgrid/mail';
 import twilio from 'twilio';
 import { db } from '../db';
 import { notifications, customers, orders } from '../../shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { depositService } from './depositService';
+import { receivablesService } from './receivablesService';
 import { structuredLogger } from '../utils/logger';
 
 // Initialize services
@@ -19,6 +21,9 @@ const twilioClient = process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_T
   ? twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN)
   : null;
 
+// Days a balance is outstanding before the customer is reminded; account orders wait for their due date
+const PAYMENT_REMINDER_AFTER_DAYS = 14;
+
 export interface NotificationTemplate {
   subject: string;
   emailBody: string;
@@ -99,13 +104,16 @@ This is a friendly reminder that your order {{orderNumber}} has an outstanding b
 Order Total: ${{total}}
 Amount Paid: ${{amountPaid}}
 Balance Due: ${{balanceDue}}
+{{#if installmentDueDate}}
+Installment due {{installmentDueDate}}: ${{installmentAmount}}
+{{/if}}
 
 Please contact us to arrange payment or visit our shop during business hours.
 
 Thank you!
 
 Jay's Frames Team`,
-      smsBody: "Jay's Frames: Payment reminder for order {{orderNumber}}. Balance due: ${{balanceDue}}. Please contact us to arrange payment."
+      smsBody: "Jay's Frames: Payment reminder for order {{orderNumber}}. {{#if installmentDueDate}}Installment of ${{installmentAmount}} was due {{installmentDueDate}}. {{/if}}Balance due: ${{balanceDue}}. Please contact us to arrange payment."
     }
   };
 
@@ -347,25 +355,35 @@ Jay's Frames Team`,
   async sendPaymentReminders(): Promise<void> {
     try {
       // Find orders with outstanding balances
-      const overdueOrders = await db
-        .select()
-        .from(orders)
-        .leftJoin(customers, eq(orders.customerId, customers.id))
-        .where(
-          and(
-            eq(orders.paymentStatus, 'partial'),
-            // Add date condition for orders older than X days
-          )
-        );
-
-      const promises = overdueOrders.map(({ orders: order }) => 
-        this.sendOrderNotification(order.id, 'payment_reminder')
+      const now = new Date();
+      const overdueOrders = (await receivablesService.getOpenReceivables(now)).filter(line =>
+        line.dueDate ? new Date(line.dueDate) < now : line.daysOutstanding >= PAYMENT_REMINDER_AFTER_DAYS
       );
 
-      await Promise.allSettled(promises);
+      // Orders on a payment schedule are only reminded per overdue installment, even when none is due yet
+      const dueInstallments = await depositService.getDueInstallments();
+      const scheduledOrderIds = await depositService.getScheduledOrderIds(overdueOrders.map(line => line.orderId));
+
+      const promises = overdueOrders
+        .filter(line => !scheduledOrderIds.has(line.orderId))
+        .map(line => this.sendOrderNotification(line.orderId, 'payment_reminder'));
+
+      const installmentPromises = dueInstallments.map(async ({ orderId, installment, amountDue }) => {
+        const sent = await this.sendOrderNotification(orderId, 'payment_reminder', {
+          installmentDueDate: new Date(installment.dueDate).toLocaleDateString(),
+          installmentAmount: amountDue.toFixed(2)
+        });
+        if (sent) {
+          await depositService.markReminded(installment.id);
+        }
+        return sent;
+      });
+
+      await Promise.allSettled([...promises, ...installmentPromises]);
 
       structuredLogger.info('Payment reminders sent', { 
-        count: overdueOrders.length 
+        count: promises.length,
+        installmentCount: installmentPromises.length
       });
 
     } catch (error) {
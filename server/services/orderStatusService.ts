@@ -0,0 +1,228 @@
+/**
+ * Order Status Service
+ * Enforces the order status lifecycle and records every transition
+ */
+
+import { db } from '../db';
+import { orders, orderItems, orderStatusHistory, Order, OrderStatus, OrderStatusHistory, ORDER_STATUSES, ORDER_STATUS_TRANSITIONS } from '../../shared/schema';
+import { eq, asc } from 'drizzle-orm';
+import { depositService, DepositRequirement } from './depositService';
+import { customerService } from './customerService';
+import { tradeAccountService } from './tradeAccountService';
+import { taxService, isSaleStatus } from './taxService';
+import { paymentService } from './paymentService';
+import { withOrderTransaction } from '../utils/transactionHandler';
+import { structuredLogger } from '../utils/logger';
+
+export interface StatusTransitionInput {
+  status: string;
+  actor: string;
+  note?: string;
+  override?: boolean; // bypass guards (not the transition table); requires a note
+}
+
+export type StatusTransitionErrorCode = 'not_found' | 'invalid_status' | 'invalid_transition' | 'guard_failed';
+
+export class StatusTransitionError extends Error {
+  constructor(
+    public readonly code: StatusTransitionErrorCode,
+    message: string,
+    public readonly reasons: string[] = []
+  ) {
+    super(message);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+type Tx = typeof db;
+
+export function isOrderStatus(status: unknown): status is OrderStatus {
+  return typeof status === 'string' && (ORDER_STATUSES as readonly string[]).includes(status);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export class OrderStatusService {
+  /**
+   * Moves an order to a new status inside a transaction.
+   * Throws StatusTransitionError when the move is not allowed.
+   */
+  async transition(orderId: string, input: StatusTransitionInput): Promise<Order> {
+    if (!isOrderStatus(input.status)) {
+      throw new StatusTransitionError('invalid_status', `Unknown order status: ${input.status}`);
+    }
+    const toStatus = input.status;
+
+    if (input.override && !input.note) {
+      throw new StatusTransitionError('guard_failed', 'A note is required when overriding status guards');
+    }
+
+    const updatedOrder = await withOrderTransaction(orderId, async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update')
+        .limit(1);
+
+      if (!order) {
+        throw new StatusTransitionError('not_found', 'Order not found');
+      }
+
+      const fromStatus = order.status as OrderStatus;
+      if (!isOrderStatus(fromStatus) || !canTransition(fromStatus, toStatus)) {
+        throw new StatusTransitionError(
+          'invalid_transition',
+          `Cannot move order from ${order.status} to ${toStatus}`
+        );
+      }
+
+      // Deposit rules are evaluated at approval time against the current total;
+      // orders on a trade account are covered by its credit limit instead
+      const deposit = fromStatus === 'quote' && toStatus === 'approved' && !order.tradeAccountId
+        ? await depositService.getRequiredDeposit(tx, order)
+        : null;
+
+      const reasons = await this.checkGuards(tx, order, toStatus, deposit);
+      if (reasons.length > 0 && !input.override) {
+        throw new StatusTransitionError('guard_failed', `Cannot move order to ${toStatus}`, reasons);
+      }
+
+      const now = new Date();
+      // Account orders are invoiced on completion and fall due under the account terms
+      const invoice = toStatus === 'completed' && order.tradeAccountId && !order.invoicedAt
+        ? tradeAccountService.invoiceDates(order, now)
+        : null;
+
+      const [updated] = await tx
+        .update(orders)
+        .set({
+          status: toStatus,
+          lastStatusUpdate: now,
+          actualCompletion: toStatus === 'completed' ? now : order.actualCompletion,
+          depositRequired: deposit ? deposit.amount.toFixed(2) : order.depositRequired,
+          ...(invoice || {}),
+          updatedAt: now
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      // Quotes and cancelled orders are left out of customer stats
+      if (updated.customerId) {
+        await customerService.recomputeStats(tx, updated.customerId);
+      }
+
+      await this.recordTransition(tx, updated, {
+        fromStatus,
+        toStatus,
+        actor: input.actor,
+        note: input.note,
+        override: reasons.length > 0
+      });
+
+      if (reasons.length > 0) {
+        structuredLogger.warn('Order status guards overridden', {
+          operation: 'order.status',
+          orderId,
+          metadata: { fromStatus, toStatus, actor: input.actor, reasons }
+        });
+      }
+
+      // Loyalty points and coupon uses go back to the customer and the promotion
+      return toStatus === 'cancelled' ? paymentService.releaseDiscounts(tx, updated, input.actor) : updated;
+    }, 'status');
+
+    return updatedOrder;
+  }
+
+  /**
+   * Appends a history row. Used by transition() and when an order is created.
+   * A move into or out of the sale statuses is also recorded for the accrual tax report.
+   */
+  async recordTransition(
+    tx: Tx,
+    order: Order,
+    entry: { fromStatus: string | null; toStatus: string; actor: string; note?: string; override?: boolean }
+  ): Promise<void> {
+    await tx.insert(orderStatusHistory).values({
+      orderId: order.id,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      actor: entry.actor,
+      note: entry.note,
+      override: entry.override || false
+    });
+
+    if (isSaleStatus(entry.toStatus) !== isSaleStatus(entry.fromStatus)) {
+      await taxService.recordTaxEvent(tx, order, isSaleStatus(entry.toStatus) ? 'sale' : 'cancellation');
+    }
+  }
+
+  async getHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    return db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt));
+  }
+
+  /**
+   * Returns the reasons a transition is blocked; empty when it may proceed
+   */
+  private async checkGuards(
+    tx: Tx,
+    order: Order,
+    toStatus: OrderStatus,
+    deposit: DepositRequirement | null
+  ): Promise<string[]> {
+    const reasons: string[] = [];
+
+    if (deposit && deposit.amount > 0) {
+      const amountPaid = parseFloat(order.amountPaid || '0');
+      if (amountPaid < deposit.amount - 0.005) {
+        reasons.push(
+          `Deposit of $${deposit.amount.toFixed(2)} required (${deposit.rule?.name}); $${amountPaid.toFixed(2)} paid`
+        );
+      }
+    }
+
+    if (toStatus === 'approved' && order.tradeAccountId) {
+      const balance = parseFloat(order.total) - parseFloat(order.amountPaid || '0');
+      const creditProblem = await tradeAccountService.checkCredit(tx, order.tradeAccountId, balance, order.id);
+      if (creditProblem) {
+        reasons.push(creditProblem);
+      }
+    }
+
+    if (toStatus === 'ready') {
+      const items = await tx
+        .select({ lineNumber: orderItems.lineNumber, status: orderItems.status, assignedTo: orderItems.assignedTo })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, order.id));
+
+      const unassigned = items.filter(item => !item.assignedTo);
+      if (unassigned.length > 0) {
+        reasons.push(`Items not assigned to a framer: ${unassigned.map(item => item.lineNumber).join(', ')}`);
+      }
+
+      const unfinished = items.filter(item => item.status !== 'completed');
+      if (unfinished.length > 0) {
+        reasons.push(`Items not completed: ${unfinished.map(item => item.lineNumber).join(', ')}`);
+      }
+    }
+
+    // Account orders leave with a balance; it is billed on the monthly statement
+    if (toStatus === 'completed' && !order.tradeAccountId) {
+      const balanceDue = parseFloat(order.total) - parseFloat(order.amountPaid || '0');
+      if (balanceDue > 0.005) {
+        reasons.push(`Unpaid balance of $${balanceDue.toFixed(2)}`);
+      }
+    }
+
+    return reasons;
+  }
+}
+
+export const orderStatusService = new OrderStatusService();
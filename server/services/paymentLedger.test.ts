@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { Payment } from '../../shared/schema';
+import { orderBalance, assertRefundable, reversalAmount, PaymentError } from './paymentLedger';
+
+const payment = (overrides: Partial<Payment> = {}) =>
+  ({ id: 'pay-1', kind: 'payment', status: 'completed', amount: '120.00', refundedAmount: '0.00', ...overrides }) as Payment;
+
+describe('orderBalance', () => {
+  it('is paid once the ledger covers the total', () => {
+    expect(orderBalance(200, 200, 0)).toEqual({ amountPaid: 200, paymentStatus: 'paid' });
+    expect(orderBalance(210, 200, 0)).toEqual({ amountPaid: 210, paymentStatus: 'paid' });
+  });
+
+  it('is partial while something is paid', () => {
+    expect(orderBalance(150, 200, 1)).toEqual({ amountPaid: 150, paymentStatus: 'partial' });
+  });
+
+  it('is refunded when reversals took everything back', () => {
+    expect(orderBalance(0, 200, 1)).toEqual({ amountPaid: 0, paymentStatus: 'refunded' });
+  });
+
+  it('is unpaid with no payments, including zero-total orders', () => {
+    expect(orderBalance(0, 200, 0)).toEqual({ amountPaid: 0, paymentStatus: 'unpaid' });
+    expect(orderBalance(0, 0, 0)).toEqual({ amountPaid: 0, paymentStatus: 'unpaid' });
+  });
+
+  it('never reports a negative amount paid', () => {
+    expect(orderBalance(-20, 200, 2)).toEqual({ amountPaid: 0, paymentStatus: 'refunded' });
+  });
+});
+
+describe('assertRefundable', () => {
+  it('accepts a completed payment', () => {
+    const completed = payment();
+    expect(assertRefundable(completed)).toBe(completed);
+  });
+
+  it('rejects missing rows, reversals and payments that are not completed', () => {
+    expect(() => assertRefundable(undefined)).toThrow(expect.objectContaining({ code: 'not_found' }));
+    expect(() => assertRefundable(payment({ kind: 'refund' }))).toThrow(expect.objectContaining({ code: 'invalid_state' }));
+    expect(() => assertRefundable(payment({ status: 'pending' }))).toThrow('Payment is pending');
+  });
+});
+
+describe('reversalAmount', () => {
+  it('refunds the unrefunded remainder by default', () => {
+    expect(reversalAmount(payment({ refundedAmount: '20.00' }), 0, { kind: 'refund' })).toBe(100);
+  });
+
+  it('rounds a requested refund to cents', () => {
+    expect(reversalAmount(payment(), 0, { kind: 'refund', amount: 33.333 })).toBe(33.33);
+  });
+
+  it('counts pending reversals against what is left', () => {
+    expect(() => reversalAmount(payment({ refundedAmount: '20.00' }), 50, { kind: 'refund', amount: 60 }))
+      .toThrow('Refund exceeds refundable amount of $50.00');
+    expect(reversalAmount(payment({ refundedAmount: '20.00' }), 50, { kind: 'refund', amount: 50 })).toBe(50);
+  });
+
+  it('rejects a refund of nothing', () => {
+    expect(() => reversalAmount(payment({ refundedAmount: '120.00' }), 0, { kind: 'refund' }))
+      .toThrow(expect.objectContaining({ code: 'invalid_request' }));
+    expect(() => reversalAmount(payment(), 0, { kind: 'refund', amount: -5 })).toThrow(PaymentError);
+  });
+
+  it('voids the full amount only while nothing is refunded', () => {
+    expect(reversalAmount(payment(), 0, { kind: 'void', amount: 10 })).toBe(120);
+    expect(() => reversalAmount(payment({ refundedAmount: '10.00' }), 0, { kind: 'void' }))
+      .toThrow(expect.objectContaining({ code: 'invalid_state' }));
+    expect(() => reversalAmount(payment(), 5, { kind: 'void' }))
+      .toThrow('Payments with refunds cannot be voided');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Payment Ledger
+ * Balance and refund rules over payments ledger rows, kept apart from the
+ * database so they can be tested on their own
+ */
+
+import { Payment } from '../../shared/schema';
+
+export type PaymentErrorCode =
+  | 'not_found'
+  | 'invalid_request'
+  | 'invalid_state'
+  | 'idempotency_conflict'
+  | 'declined'
+  | 'provider_unavailable';
+
+export class PaymentError extends Error {
+  constructor(
+    public readonly code: PaymentErrorCode,
+    message: string,
+    public readonly declineCode?: string
+  ) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+// Ledger rows that never moved money: uncaptured authorizations, declines and released holds
+export const EXCLUDED_PAYMENT_STATUSES = ['pending', 'failed', 'released'];
+
+export interface OrderBalance {
+  amountPaid: number;
+  paymentStatus: 'paid' | 'partial' | 'refunded' | 'unpaid';
+}
+
+/**
+ * An order's balance from the sum of its counted ledger rows. Refunds and voids
+ * are negative rows; `reversals` is how many of them there are.
+ */
+export function orderBalance(net: number, orderTotal: number, reversals: number): OrderBalance {
+  const amountPaid = Math.max(0, net);
+
+  if (amountPaid >= orderTotal && orderTotal > 0) {
+    return { amountPaid, paymentStatus: 'paid' };
+  }
+  if (amountPaid > 0) {
+    return { amountPaid, paymentStatus: 'partial' };
+  }
+  return { amountPaid, paymentStatus: reversals > 0 ? 'refunded' : 'unpaid' };
+}
+
+/**
+ * Throws unless the row is a completed payment that can be refunded or voided.
+ */
+export function assertRefundable(payment: Payment | undefined): Payment {
+  if (!payment) {
+    throw new PaymentError('not_found', 'Payment not found');
+  }
+  if (payment.kind !== 'payment') {
+    throw new PaymentError('invalid_state', 'Only payments can be refunded or voided');
+  }
+  if (payment.status !== 'completed') {
+    throw new PaymentError('invalid_state', `Payment is ${payment.status}`);
+  }
+
+  return payment;
+}
+
+/**
+ * The amount a refund or void takes back. `pending` is what reversals still waiting
+ * on the processor will take back. Refunds default to the unrefunded remainder;
+ * voids always reverse the full amount and only while nothing has been refunded.
+ */
+export function reversalAmount(
+  payment: Pick<Payment, 'amount' | 'refundedAmount'>,
+  pending: number,
+  request: { kind: 'refund' | 'void'; amount?: number }
+): number {
+  const refunded = parseFloat(payment.refundedAmount || '0') + pending;
+  const remaining = parseFloat(payment.amount) - refunded;
+
+  if (request.kind === 'void' && refunded > 0) {
+    throw new PaymentError('invalid_state', 'Payments with refunds cannot be voided');
+  }
+  const amount = request.kind === 'void'
+    ? parseFloat(payment.amount)
+    : Math.round((request.amount ?? remaining) * 100) / 100;
+  if (!(amount > 0)) {
+    throw new PaymentError('invalid_request', 'Refund amount must be positive');
+  }
+  if (amount > remaining + 0.005) {
+    throw new PaymentError('invalid_request', `Refund exceeds refundable amount of $${remaining.toFixed(2)}`);
+  }
+
+  return amount;
+}
@@ -0,0 +1,64 @@
+/**
+ * Payment Provider
+ * Card processor interface used by the order payment routes.
+ * Implemented by Stripe and by an in-process simulator for tests and local use.
+ */
+
+import { Payment } from '../../shared/schema';
+
+export type ProviderTransactionStatus = 'authorized' | 'captured' | 'refunded' | 'voided';
+
+export interface ProviderTransaction {
+  id: string; // processor ID stored in payments.transactionId
+  status: ProviderTransactionStatus;
+  amount: number; // authorized, captured or refunded amount, depending on status
+  raw: Record<string, any>; // stored in payments.processorResponse
+}
+
+export interface AuthorizeRequest {
+  orderId: string;
+  amount: number;
+  paymentMethodToken: string; // e.g. a Stripe PaymentMethod ID
+  capture: boolean; // false places a hold to capture later
+  idempotencyKey?: string;
+  description?: string;
+}
+
+export type ProviderEventType = 'payment.captured' | 'payment.failed' | 'payment.voided' | 'refund.succeeded' | 'unknown';
+
+export interface ProviderEvent {
+  id: string;
+  type: ProviderEventType;
+  transactionId?: string;
+  orderId?: string;
+  amount?: number;
+  raw: Record<string, any>;
+}
+
+export type PaymentProviderErrorCode = 'declined' | 'timeout' | 'invalid_request' | 'invalid_signature' | 'provider_error';
+
+export class PaymentProviderError extends Error {
+  constructor(
+    public readonly code: PaymentProviderErrorCode,
+    message: string,
+    public readonly declineCode?: string
+  ) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  authorize(request: AuthorizeRequest): Promise<ProviderTransaction>;
+  // Captures a hold; an amount below the authorized amount is a partial capture
+  capture(transactionId: string, amount?: number): Promise<ProviderTransaction>;
+  refund(transactionId: string, amount: number, reason: string, metadata?: Record<string, string>): Promise<ProviderTransaction>;
+  // Releases a hold, or fully refunds when the payment was already captured
+  void(transactionId: string, reason: string): Promise<ProviderTransaction>;
+  parseWebhook(rawBody: string | Buffer, signature: string | undefined): Promise<ProviderEvent>;
+
+  // Whether a recorded payment was taken through this provider
+  ownsPayment(payment: Payment): boolean;
+}
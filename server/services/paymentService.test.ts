@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import type { PaymentService } from './paymentService';
+import { SimulatedPaymentProvider } from './simulatedPaymentProvider';
+
+/**
+ * Card flows through PaymentService against the simulator. These write to the
+ * payments ledger, so they run only when DATABASE_URL points at a test database.
+ */
+describe.skipIf(!process.env.DATABASE_URL)('PaymentService with the simulator', () => {
+  const provider = new SimulatedPaymentProvider();
+  let service: PaymentService;
+  let orderId: string;
+  const createdOrderIds: string[] = [];
+  let db: typeof import('../db').db;
+  let schema: typeof import('../../shared/schema');
+  let eq: typeof import('drizzle-orm').eq;
+
+  beforeAll(async () => {
+    ({ db } = await import('../db'));
+    ({ eq } = await import('drizzle-orm'));
+    schema = await import('../../shared/schema');
+    const { PaymentService } = await import('./paymentService');
+    service = new PaymentService(provider);
+  });
+
+  beforeEach(async () => {
+    provider.reset();
+    const [order] = await db.insert(schema.orders).values({
+      orderNumber: `TEST-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+      status: 'approved',
+      total: '200.00'
+    }).returning();
+    orderId = order.id;
+    createdOrderIds.push(orderId);
+  });
+
+  afterAll(async () => {
+    for (const id of createdOrderIds) {
+      await db.delete(schema.payments).where(eq(schema.payments.orderId, id));
+      await db.delete(schema.orders).where(eq(schema.orders.id, id));
+    }
+  });
+
+  it('charges a card and marks the order paid', async () => {
+    const result = await service.chargeCard(orderId, { amount: 200, paymentMethodToken: 'tok_visa', idempotencyKey: `charge-${orderId}` });
+
+    expect(result.replayed).toBe(false);
+    expect(result.payment).toMatchObject({ method: 'card', status: 'completed', amount: '200.00' });
+    expect(result.payment.transactionId).toMatch(/^sim_/);
+    expect(result.order.paymentStatus).toBe('paid');
+  });
+
+  it('replays a charge with the same key and rejects a different amount', async () => {
+    const key = `charge-${orderId}`;
+    const first = await service.chargeCard(orderId, { amount: 120, paymentMethodToken: 'tok_visa', idempotencyKey: key });
+
+    const replay = await service.chargeCard(orderId, { amount: 120, paymentMethodToken: 'tok_visa', idempotencyKey: key });
+
+    expect(replay.replayed).toBe(true);
+    expect(replay.payment.id).toBe(first.payment.id);
+    await expect(service.chargeCard(orderId, { amount: 150, paymentMethodToken: 'tok_visa', idempotencyKey: key }))
+      .rejects.toMatchObject({ code: 'idempotency_conflict' });
+  });
+
+  it('keeps a declined charge as a failed payment', async () => {
+    await expect(service.chargeCard(orderId, { amount: 200, paymentMethodToken: 'tok_insufficient_funds' }))
+      .rejects.toMatchObject({ code: 'declined', declineCode: 'insufficient_funds' });
+
+    const ledger = await db.select().from(schema.payments).where(eq(schema.payments.orderId, orderId));
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0].status).toBe('failed');
+  });
+
+  it('captures part of an authorization', async () => {
+    const { payment } = await service.chargeCard(orderId, { amount: 200, paymentMethodToken: 'tok_visa', capture: false });
+    expect(payment.status).toBe('pending');
+
+    const { entry, order } = await service.capturePayment(orderId, payment.id, 150);
+
+    expect(entry).toMatchObject({ status: 'completed', amount: '150.00' });
+    expect(order.paymentStatus).toBe('partial');
+  });
+
+  it('refunds part of a payment', async () => {
+    const { payment } = await service.chargeCard(orderId, { amount: 200, paymentMethodToken: 'tok_visa' });
+
+    const { entry, order } = await service.refundPayment(orderId, payment.id, { amount: 50, reason: 'Glass upgrade removed' });
+
+    expect(entry).toMatchObject({ kind: 'refund', amount: '-50.00', originalPaymentId: payment.id });
+    expect(entry.transactionId).toMatch(/^simre_/);
+    expect(parseFloat(order.amountPaid!)).toBe(150);
+    expect(provider.getTransaction(payment.transactionId!)?.refunded).toBe(50);
+  });
+
+  it('voids a captured payment and releases an uncaptured hold', async () => {
+    const sale = await service.chargeCard(orderId, { amount: 120, paymentMethodToken: 'tok_visa' });
+    const hold = await service.chargeCard(orderId, { amount: 80, paymentMethodToken: 'tok_visa', capture: false });
+
+    const voided = await service.voidPayment(orderId, sale.payment.id, 'Rang up twice');
+    const released = await service.voidPayment(orderId, hold.payment.id, 'Customer paid cash');
+
+    expect(voided.entry).toMatchObject({ kind: 'void', amount: '-120.00' });
+    expect(released.entry).toMatchObject({ id: hold.payment.id, status: 'released' });
+    expect(parseFloat(released.order.amountPaid!)).toBe(0);
+  });
+});
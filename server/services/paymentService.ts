@@ -0,0 +1,882 @@
+/**
+ * Payment Service
+ * Payments, refunds, voids and order balance recalculation over the payments ledger
+ */
+
+import { db } from '../db';
+import { orders, payments, drawerSessions, Order, Payment } from '../../shared/schema';
+import { eq, and, notInArray, sql } from 'drizzle-orm';
+import { applyDiscounts, calculateDiscountLines, calculateTax, AppliedTax, DiscountLine, PricingBreakdown } from '../../shared/pricing';
+import { withOrderTransaction } from '../utils/transactionHandler';
+import { structuredLogger } from '../utils/logger';
+import { PaymentProvider, PaymentProviderError, ProviderTransaction, ProviderEvent } from './paymentProvider';
+import { stripePaymentProvider } from './stripePaymentProvider';
+import { simulatedPaymentProvider } from './simulatedPaymentProvider';
+import { customerService } from './customerService';
+import { loyaltyService } from './loyaltyService';
+import { promotionService, DiscountRequest } from './promotionService';
+import { effectiveTaxRate, isSaleStatus, taxService } from './taxService';
+import { storedValueService, isStoredValueMethod, StoredValueAccount } from './storedValueService';
+import { PaymentError, EXCLUDED_PAYMENT_STATUSES, orderBalance, assertRefundable, reversalAmount } from './paymentLedger';
+
+export { PaymentError, EXCLUDED_PAYMENT_STATUSES } from './paymentLedger';
+export type { PaymentErrorCode } from './paymentLedger';
+
+type Tx = typeof db;
+
+// Tenders counted at close; anything else (stripe, store_credit) is reported but not reconciled
+export const RECONCILED_TENDERS = ['cash', 'card', 'check', 'venmo', 'zelle'] as const;
+
+// Register money is taken or paid out at; see resolveDrawerSession
+export interface DrawerContext {
+  drawerSessionId?: string; // open drawer session of the register
+  register?: string; // defaults to "main" when no session is given
+}
+
+export interface RefundInput extends DrawerContext {
+  amount?: number; // defaults to the unrefunded remainder
+  reason: string;
+  destination?: 'original' | 'store_credit';
+  notes?: string;
+}
+
+export interface RecordPaymentInput extends DrawerContext {
+  amount: number;
+  method: string;
+  transactionId?: string;
+  notes?: string;
+  idempotencyKey?: string;
+  giftCardCode?: string; // required when method is gift_card
+  status?: 'completed' | 'pending'; // pending for card authorizations not yet captured
+  processorResponse?: Record<string, any>;
+}
+
+export interface ChargeCardInput extends DrawerContext {
+  amount: number;
+  paymentMethodToken: string;
+  capture?: boolean; // false only authorizes; capture later with capturePayment
+  idempotencyKey?: string;
+  notes?: string;
+}
+
+export interface RecordPaymentResult {
+  payment: Payment;
+  order: Order;
+  replayed: boolean; // an earlier request with the same idempotency key recorded it
+  remainingBalance?: number; // gift card or store credit left after redemption
+}
+
+export interface LedgerResult {
+  entry: Payment;
+  order: Order;
+}
+
+// PAYMENT_PROVIDER=simulator, or no Stripe key outside production, uses the simulator
+function defaultPaymentProvider(): PaymentProvider {
+  const useSimulator = process.env.PAYMENT_PROVIDER === 'simulator'
+    || (!process.env.STRIPE_SECRET_KEY && process.env.NODE_ENV !== 'production');
+  return useSimulator ? simulatedPaymentProvider : stripePaymentProvider;
+}
+
+// Maps processor failures onto the errors the routes already understand
+function toPaymentError(error: unknown): unknown {
+  if (!(error instanceof PaymentProviderError)) return error;
+  switch (error.code) {
+    case 'declined':
+      return new PaymentError('declined', error.message, error.declineCode);
+    case 'timeout':
+    case 'provider_error':
+      return new PaymentError('provider_unavailable', error.message);
+    default:
+      // invalid_request and invalid_signature
+      return new PaymentError('invalid_request', error.message);
+  }
+}
+
+export class PaymentService {
+  constructor(private readonly provider: PaymentProvider = defaultPaymentProvider()) {}
+
+  /**
+   * Recomputes amountPaid and paymentStatus from the payments ledger.
+   * Refunds and voids are negative rows, so the balance is a plain sum.
+   * The customer's lifetime stats and loyalty points are brought up to date
+   * in the same transaction.
+   */
+  async recomputeOrderBalance(tx: Tx, orderId: string): Promise<Order> {
+    const [ledger] = await tx
+      .select({
+        net: sql<string>`coalesce(sum(${payments.amount}), 0)`,
+        reversals: sql<number>`count(*) filter (where ${payments.kind} <> 'payment')`
+      })
+      .from(payments)
+      .where(and(eq(payments.orderId, orderId), notInArray(payments.status, EXCLUDED_PAYMENT_STATUSES)));
+
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+    const { amountPaid, paymentStatus } = orderBalance(
+      parseFloat(ledger?.net || '0'),
+      parseFloat(order.total),
+      Number(ledger?.reversals || 0)
+    );
+
+    const [updated] = await tx
+      .update(orders)
+      .set({
+        amountPaid: amountPaid.toFixed(2),
+        paymentStatus,
+        updatedAt: new Date()
+      })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    if (updated.customerId) {
+      await customerService.recomputeStats(tx, updated.customerId);
+      await loyaltyService.syncOrderPoints(tx, updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Records a payment. The order row is locked for the whole transaction so
+   * concurrent payments on one order are applied one at a time, and a retried
+   * request with the same idempotency key returns the payment it first recorded.
+   */
+  async recordPayment(orderId: string, input: RecordPaymentInput): Promise<RecordPaymentResult> {
+    if (!(input.amount > 0)) {
+      throw new PaymentError('invalid_request', 'Payment amount must be positive');
+    }
+    if (!input.method) {
+      throw new PaymentError('invalid_request', 'Payment method is required');
+    }
+
+    try {
+      return await this.recordPaymentOnce(orderId, input);
+    } catch (error) {
+      // Two requests with a new key can race past the lookup; the unique index lets one win
+      if (input.idempotencyKey && (error as { code?: string }).code === '23505') {
+        return this.recordPaymentOnce(orderId, input);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Charges a card through the payment provider and records the result.
+   * Declines are kept as failed payments; timeouts record nothing, and a retry
+   * with the same idempotency key is deduplicated by the provider.
+   */
+  async chargeCard(orderId: string, input: ChargeCardInput): Promise<RecordPaymentResult> {
+    if (!(input.amount > 0)) {
+      throw new PaymentError('invalid_request', 'Payment amount must be positive');
+    }
+    if (!input.paymentMethodToken) {
+      throw new PaymentError('invalid_request', 'A payment method token is required');
+    }
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+    if (!order) {
+      throw new PaymentError('not_found', 'Order not found');
+    }
+
+    if (input.idempotencyKey) {
+      const [existing] = await db.select().from(payments).where(eq(payments.idempotencyKey, input.idempotencyKey)).limit(1);
+      if (existing) {
+        // A partial capture lowers the recorded amount, so a replay is compared with what was authorized
+        const authorized = (existing.processorResponse as { authorizedAmount?: string } | null)?.authorizedAmount ?? existing.amount;
+        if (existing.orderId !== orderId
+          || Math.abs(parseFloat(authorized) - input.amount) > 0.005
+          || existing.method !== 'card') {
+          throw new PaymentError('idempotency_conflict', 'Idempotency key was already used for a different payment');
+        }
+        return { payment: existing, order, replayed: true };
+      }
+    }
+
+    const drawerSessionId = await this.resolveDrawerSession(db, 'card', input);
+
+    let transaction: ProviderTransaction;
+    try {
+      transaction = await this.provider.authorize({
+        orderId,
+        amount: input.amount,
+        paymentMethodToken: input.paymentMethodToken,
+        capture: input.capture !== false,
+        idempotencyKey: input.idempotencyKey,
+        description: `Order ${order.orderNumber}`
+      });
+    } catch (error) {
+      if (error instanceof PaymentProviderError && error.code === 'declined') {
+        await db.insert(payments).values({
+          orderId,
+          amount: input.amount.toFixed(2),
+          method: 'card',
+          status: 'failed',
+          processorResponse: { provider: this.provider.name, declineCode: error.declineCode, message: error.message },
+          drawerSessionId,
+          notes: input.notes
+        });
+      }
+      structuredLogger.warn('Card payment not completed', {
+        orderId,
+        integration: this.provider.name,
+        operation: 'payment.authorize',
+        metadata: { code: (error as PaymentProviderError).code, amount: input.amount }
+      });
+      throw toPaymentError(error);
+    }
+
+    return this.recordPayment(orderId, {
+      amount: transaction.amount,
+      method: 'card',
+      transactionId: transaction.id,
+      idempotencyKey: input.idempotencyKey,
+      notes: input.notes,
+      status: transaction.status === 'authorized' ? 'pending' : 'completed',
+      processorResponse: { provider: this.provider.name, authorizedAmount: input.amount.toFixed(2), ...transaction.raw },
+      drawerSessionId
+    });
+  }
+
+  /**
+   * Captures an authorized card payment; a smaller amount is a partial capture
+   */
+  async capturePayment(orderId: string, paymentId: string, amount?: number): Promise<LedgerResult> {
+    const payment = await this.getPayment(orderId, paymentId);
+
+    if (payment.status !== 'pending' || !this.provider.ownsPayment(payment)) {
+      throw new PaymentError('invalid_state', 'Only pending card authorizations can be captured');
+    }
+    if (amount !== undefined && (!(amount > 0) || amount > parseFloat(payment.amount) + 0.005)) {
+      throw new PaymentError('invalid_request', `Capture amount must be between $0.01 and $${payment.amount}`);
+    }
+
+    let transaction: ProviderTransaction;
+    try {
+      transaction = await this.provider.capture(payment.transactionId!, amount);
+    } catch (error) {
+      throw toPaymentError(error);
+    }
+
+    return withOrderTransaction(orderId, async (tx) => {
+      await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for('update');
+
+      const [entry] = await tx
+        .update(payments)
+        .set({
+          amount: transaction.amount.toFixed(2),
+          status: 'completed',
+          processorResponse: { provider: this.provider.name, authorizedAmount: payment.amount, ...transaction.raw }
+        })
+        .where(eq(payments.id, payment.id))
+        .returning();
+
+      return { entry, order: await this.recomputeOrderBalance(tx, orderId) };
+    }, 'capture');
+  }
+
+  /**
+   * Applies a provider webhook to the pending payment it refers to.
+   * Returns false when no pending payment matches.
+   */
+  async applyProviderEvent(event: ProviderEvent): Promise<boolean> {
+    // A voided authorization only releases the hold; 'voided' is kept for reversed payments that did move money
+    const nextStatus = { 'payment.captured': 'completed', 'payment.failed': 'failed', 'payment.voided': 'released' }[
+      event.type as 'payment.captured' | 'payment.failed' | 'payment.voided'
+    ];
+    if (!nextStatus || !event.transactionId) return false;
+
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.transactionId, event.transactionId), eq(payments.status, 'pending')))
+      .limit(1);
+    if (!payment) return false;
+
+    await withOrderTransaction(payment.orderId, async (tx) => {
+      await tx
+        .update(payments)
+        .set({
+          status: nextStatus,
+          amount: nextStatus === 'completed' && event.amount ? event.amount.toFixed(2) : payment.amount
+        })
+        .where(eq(payments.id, payment.id));
+
+      await this.recomputeOrderBalance(tx, payment.orderId);
+    }, 'providerEvent');
+
+    return true;
+  }
+
+  /**
+   * Verifies a provider webhook and applies it to the ledger
+   */
+  async handleProviderWebhook(rawBody: string | Buffer, signature: string | undefined): Promise<{ event: ProviderEvent; applied: boolean }> {
+    let event: ProviderEvent;
+    try {
+      event = await this.provider.parseWebhook(rawBody, signature);
+    } catch (error) {
+      throw toPaymentError(error);
+    }
+
+    const applied = await this.applyProviderEvent(event);
+    structuredLogger.info('Payment provider webhook received', {
+      integration: this.provider.name,
+      operation: 'payment.webhook',
+      metadata: { eventId: event.id, type: event.type, transactionId: event.transactionId, applied }
+    });
+
+    return { event, applied };
+  }
+
+  /**
+   * Redeems loyalty points as a discount line on the order, taken off before tax
+   */
+  async redeemLoyaltyPoints(orderId: string, points: number, actor: string): Promise<Order> {
+    return withOrderTransaction(orderId, async (tx) => {
+      const order = await this.lockOrder(tx, orderId);
+      if (['cancelled', 'completed'].includes(order.status)) {
+        throw new PaymentError('invalid_state', `Points cannot be redeemed on a ${order.status} order`);
+      }
+
+      const line = await loyaltyService.reservePoints(tx, order, points, actor);
+      return this.applyDiscountLines(tx, order, [...(order.discountLines || []), line]);
+    }, 'loyaltyRedemption');
+  }
+
+  /**
+   * Removes a loyalty discount line and gives the points back
+   */
+  async removeLoyaltyRedemption(orderId: string, entryId: string, actor: string): Promise<Order> {
+    return withOrderTransaction(orderId, async (tx) => {
+      const order = await this.lockOrder(tx, orderId);
+      const lines = order.discountLines || [];
+      if (!lines.some(line => line.source === 'loyalty' && line.reference === entryId)) {
+        throw new PaymentError('not_found', 'Loyalty discount not found on this order');
+      }
+
+      await loyaltyService.releaseRedemption(tx, order, entryId, actor);
+      return this.applyDiscountLines(tx, order, lines.filter(line => line.reference !== entryId));
+    }, 'loyaltyRedemption');
+  }
+
+  /**
+   * Gives back the loyalty points and coupon or promotion uses held by an order being cancelled.
+   * Those lines come off the order, so reopening and cancelling it again can't release them twice;
+   * staff discounts stay.
+   */
+  async releaseDiscounts(tx: Tx, order: Order, actor: string): Promise<Order> {
+    const lines = order.discountLines || [];
+    const held = lines.filter(line => ['loyalty', 'coupon', 'promotion'].includes(line.source));
+    if (held.length === 0) return order;
+
+    for (const line of held) {
+      if (line.source === 'loyalty' && line.reference) {
+        await loyaltyService.releaseRedemption(tx, order, line.reference, actor);
+      }
+    }
+    await promotionService.releaseUsage(tx, held);
+
+    structuredLogger.info('Order discounts released', {
+      orderId: order.id,
+      operation: 'order.discount',
+      metadata: { actor, lines: held }
+    });
+    return this.applyDiscountLines(tx, order, lines.filter(line => !held.includes(line)));
+  }
+
+  /**
+   * Adds a coupon or a staff discount to an existing order.
+   * Automatic promotions are only applied when the order is created.
+   */
+  async addDiscount(orderId: string, request: Omit<DiscountRequest, 'automatic'>, actor: string): Promise<Order> {
+    return withOrderTransaction(orderId, async (tx) => {
+      const order = await this.lockOrder(tx, orderId);
+      if (['cancelled', 'completed'].includes(order.status)) {
+        throw new PaymentError('invalid_state', `Discounts cannot be added to a ${order.status} order`);
+      }
+
+      const applied = order.discountLines || [];
+      const breakdown = this.toBreakdown(order);
+      const discounts = await promotionService.resolveDiscounts(tx, request, breakdown.subtotal);
+      if (discounts.some(discount => discount.reference && applied.some(line => line.reference === discount.reference))) {
+        throw new PaymentError('invalid_state', 'That coupon is already applied to this order');
+      }
+
+      const lines = calculateDiscountLines(breakdown, discounts, applied);
+      if (lines.length === 0) {
+        throw new PaymentError('invalid_request', 'Discount does not reduce this order');
+      }
+      await promotionService.claimUsage(tx, lines);
+
+      structuredLogger.info('Order discount added', {
+        orderId,
+        operation: 'order.discount',
+        metadata: { actor, lines }
+      });
+      return this.applyDiscountLines(tx, order, [...applied, ...lines]);
+    }, 'discount');
+  }
+
+  /**
+   * Removes a coupon, promotion or staff discount line; loyalty lines go through removeLoyaltyRedemption
+   */
+  async removeDiscount(orderId: string, reference: string, actor: string): Promise<Order> {
+    return withOrderTransaction(orderId, async (tx) => {
+      const order = await this.lockOrder(tx, orderId);
+      const lines = order.discountLines || [];
+      const line = lines.find(candidate => candidate.reference === reference);
+      if (!line) {
+        throw new PaymentError('not_found', 'Discount not found on this order');
+      }
+      if (line.source === 'loyalty') {
+        throw new PaymentError('invalid_request', 'Remove loyalty discounts through the loyalty redemption');
+      }
+
+      await promotionService.releaseUsage(tx, [line]);
+
+      structuredLogger.info('Order discount removed', {
+        orderId,
+        operation: 'order.discount',
+        metadata: { actor, line }
+      });
+      return this.applyDiscountLines(tx, order, lines.filter(candidate => candidate !== line));
+    }, 'discount');
+  }
+
+  /**
+   * Refunds all or part of a payment to its original method or to store credit
+   */
+  async refundPayment(orderId: string, paymentId: string, input: RefundInput): Promise<LedgerResult> {
+    if (!input.reason?.trim()) {
+      throw new PaymentError('invalid_request', 'A refund reason is required');
+    }
+
+    return this.recordReversal(orderId, paymentId, {
+      kind: 'refund',
+      amount: input.amount,
+      reason: input.reason,
+      notes: input.notes,
+      toStoreCredit: input.destination === 'store_credit',
+      drawerSessionId: input.drawerSessionId,
+      register: input.register
+    });
+  }
+
+  /**
+   * Voids a payment in full; only payments with no refunds can be voided
+   */
+  async voidPayment(orderId: string, paymentId: string, reason: string, drawer: DrawerContext = {}): Promise<LedgerResult> {
+    if (!reason?.trim()) {
+      throw new PaymentError('invalid_request', 'A void reason is required');
+    }
+
+    // An uncaptured authorization never moved money: release the hold, no ledger reversal
+    const held = await this.getPayment(orderId, paymentId);
+    if (held.status === 'pending' && this.provider.ownsPayment(held)) {
+      return this.releaseAuthorization(orderId, held, reason);
+    }
+
+    return this.recordReversal(orderId, paymentId, {
+      kind: 'void',
+      reason,
+      toStoreCredit: false,
+      ...drawer
+    });
+  }
+
+  private async recordPaymentOnce(orderId: string, input: RecordPaymentInput): Promise<RecordPaymentResult> {
+    return withOrderTransaction(orderId, async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update').limit(1);
+
+      if (!order) {
+        throw new PaymentError('not_found', 'Order not found');
+      }
+
+      if (input.idempotencyKey) {
+        const [existing] = await tx
+          .select()
+          .from(payments)
+          .where(eq(payments.idempotencyKey, input.idempotencyKey))
+          .limit(1);
+
+        if (existing) {
+          if (existing.orderId !== orderId
+            || Math.abs(parseFloat(existing.amount) - input.amount) > 0.005
+            || existing.method !== input.method) {
+            throw new PaymentError('idempotency_conflict', 'Idempotency key was already used for a different payment');
+          }
+          return { payment: existing, order, replayed: true };
+        }
+      }
+
+      const drawerSessionId = await this.resolveDrawerSession(tx, input.method, input);
+
+      // Gift cards and store credit are locked before the balance check
+      const account = isStoredValueMethod(input.method)
+        ? await storedValueService.resolveAccount(tx, input.method, {
+          giftCardCode: input.giftCardCode,
+          customerId: order.customerId
+        })
+        : null;
+
+      const [payment] = await tx.insert(payments).values({
+        orderId,
+        amount: input.amount.toFixed(2),
+        method: input.method,
+        giftCardId: account?.method === 'gift_card' ? account.giftCardId : undefined,
+        transactionId: input.transactionId,
+        idempotencyKey: input.idempotencyKey,
+        processorResponse: input.processorResponse,
+        drawerSessionId,
+        notes: input.notes,
+        status: input.status || 'completed'
+      }).returning();
+
+      const remainingBalance = account
+        ? await storedValueService.redeem(tx, account, input.amount, { orderId, paymentId: payment.id })
+        : undefined;
+
+      const updatedOrder = await this.recomputeOrderBalance(tx, orderId);
+
+      return { payment, order: updatedOrder, replayed: false, remainingBalance };
+    }, 'payment');
+  }
+
+  private getStoredValueAccount(payment: Payment, order: Order): StoredValueAccount | null {
+    if (payment.method === 'gift_card' && payment.giftCardId) {
+      return { method: 'gift_card', giftCardId: payment.giftCardId };
+    }
+    if (payment.method === 'store_credit' && order.customerId) {
+      return { method: 'store_credit', customerId: order.customerId };
+    }
+    return null;
+  }
+
+  private async releaseAuthorization(orderId: string, payment: Payment, reason: string): Promise<LedgerResult> {
+    let transaction: ProviderTransaction;
+    try {
+      transaction = await this.provider.void(payment.transactionId!, reason);
+    } catch (error) {
+      throw toPaymentError(error);
+    }
+
+    return withOrderTransaction(orderId, async (tx) => {
+      const [entry] = await tx
+        .update(payments)
+        .set({
+          status: 'released',
+          reason,
+          processorResponse: { provider: this.provider.name, ...transaction.raw }
+        })
+        .where(eq(payments.id, payment.id))
+        .returning();
+
+      return { entry, order: await this.recomputeOrderBalance(tx, orderId) };
+    }, 'void');
+  }
+
+  private async lockOrder(tx: Tx, orderId: string): Promise<Order> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update').limit(1);
+    if (!order) {
+      throw new PaymentError('not_found', 'Order not found');
+    }
+    return order;
+  }
+
+  // Stored breakdown of an order, before any discounts
+  private toBreakdown(order: Order): PricingBreakdown {
+    const amount = (value: string | null) => parseFloat(value || '0');
+    const tax = amount(order.tax);
+    const discount = amount(order.discount);
+
+    return {
+      basePrice: amount(order.basePrice),
+      framePrice: amount(order.framePrice),
+      matPrice: amount(order.matPrice),
+      glassPrice: amount(order.glassPrice),
+      backingPrice: amount(order.backingPrice),
+      laborPrice: amount(order.laborPrice),
+      rushFee: amount(order.rushFee),
+      // Orders from before the breakdown was stored only have a total
+      subtotal: order.subtotal !== null ? amount(order.subtotal) : parseFloat(order.total) - tax + discount,
+      discount,
+      tax,
+      total: parseFloat(order.total)
+    };
+  }
+
+  // Taxable and exempt amounts after the discount lines, at the order's recorded rates
+  private retax(taxDetails: AppliedTax, breakdown: PricingBreakdown, lines: DiscountLine[]): AppliedTax {
+    const { taxable, exempt } = calculateTax(breakdown, lines, taxDetails.rates);
+    return { ...taxDetails, taxable, exempt };
+  }
+
+  // Re-totals the order with its discount lines and refreshes the balance
+  private async applyDiscountLines(tx: Tx, order: Order, lines: DiscountLine[]): Promise<Order> {
+    // Orders priced before tax rates were recorded keep the rate they were taxed at
+    const breakdown = this.toBreakdown(order);
+    const taxDetails = order.taxDetails;
+    const totals = applyDiscounts(breakdown, lines, taxDetails?.rates);
+    const requested = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (requested > totals.discount + 0.005) {
+      throw new PaymentError('invalid_request', `Discounts cannot exceed the $${breakdown.subtotal.toFixed(2)} subtotal`);
+    }
+    if (totals.total < parseFloat(order.amountPaid || '0') - 0.005) {
+      throw new PaymentError('invalid_request', 'Discount would bring the total below the amount already paid');
+    }
+
+    await tx
+      .update(orders)
+      .set({
+        discount: totals.discount.toFixed(2),
+        discountLines: lines,
+        tax: totals.tax.toFixed(2),
+        taxRate: effectiveTaxRate(totals),
+        taxDetails: taxDetails ? this.retax(taxDetails, breakdown, lines) : undefined,
+        total: totals.total.toFixed(2),
+        updatedAt: new Date()
+      })
+      .where(eq(orders.id, order.id));
+
+    const updated = await this.recomputeOrderBalance(tx, order.id);
+    // The accrual tax report adjusts a sale that was already reported
+    if (isSaleStatus(updated.status)) {
+      await taxService.recordTaxEvent(tx, updated, 'discount');
+    }
+    return updated;
+  }
+
+  /**
+   * Drawer session a payment, refund or void is recorded against: the one given, which must
+   * still be open, or else the open session of the register for tenders the drawer reconciles.
+   * Cash can't be taken or paid out with no drawer open. The share lock holds off a close
+   * until the payment commits, so the Z-report sees it.
+   */
+  private async resolveDrawerSession(tx: Tx, method: string, drawer: DrawerContext): Promise<string | undefined> {
+    if (!drawer.drawerSessionId && !(RECONCILED_TENDERS as readonly string[]).includes(method)) {
+      return undefined;
+    }
+
+    const register = drawer.register || 'main';
+    const [session] = await tx
+      .select({ id: drawerSessions.id, status: drawerSessions.status })
+      .from(drawerSessions)
+      .where(drawer.drawerSessionId
+        ? eq(drawerSessions.id, drawer.drawerSessionId)
+        : and(eq(drawerSessions.register, register), eq(drawerSessions.status, 'open')))
+      .for('share')
+      .limit(1);
+
+    if (drawer.drawerSessionId) {
+      if (!session) {
+        throw new PaymentError('not_found', 'Drawer session not found');
+      }
+      if (session.status !== 'open') {
+        throw new PaymentError('invalid_state', 'Drawer session is closed');
+      }
+    } else if (!session && method === 'cash') {
+      throw new PaymentError('invalid_state', `No drawer session is open on register ${register}`);
+    }
+
+    return session?.id;
+  }
+
+  private async getPayment(orderId: string, paymentId: string): Promise<Payment> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.id, paymentId), eq(payments.orderId, orderId)))
+      .limit(1);
+
+    if (!payment) {
+      throw new PaymentError('not_found', 'Payment not found');
+    }
+    return payment;
+  }
+
+  /**
+   * Refunds or voids a payment. The payment is re-read and locked inside the order
+   * transaction, so concurrent reversals each see what the others refunded or reserved
+   * before checking what is left. A reversal through the processor is reserved as a pending
+   * row and the processor is called after that commits, so a slow call holds no locks; a
+   * second transaction records the result under the processor's refund ID, the key the
+   * stripe-webhook function records the same refund under.
+   * Refunds default to the unrefunded remainder; voids always reverse the full amount.
+   */
+  private async recordReversal(
+    orderId: string,
+    paymentId: string,
+    request: {
+      kind: 'refund' | 'void';
+      amount?: number;
+      reason: string;
+      notes?: string;
+      toStoreCredit: boolean;
+    } & DrawerContext
+  ): Promise<LedgerResult> {
+    const reserved = await withOrderTransaction(orderId, async (tx) => {
+      const order = await this.lockOrder(tx, orderId);
+      const payment = assertRefundable(await this.lockPayment(tx, orderId, paymentId));
+
+      // Reversals still waiting on the processor count as refunded
+      const [pending] = await tx
+        .select({ amount: sql<string>`coalesce(-sum(${payments.amount}), 0)` })
+        .from(payments)
+        .where(and(eq(payments.originalPaymentId, payment.id), eq(payments.status, 'pending')));
+      const amountToReverse = reversalAmount(payment, parseFloat(pending?.amount || '0'), request);
+      if (request.toStoreCredit && !order.customerId) {
+        throw new PaymentError('invalid_request', 'Order has no customer to hold store credit');
+      }
+
+      const method = request.toStoreCredit ? 'store_credit' : payment.method;
+      const reversal = {
+        ...request,
+        amount: amountToReverse,
+        method,
+        drawerSessionId: await this.resolveDrawerSession(tx, method, request)
+      };
+      // Money goes back through the processor before the ledger counts it
+      const viaProcessor = !reversal.toStoreCredit && this.provider.ownsPayment(payment);
+
+      const [entry] = await tx.insert(payments).values({
+        orderId,
+        amount: (-reversal.amount).toFixed(2),
+        method: reversal.method,
+        kind: reversal.kind,
+        status: viaProcessor ? 'pending' : 'completed',
+        originalPaymentId: payment.id,
+        reason: reversal.reason,
+        drawerSessionId: reversal.drawerSessionId,
+        notes: reversal.notes
+      }).returning();
+
+      return viaProcessor
+        ? { entry, payment, reversal, result: null }
+        : { entry, payment, reversal, result: await this.applyReversal(tx, order, payment, entry, reversal) };
+    }, request.kind);
+
+    if (reserved.result) return reserved.result;
+    const { payment, reversal } = reserved;
+
+    let processorResult: ProviderTransaction;
+    try {
+      processorResult = reversal.kind === 'void'
+        ? await this.provider.void(payment.transactionId!, reversal.reason)
+        : await this.provider.refund(payment.transactionId!, reversal.amount, reversal.reason, {
+          paymentId: payment.id,
+          orderId
+        });
+    } catch (error) {
+      await db
+        .update(payments)
+        .set({ status: 'failed', processorResponse: { provider: this.provider.name, message: (error as Error).message } })
+        .where(eq(payments.id, reserved.entry.id));
+      throw toPaymentError(error);
+    }
+
+    try {
+      return await withOrderTransaction(orderId, async (tx) => {
+        const order = await this.lockOrder(tx, orderId);
+        const locked = (await this.lockPayment(tx, orderId, paymentId))!;
+
+        // Shared with the stripe-webhook function, which may record the same refund first
+        const idempotencyKey = processorResult.status === 'refunded'
+          ? `${this.provider.name}-refund:${processorResult.id}`
+          : undefined;
+
+        if (idempotencyKey) {
+          const [recorded] = await tx.select().from(payments).where(eq(payments.idempotencyKey, idempotencyKey)).limit(1);
+          if (recorded) {
+            await tx
+              .update(payments)
+              .set({ status: 'failed', processorResponse: { provider: this.provider.name, recordedAs: recorded.id } })
+              .where(eq(payments.id, reserved.entry.id));
+            return { entry: recorded, order: await this.recomputeOrderBalance(tx, orderId) };
+          }
+        }
+
+        const [entry] = await tx
+          .update(payments)
+          .set({
+            status: 'completed',
+            transactionId: processorResult.id,
+            idempotencyKey,
+            processorResponse: processorResult.raw
+          })
+          .where(eq(payments.id, reserved.entry.id))
+          .returning();
+
+        return this.applyReversal(tx, order, locked, entry, reversal);
+      }, reversal.kind);
+    } catch (error) {
+      structuredLogger.error('Processor refund succeeded but ledger update failed', {
+        error: error as Error,
+        severity: 'critical',
+        orderId,
+        integration: this.provider.name,
+        metadata: { paymentId, reversalId: reserved.entry.id, refundId: processorResult.id }
+      });
+      throw error;
+    }
+  }
+
+  private async lockPayment(tx: Tx, orderId: string, paymentId: string): Promise<Payment | undefined> {
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(and(eq(payments.id, paymentId), eq(payments.orderId, orderId)))
+      .for('update')
+      .limit(1);
+    return payment;
+  }
+
+  // Marks the original payment reversed, returns stored value and refreshes the order balance
+  private async applyReversal(
+    tx: Tx,
+    order: Order,
+    payment: Payment,
+    entry: Payment,
+    reversal: { kind: 'refund' | 'void'; amount: number; method: string; reason: string; toStoreCredit: boolean }
+  ): Promise<LedgerResult> {
+    const refundedAmount = parseFloat(payment.refundedAmount || '0') + reversal.amount;
+    const fullyReversed = refundedAmount >= parseFloat(payment.amount) - 0.005;
+
+    await tx
+      .update(payments)
+      .set({
+        refundedAmount: refundedAmount.toFixed(2),
+        status: reversal.kind === 'void' ? 'voided' : fullyReversed ? 'refunded' : 'completed'
+      })
+      .where(eq(payments.id, payment.id));
+
+    // Stored-value payments reversed to their original method go back on the card or account
+    const originalAccount = this.getStoredValueAccount(payment, order);
+    if (!reversal.toStoreCredit && originalAccount) {
+      await storedValueService.restore(tx, originalAccount, reversal.amount, {
+        orderId: order.id,
+        paymentId: entry.id,
+        reason: reversal.reason
+      });
+    }
+
+    if (reversal.toStoreCredit) {
+      await storedValueService.credit(tx, order.customerId!, reversal.amount, {
+        orderId: order.id,
+        paymentId: entry.id,
+        reason: reversal.reason
+      });
+    }
+
+    const updatedOrder = await this.recomputeOrderBalance(tx, order.id);
+
+    structuredLogger.info(`Payment ${reversal.kind} recorded`, {
+      orderId: order.id,
+      operation: `payment.${reversal.kind}`,
+      metadata: { paymentId: payment.id, amount: reversal.amount, method: reversal.method }
+    });
+
+    return { entry, order: updatedOrder };
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,140 @@
+/**
+ * Price Book Service
+ * Loads, caches and publishes versioned price books used by calculateFramingPrice
+ */
+
+import { db } from '../db';
+import { priceBooks, PriceBookRecord } from '../../shared/schema';
+import { eq, desc, lte, and, or, isNull, gt, sql } from 'drizzle-orm';
+import { DEFAULT_PRICE_BOOK, PriceBook, PricingTier, MaterialPricing, MouldingPricing, MatStackPricing, normalizePriceBook } from '../../shared/pricing';
+import { structuredLogger } from '../utils/logger';
+
+export interface PublishPriceBookInput {
+  name: string;
+  tiers: PricingTier[];
+  materials: MaterialPricing;
+  moulding?: MouldingPricing;
+  matStack?: MatStackPricing;
+  effectiveFrom?: Date;
+  notes?: string;
+  createdBy?: string;
+}
+
+const CACHE_TTL_MS = 60 * 1000;
+
+export class PriceBookService {
+  private cache: { book: PriceBook; loadedAt: number } | null = null;
+
+  /**
+   * Returns the price book in effect at the given time.
+   * Falls back to the built-in defaults when none is stored.
+   */
+  async getActivePriceBook(at: Date = new Date()): Promise<PriceBook> {
+    const useCache = Math.abs(Date.now() - at.getTime()) < 1000;
+    if (useCache && this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.book;
+    }
+
+    try {
+      const [record] = await db
+        .select()
+        .from(priceBooks)
+        .where(
+          and(
+            lte(priceBooks.effectiveFrom, at),
+            or(isNull(priceBooks.effectiveTo), gt(priceBooks.effectiveTo, at))
+          )
+        )
+        .orderBy(desc(priceBooks.effectiveFrom), desc(priceBooks.version))
+        .limit(1);
+
+      const book = record ? this.toPriceBook(record) : DEFAULT_PRICE_BOOK;
+      if (useCache) {
+        this.cache = { book, loadedAt: Date.now() };
+      }
+      return book;
+
+    } catch (error) {
+      structuredLogger.error('Failed to load active price book, using defaults', {
+        error: error as Error,
+        severity: 'high'
+      });
+      return DEFAULT_PRICE_BOOK;
+    }
+  }
+
+  /**
+   * Returns a specific version so historical quotes can be reproduced exactly
+   */
+  async getPriceBookByVersion(version: number): Promise<PriceBook | null> {
+    const [record] = await db
+      .select()
+      .from(priceBooks)
+      .where(eq(priceBooks.version, version))
+      .limit(1);
+
+    if (record) {
+      return this.toPriceBook(record);
+    }
+
+    return version === DEFAULT_PRICE_BOOK.version ? DEFAULT_PRICE_BOOK : null;
+  }
+
+  async listPriceBooks(): Promise<PriceBookRecord[]> {
+    return db.select().from(priceBooks).orderBy(desc(priceBooks.version));
+  }
+
+  /**
+   * Publishes a new version. The currently open-ended book is closed
+   * at the new book's effective date so only one book applies at a time.
+   */
+  async publishPriceBook(input: PublishPriceBookInput): Promise<PriceBookRecord> {
+    const effectiveFrom = input.effectiveFrom || new Date();
+
+    const created = await db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ maxVersion: sql<number>`coalesce(max(${priceBooks.version}), 0)` })
+        .from(priceBooks);
+
+      await tx
+        .update(priceBooks)
+        .set({ effectiveTo: effectiveFrom })
+        .where(and(isNull(priceBooks.effectiveTo), lte(priceBooks.effectiveFrom, effectiveFrom)));
+
+      const [record] = await tx.insert(priceBooks).values({
+        version: Number(latest?.maxVersion || 0) + 1,
+        name: input.name,
+        tiers: input.tiers,
+        materials: input.materials,
+        moulding: input.moulding,
+        matStack: input.matStack,
+        effectiveFrom,
+        notes: input.notes,
+        createdBy: input.createdBy
+      }).returning();
+
+      return record;
+    });
+
+    this.cache = null;
+
+    structuredLogger.info('Price book published', {
+      operation: 'priceBook.publish',
+      metadata: { version: created.version, effectiveFrom }
+    });
+
+    return created;
+  }
+
+  private toPriceBook(record: PriceBookRecord): PriceBook {
+    return normalizePriceBook({
+      version: record.version,
+      tiers: record.tiers as PricingTier[],
+      materials: record.materials as MaterialPricing,
+      moulding: (record.moulding as MouldingPricing | null) || undefined,
+      matStack: (record.matStack as MatStackPricing | null) || undefined
+    });
+  }
+}
+
+export const priceBookService = new PriceBookService();
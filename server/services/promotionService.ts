@@ -0,0 +1,287 @@
+/**
+ * Promotion Service
+ * Coupon codes, automatic promotions and staff discounts, priced as order discount lines
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { promotions, Promotion } from '../../shared/schema';
+import { eq, and, or, asc, isNull, inArray, lte, gt, sql } from 'drizzle-orm';
+import { Discount, DiscountCategory, DiscountLine } from '../../shared/pricing';
+import { structuredLogger } from '../utils/logger';
+
+type Tx = typeof db;
+
+export const DISCOUNT_CATEGORIES = ['order', 'frame', 'mat', 'glass', 'backing', 'labor'] as const;
+
+export interface PromotionInput {
+  name: string;
+  code?: string | null;
+  kind: 'percent' | 'fixed';
+  value: number;
+  category?: DiscountCategory;
+  minSubtotal?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  usageLimit?: number | null;
+  active?: boolean;
+}
+
+// A one-off discount keyed in by staff
+export interface ManualDiscountInput {
+  kind: 'percent' | 'fixed';
+  value: number;
+  label?: string;
+  category?: DiscountCategory;
+}
+
+export interface DiscountRequest {
+  couponCode?: string;
+  manual?: ManualDiscountInput[];
+  automatic?: boolean; // include automatic promotions, only when the order is created
+}
+
+export type PromotionErrorCode = 'not_found' | 'invalid_request' | 'duplicate' | 'unavailable' | 'exhausted';
+
+export class PromotionError extends Error {
+  constructor(public readonly code: PromotionErrorCode, message: string) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export function toDiscount(promotion: Promotion): Discount {
+  return {
+    source: promotion.code ? 'coupon' : 'promotion',
+    label: promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name,
+    kind: promotion.kind as Discount['kind'],
+    value: parseFloat(promotion.value),
+    category: promotion.category as DiscountCategory,
+    reference: promotion.id
+  };
+}
+
+/**
+ * Why a promotion cannot be used right now, or null when it can
+ */
+export function unavailableReason(promotion: Promotion, subtotal: number | null, asOf: Date): string | null {
+  if (!promotion.active) {
+    return 'is no longer active';
+  }
+  if (promotion.startsAt && asOf < promotion.startsAt) {
+    return `starts ${promotion.startsAt.toLocaleDateString()}`;
+  }
+  if (promotion.endsAt && asOf >= promotion.endsAt) {
+    return `ended ${promotion.endsAt.toLocaleDateString()}`;
+  }
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    return 'has been fully redeemed';
+  }
+  if (subtotal !== null && promotion.minSubtotal && subtotal < parseFloat(promotion.minSubtotal)) {
+    return `needs a subtotal of at least $${parseFloat(promotion.minSubtotal).toFixed(2)}`;
+  }
+  return null;
+}
+
+export class PromotionService {
+  async listPromotions(): Promise<Promotion[]> {
+    return db.select().from(promotions).orderBy(asc(promotions.createdAt));
+  }
+
+  async createPromotion(input: PromotionInput): Promise<Promotion> {
+    this.validatePromotion(input);
+    await this.assertCodeAvailable(input.code);
+
+    const [promotion] = await db.insert(promotions).values(this.toPromotionColumns(input)).returning();
+    return promotion;
+  }
+
+  async updatePromotion(id: string, input: PromotionInput): Promise<Promotion> {
+    this.validatePromotion(input);
+    await this.assertCodeAvailable(input.code, id);
+
+    const [promotion] = await db
+      .update(promotions)
+      .set({ ...this.toPromotionColumns(input), updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+
+    if (!promotion) {
+      throw new PromotionError('not_found', 'Promotion not found');
+    }
+    return promotion;
+  }
+
+  /**
+   * Automatic promotions running now, for previewing a new order's discounts
+   */
+  async getActivePromotions(asOf: Date = new Date()): Promise<Promotion[]> {
+    return db
+      .select()
+      .from(promotions)
+      .where(and(
+        isNull(promotions.code),
+        eq(promotions.active, true),
+        or(isNull(promotions.startsAt), lte(promotions.startsAt, asOf)),
+        or(isNull(promotions.endsAt), gt(promotions.endsAt, asOf)),
+        or(isNull(promotions.usageLimit), sql`${promotions.usageCount} < ${promotions.usageLimit}`)
+      ))
+      .orderBy(asc(promotions.createdAt));
+  }
+
+  /**
+   * Finds a coupon and checks it can be used on an order with this subtotal
+   */
+  async lookupCoupon(tx: Tx, code: string, subtotal: number | null, asOf: Date = new Date()): Promise<Promotion> {
+    const normalized = normalizeCouponCode(code);
+    const [promotion] = await tx
+      .select()
+      .from(promotions)
+      .where(eq(promotions.code, normalized))
+      .limit(1);
+
+    if (!promotion) {
+      throw new PromotionError('not_found', `Coupon ${normalized} not found`);
+    }
+
+    const reason = unavailableReason(promotion, subtotal, asOf);
+    if (reason) {
+      throw new PromotionError(
+        promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit ? 'exhausted' : 'unavailable',
+        `Coupon ${normalized} ${reason}`
+      );
+    }
+    return promotion;
+  }
+
+  /**
+   * Collects the discounts an order asked for, ready to be priced against its breakdown
+   */
+  async resolveDiscounts(tx: Tx, request: DiscountRequest, subtotal: number, asOf: Date = new Date()): Promise<Discount[]> {
+    const discounts: Discount[] = [];
+
+    if (request.automatic) {
+      const running = await this.getActivePromotions(asOf);
+      discounts.push(...running
+        .filter(promotion => unavailableReason(promotion, subtotal, asOf) === null)
+        .map(toDiscount));
+    }
+    if (request.couponCode) {
+      discounts.push(toDiscount(await this.lookupCoupon(tx, request.couponCode, subtotal, asOf)));
+    }
+    for (const manual of request.manual || []) {
+      discounts.push(this.toManualDiscount(manual));
+    }
+
+    return discounts;
+  }
+
+  /**
+   * Counts a use of each coupon and promotion behind the lines, enforcing usage caps.
+   * Runs in the transaction that saves the lines so a cap cannot be overrun.
+   */
+  async claimUsage(tx: Tx, lines: DiscountLine[]): Promise<void> {
+    for (const line of lines) {
+      if (!['coupon', 'promotion'].includes(line.source) || !line.reference) continue;
+
+      const [claimed] = await tx
+        .update(promotions)
+        .set({ usageCount: sql`${promotions.usageCount} + 1` })
+        .where(and(
+          eq(promotions.id, line.reference),
+          or(isNull(promotions.usageLimit), sql`${promotions.usageCount} < ${promotions.usageLimit}`)
+        ))
+        .returning({ id: promotions.id });
+
+      if (!claimed) {
+        throw new PromotionError('exhausted', `${line.label} has been fully redeemed`);
+      }
+    }
+  }
+
+  /**
+   * Gives back the uses of coupons and promotions whose lines were removed from an order
+   */
+  async releaseUsage(tx: Tx, lines: DiscountLine[]): Promise<void> {
+    const ids = lines
+      .filter(line => ['coupon', 'promotion'].includes(line.source) && line.reference)
+      .map(line => line.reference!);
+    if (ids.length === 0) return;
+
+    await tx
+      .update(promotions)
+      .set({ usageCount: sql`greatest(${promotions.usageCount} - 1, 0)` })
+      .where(inArray(promotions.id, ids));
+
+    structuredLogger.info('Promotion usage released', {
+      operation: 'promotion.release',
+      metadata: { promotionIds: ids }
+    });
+  }
+
+  private toManualDiscount(input: ManualDiscountInput): Discount {
+    if (!['percent', 'fixed'].includes(input.kind) || !(input.value > 0)) {
+      throw new PromotionError('invalid_request', 'Discounts need a kind of percent or fixed and a positive value');
+    }
+    if (input.kind === 'percent' && input.value > 100) {
+      throw new PromotionError('invalid_request', 'Percentage discounts cannot exceed 100%');
+    }
+
+    return {
+      source: 'manual',
+      label: input.label || (input.kind === 'percent' ? `${input.value}% discount` : 'Discount'),
+      kind: input.kind,
+      value: input.value,
+      category: input.category,
+      reference: randomUUID() // lets the line be removed on its own
+    };
+  }
+
+  private async assertCodeAvailable(code: string | null | undefined, excludeId?: string): Promise<void> {
+    if (!code) return;
+
+    const [existing] = await db
+      .select({ id: promotions.id })
+      .from(promotions)
+      .where(eq(promotions.code, normalizeCouponCode(code)))
+      .limit(1);
+
+    if (existing && existing.id !== excludeId) {
+      throw new PromotionError('duplicate', `Coupon code ${normalizeCouponCode(code)} is already in use`);
+    }
+  }
+
+  private validatePromotion(input: PromotionInput): void {
+    if (!input.name) {
+      throw new PromotionError('invalid_request', 'Promotions need a name');
+    }
+    if (!(input.value > 0)) {
+      throw new PromotionError('invalid_request', 'Promotion value must be positive');
+    }
+    if (input.kind === 'percent' && input.value > 100) {
+      throw new PromotionError('invalid_request', 'Percentage promotions cannot exceed 100%');
+    }
+    if (input.startsAt && input.endsAt && input.endsAt <= input.startsAt) {
+      throw new PromotionError('invalid_request', 'Promotion must end after it starts');
+    }
+  }
+
+  private toPromotionColumns(input: PromotionInput) {
+    return {
+      name: input.name,
+      code: input.code ? normalizeCouponCode(input.code) : null,
+      kind: input.kind,
+      value: input.value.toFixed(2),
+      category: input.category || 'order',
+      minSubtotal: input.minSubtotal != null ? input.minSubtotal.toFixed(2) : null,
+      startsAt: input.startsAt ?? null,
+      endsAt: input.endsAt ?? null,
+      usageLimit: input.usageLimit ?? null,
+      active: input.active ?? true
+    };
+  }
+}
+
+export const promotionService = new PromotionService();
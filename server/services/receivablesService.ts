@@ -0,0 +1,230 @@
+/**
+ * Receivables Service
+ * Accounts receivable aging for partially paid and completed-but-unpaid orders
+ */
+
+import { db } from '../db';
+import { orders, customers, Order } from '../../shared/schema';
+import { eq, and, or, ne, asc, inArray, notInArray, sql } from 'drizzle-orm';
+import { ArBucket, ArTotals, AR_BUCKETS, AR_BUCKET_LABELS, arBucket, daysBetween, sumAr } from '../../shared/receivables';
+import { toCsv } from '../../shared/csv';
+
+// Quotes and cancelled orders never become receivables
+const NON_BILLABLE_STATUSES = ['quote', 'cancelled'];
+
+const NO_CUSTOMER_NAME = 'No customer';
+
+// One order with an outstanding balance
+export interface ReceivableLine {
+  orderId: string;
+  orderNumber: string;
+  customerId: string | null;
+  customerName: string;
+  status: string;
+  paymentStatus: string;
+  tradeAccountId: string | null;
+  receivableSince: string;
+  dueDate: string | null;
+  total: number;
+  amountPaid: number;
+  balance: number;
+  daysOutstanding: number;
+  bucket: ArBucket;
+}
+
+export interface CustomerAging {
+  customerId: string | null;
+  customerName: string;
+  email: string | null;
+  phone: string | null;
+  orderCount: number;
+  balance: number;
+  oldestDays: number;
+  aging: ArTotals;
+}
+
+export interface AgingReport {
+  asOf: string;
+  orderCount: number;
+  balance: number;
+  totals: ArTotals;
+  customers: CustomerAging[];
+}
+
+export interface CustomerAgingDetail extends CustomerAging {
+  asOf: string;
+  orders: ReceivableLine[];
+}
+
+export interface ReceivablesFilter {
+  customerId?: string;
+  bucket?: ArBucket;
+}
+
+export type ReceivablesErrorCode = 'not_found';
+
+export class ReceivablesError extends Error {
+  constructor(public readonly code: ReceivablesErrorCode, message: string) {
+    super(message);
+    this.name = 'ReceivablesError';
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class ReceivablesService {
+  /**
+   * Orders with an outstanding balance as of `asOf`: partially paid orders at any stage,
+   * and completed orders with nothing paid. Ages run from the invoice date for account
+   * orders, the completion date for other completed orders, and otherwise the order date.
+   */
+  async getOpenReceivables(asOf: Date = new Date(), filter: ReceivablesFilter = {}): Promise<ReceivableLine[]> {
+    const rows = await db
+      .select({
+        order: orders,
+        customerName: customers.name
+      })
+      .from(orders)
+      .leftJoin(customers, eq(orders.customerId, customers.id))
+      .where(and(
+        notInArray(orders.status, NON_BILLABLE_STATUSES),
+        ne(orders.paymentStatus, 'refunded'),
+        or(eq(orders.paymentStatus, 'partial'), eq(orders.status, 'completed')),
+        sql`${orders.total} - coalesce(${orders.amountPaid}, 0) > 0.005`,
+        filter.customerId ? eq(orders.customerId, filter.customerId) : undefined
+      ))
+      .orderBy(asc(orders.createdAt));
+
+    return rows
+      .map(({ order, customerName }) => this.toLine(order, customerName, asOf))
+      .filter(line => line.daysOutstanding >= 0 && (!filter.bucket || line.bucket === filter.bucket));
+  }
+
+  /**
+   * Outstanding balances by customer, largest first, with totals per bucket
+   */
+  async getAgingReport(asOf: Date = new Date()): Promise<AgingReport> {
+    const lines = await this.getOpenReceivables(asOf);
+
+    const byCustomer = new Map<string | null, ReceivableLine[]>();
+    for (const line of lines) {
+      byCustomer.set(line.customerId, [...(byCustomer.get(line.customerId) || []), line]);
+    }
+
+    const contacts = await this.getContacts([...byCustomer.keys()].filter((id): id is string => id !== null));
+    const customerRows = [...byCustomer.entries()]
+      .map(([customerId, customerLines]) => this.summarize(customerId, customerLines, contacts.get(customerId ?? '')))
+      .sort((a, b) => b.balance - a.balance);
+
+    return {
+      asOf: asOf.toISOString(),
+      orderCount: lines.length,
+      balance: round(lines.reduce((sum, line) => sum + line.balance, 0)),
+      totals: sumAr(lines),
+      customers: customerRows
+    };
+  }
+
+  /**
+   * One customer's open orders with their aging
+   */
+  async getCustomerAging(customerId: string, asOf: Date = new Date()): Promise<CustomerAgingDetail> {
+    const [customer] = await db
+      .select({ id: customers.id, name: customers.name, email: customers.email, phone: customers.phone })
+      .from(customers)
+      .where(eq(customers.id, customerId))
+      .limit(1);
+    if (!customer) {
+      throw new ReceivablesError('not_found', 'Customer not found');
+    }
+
+    const lines = await this.getOpenReceivables(asOf, { customerId });
+    return {
+      ...this.summarize(customerId, lines, customer),
+      asOf: asOf.toISOString(),
+      orders: lines
+    };
+  }
+
+  private toLine(order: Order, customerName: string | null, asOf: Date): ReceivableLine {
+    const since = order.invoicedAt ?? order.actualCompletion ?? order.createdAt ?? asOf;
+    const total = parseFloat(order.total);
+    const amountPaid = parseFloat(order.amountPaid || '0');
+    const daysOutstanding = daysBetween(since, asOf);
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      customerId: order.customerId,
+      customerName: customerName || NO_CUSTOMER_NAME,
+      status: order.status,
+      paymentStatus: order.paymentStatus || 'unpaid',
+      tradeAccountId: order.tradeAccountId,
+      receivableSince: since.toISOString(),
+      dueDate: order.dueDate ? order.dueDate.toISOString() : null,
+      total,
+      amountPaid,
+      balance: round(total - amountPaid),
+      daysOutstanding,
+      bucket: arBucket(daysOutstanding)
+    };
+  }
+
+  private summarize(
+    customerId: string | null,
+    lines: ReceivableLine[],
+    contact?: { name: string; email: string | null; phone: string | null }
+  ): CustomerAging {
+    return {
+      customerId,
+      customerName: contact?.name || lines[0]?.customerName || NO_CUSTOMER_NAME,
+      email: contact?.email ?? null,
+      phone: contact?.phone ?? null,
+      orderCount: lines.length,
+      balance: round(lines.reduce((sum, line) => sum + line.balance, 0)),
+      oldestDays: lines.reduce((max, line) => Math.max(max, line.daysOutstanding), 0),
+      aging: sumAr(lines)
+    };
+  }
+
+  private async getContacts(customerIds: string[]) {
+    const contacts = new Map<string, { name: string; email: string | null; phone: string | null }>();
+    if (customerIds.length === 0) return contacts;
+
+    const rows = await db
+      .select({ id: customers.id, name: customers.name, email: customers.email, phone: customers.phone })
+      .from(customers)
+      .where(inArray(customers.id, customerIds));
+    for (const row of rows) {
+      contacts.set(row.id, row);
+    }
+    return contacts;
+  }
+}
+
+export function agingReportToCsv(report: AgingReport): string {
+  return toCsv([
+    ['AR Aging', report.asOf],
+    [],
+    ['Customer', 'Email', 'Phone', 'Orders', 'Oldest (days)', ...AR_BUCKETS.map(bucket => AR_BUCKET_LABELS[bucket]), 'Balance'],
+    ...report.customers.map(row => [
+      row.customerName, row.email, row.phone, row.orderCount, row.oldestDays,
+      ...AR_BUCKETS.map(bucket => row.aging[bucket]), row.balance
+    ]),
+    [],
+    ['Total', '', '', report.orderCount, '', ...AR_BUCKETS.map(bucket => report.totals[bucket]), report.balance]
+  ]);
+}
+
+export function receivablesToCsv(lines: ReceivableLine[]): string {
+  return toCsv([
+    ['Order', 'Customer', 'Status', 'Payment Status', 'Receivable Since', 'Due Date', 'Total', 'Paid', 'Balance', 'Days Outstanding', 'Bucket'],
+    ...lines.map(line => [
+      line.orderNumber, line.customerName, line.status, line.paymentStatus,
+      line.receivableSince.slice(0, 10), line.dueDate?.slice(0, 10), line.total, line.amountPaid, line.balance,
+      line.daysOutstanding, AR_BUCKET_LABELS[line.bucket]
+    ])
+  ]);
+}
+
+export const receivablesService = new ReceivablesService();
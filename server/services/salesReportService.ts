@@ -0,0 +1,372 @@
+/**
+ * Sales Report Service
+ * Revenue, cost of goods and gross margin by material, category and period
+ */
+
+import { db } from '../db';
+import { orders, orderItems, orderMaterials, materials, Order, OrderItem } from '../../shared/schema';
+import { eq, and, gte, lt, ne, notInArray, sql } from 'drizzle-orm';
+import { DiscountLine } from '../../shared/pricing';
+
+export const SALES_DIMENSIONS = ['frameStyle', 'matType', 'glassType', 'complexity', 'priority', 'category'] as const;
+export type SalesDimension = typeof SALES_DIMENSIONS[number];
+
+export const SALES_INTERVALS = ['day', 'week', 'month'] as const;
+export type SalesInterval = typeof SALES_INTERVALS[number];
+
+// Dimensions each piece of a multi-piece order has its own value for
+const ITEM_DIMENSIONS = ['frameStyle', 'matType', 'glassType', 'complexity'] as const;
+type ItemDimension = typeof ITEM_DIMENSIONS[number];
+
+const isItemDimension = (dimension: SalesDimension | undefined): dimension is ItemDimension =>
+  (ITEM_DIMENSIONS as readonly string[]).includes(dimension || '');
+
+// Revenue and cost categories for the `category` dimension; labor includes the base fitting charge and rush fees
+export const SALES_CATEGORIES = ['frame', 'mat', 'glass', 'backing', 'labor', 'other'] as const;
+export type SalesCategory = typeof SALES_CATEGORIES[number];
+
+// materials.category values
+const MATERIAL_CATEGORIES: Record<string, SalesCategory> = {
+  frames: 'frame',
+  mats: 'mat',
+  glass: 'glass',
+  backing: 'backing'
+};
+
+// Quotes and cancelled orders are not sales
+const NON_SALE_STATUSES = ['quote', 'cancelled'];
+
+const UNSPECIFIED = 'unspecified';
+
+export interface SalesReportQuery {
+  from: Date;
+  to: Date;
+  groupBy?: SalesDimension;
+  interval?: SalesInterval;
+}
+
+export interface SalesFigures {
+  orderCount: number;
+  revenue: number; // subtotal after discounts, before tax
+  cogs: number;
+  margin: number;
+  marginPercent: number | null; // null without revenue
+}
+
+export interface SalesRow extends SalesFigures {
+  period?: string; // day or week start (YYYY-MM-DD), or month (YYYY-MM)
+  value?: string; // groupBy value
+  previous: SalesFigures;
+  revenueChangePercent: number | null; // null when the previous period had no revenue
+}
+
+export interface SalesReport {
+  from: string;
+  to: string;
+  previousFrom: string;
+  previousTo: string;
+  groupBy: SalesDimension | null;
+  interval: SalesInterval | null;
+  totals: SalesRow;
+  rows: SalesRow[];
+}
+
+// Revenue and cost one order contributes to one row
+interface Contribution {
+  orderId: string;
+  period?: string;
+  value?: string;
+  revenue: number;
+  cogs: number;
+}
+
+type ItemRow = Pick<OrderItem, 'orderId' | ItemDimension | 'subtotal'>;
+
+type OrderRow = Pick<Order,
+  'id' | 'createdAt' | 'frameStyle' | 'matType' | 'glassType' | 'complexity' | 'priority' |
+  'basePrice' | 'framePrice' | 'matPrice' | 'glassPrice' | 'backingPrice' | 'laborPrice' | 'rushFee' |
+  'subtotal' | 'discount' | 'discountLines' | 'tax' | 'total'
+>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || '0') || 0;
+
+export class SalesReportService {
+  /**
+   * Sales for [from, to) against the period of the same length just before it.
+   * Orders count on the date they were placed. Previous-period rows line up with
+   * the current ones by their position in the period, so day 1 compares to day 1.
+   */
+  async getReport(query: SalesReportQuery): Promise<SalesReport> {
+    const length = query.to.getTime() - query.from.getTime();
+    const previousFrom = new Date(query.from.getTime() - length);
+
+    const rows = await this.loadOrders(previousFrom, query.to);
+    const costs = await this.loadCosts(previousFrom, query.to);
+    const items = isItemDimension(query.groupBy)
+      ? await this.loadItems(previousFrom, query.to)
+      : new Map<string, ItemRow[]>();
+
+    const current: Contribution[] = [];
+    const previous: Contribution[] = [];
+    for (const order of rows) {
+      const createdAt = order.createdAt!;
+      const isCurrent = createdAt >= query.from;
+      // Previous-period orders are bucketed as if they fell in the current period
+      const bucketDate = isCurrent ? createdAt : new Date(createdAt.getTime() + length);
+      const contributions = this.contributions(order, costs.get(order.id), items.get(order.id), query, bucketDate);
+      (isCurrent ? current : previous).push(...contributions);
+    }
+
+    const keys = new Map<string, { period?: string; value?: string }>();
+    for (const entry of [...current, ...previous]) {
+      keys.set(this.rowKey(entry), { period: entry.period, value: entry.value });
+    }
+
+    const reportRows = [...keys.entries()]
+      .map(([key, { period, value }]) => this.toRow(
+        current.filter(entry => this.rowKey(entry) === key),
+        previous.filter(entry => this.rowKey(entry) === key),
+        { period, value }
+      ))
+      .sort((a, b) => (a.period || '').localeCompare(b.period || '') || b.revenue - a.revenue);
+
+    return {
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+      previousFrom: previousFrom.toISOString(),
+      previousTo: query.from.toISOString(),
+      groupBy: query.groupBy || null,
+      interval: query.interval || null,
+      totals: this.toRow(current, previous, {}),
+      rows: reportRows
+    };
+  }
+
+  private async loadOrders(from: Date, to: Date): Promise<OrderRow[]> {
+    return db
+      .select({
+        id: orders.id,
+        createdAt: orders.createdAt,
+        frameStyle: orders.frameStyle,
+        matType: orders.matType,
+        glassType: orders.glassType,
+        complexity: orders.complexity,
+        priority: orders.priority,
+        basePrice: orders.basePrice,
+        framePrice: orders.framePrice,
+        matPrice: orders.matPrice,
+        glassPrice: orders.glassPrice,
+        backingPrice: orders.backingPrice,
+        laborPrice: orders.laborPrice,
+        rushFee: orders.rushFee,
+        subtotal: orders.subtotal,
+        discount: orders.discount,
+        discountLines: orders.discountLines,
+        tax: orders.tax,
+        total: orders.total
+      })
+      .from(orders)
+      .where(this.saleConditions(from, to));
+  }
+
+  /**
+   * Material cost per order and material category: unit cost times the quantity used,
+   * or the quantity needed while nothing has been recorded as used yet
+   */
+  private async loadCosts(from: Date, to: Date): Promise<Map<string, Partial<Record<SalesCategory, number>>>> {
+    const rows = await db
+      .select({
+        orderId: orderMaterials.orderId,
+        materialCategory: materials.category,
+        cost: sql<string>`coalesce(sum(
+          coalesce(${orderMaterials.unitCost}, ${materials.unitCost}, 0)
+          * case when coalesce(${orderMaterials.quantityUsed}, 0) > 0 then ${orderMaterials.quantityUsed} else ${orderMaterials.quantityNeeded} end
+        ), 0)`
+      })
+      .from(orderMaterials)
+      .innerJoin(materials, eq(orderMaterials.materialId, materials.id))
+      .innerJoin(orders, eq(orderMaterials.orderId, orders.id))
+      .where(this.saleConditions(from, to))
+      .groupBy(orderMaterials.orderId, materials.category);
+
+    const costs = new Map<string, Partial<Record<SalesCategory, number>>>();
+    for (const row of rows) {
+      const category = MATERIAL_CATEGORIES[row.materialCategory] || 'other';
+      const entry = costs.get(row.orderId) || {};
+      entry[category] = (entry[category] || 0) + amount(row.cost);
+      costs.set(row.orderId, entry);
+    }
+    return costs;
+  }
+
+  private async loadItems(from: Date, to: Date): Promise<Map<string, ItemRow[]>> {
+    const rows = await db
+      .select({
+        orderId: orderItems.orderId,
+        frameStyle: orderItems.frameStyle,
+        matType: orderItems.matType,
+        glassType: orderItems.glassType,
+        complexity: orderItems.complexity,
+        subtotal: orderItems.subtotal
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(this.saleConditions(from, to))
+      .orderBy(orderItems.orderId, orderItems.lineNumber);
+
+    const items = new Map<string, ItemRow[]>();
+    for (const row of rows) {
+      items.set(row.orderId, [...(items.get(row.orderId) || []), row]);
+    }
+    return items;
+  }
+
+  private saleConditions(from: Date, to: Date) {
+    return and(
+      gte(orders.createdAt, from),
+      lt(orders.createdAt, to),
+      notInArray(orders.status, NON_SALE_STATUSES),
+      ne(orders.paymentStatus, 'refunded')
+    );
+  }
+
+  private contributions(
+    order: OrderRow,
+    costs: Partial<Record<SalesCategory, number>> = {},
+    items: ItemRow[] = [],
+    query: SalesReportQuery,
+    bucketDate: Date
+  ): Contribution[] {
+    const period = query.interval ? periodKey(bucketDate, query.interval) : undefined;
+
+    if (query.groupBy === 'category') {
+      const revenue = categoryRevenue(order);
+      return SALES_CATEGORIES
+        .filter(category => (revenue[category] || 0) !== 0 || (costs[category] || 0) !== 0)
+        .map(category => ({
+          orderId: order.id,
+          period,
+          value: category,
+          revenue: revenue[category] || 0,
+          cogs: costs[category] || 0
+        }));
+    }
+
+    const revenue = netRevenue(order);
+    const cogs = Object.values(costs).reduce((sum, cost) => sum + (cost || 0), 0);
+
+    // Each piece takes its share of the order's discounted revenue and material cost by its subtotal
+    const dimension = query.groupBy;
+    if (isItemDimension(dimension) && items.length > 0) {
+      const subtotals = items.map(item => amount(item.subtotal));
+      const totalSubtotal = subtotals.reduce((sum, value) => sum + value, 0);
+      return items.map((item, index) => {
+        const share = totalSubtotal > 0 ? subtotals[index] / totalSubtotal : 1 / items.length;
+        return {
+          orderId: order.id,
+          period,
+          value: item[dimension] || UNSPECIFIED,
+          revenue: revenue * share,
+          cogs: cogs * share
+        };
+      });
+    }
+
+    return [{
+      orderId: order.id,
+      period,
+      value: query.groupBy ? order[query.groupBy] || UNSPECIFIED : undefined,
+      revenue,
+      cogs
+    }];
+  }
+
+  private rowKey(entry: { period?: string; value?: string }): string {
+    return `${entry.period ?? ''}|${entry.value ?? ''}`;
+  }
+
+  private toRow(current: Contribution[], previous: Contribution[], key: { period?: string; value?: string }): SalesRow {
+    const figures = summarize(current);
+    const before = summarize(previous);
+    return {
+      ...key,
+      ...figures,
+      previous: before,
+      revenueChangePercent: before.revenue !== 0
+        ? round((figures.revenue - before.revenue) / Math.abs(before.revenue) * 100)
+        : null
+    };
+  }
+}
+
+function summarize(entries: Contribution[]): SalesFigures {
+  const revenue = round(entries.reduce((sum, entry) => sum + entry.revenue, 0));
+  const cogs = round(entries.reduce((sum, entry) => sum + entry.cogs, 0));
+  const margin = round(revenue - cogs);
+  return {
+    orderCount: new Set(entries.map(entry => entry.orderId)).size,
+    revenue,
+    cogs,
+    margin,
+    marginPercent: revenue !== 0 ? round(margin / revenue * 100) : null
+  };
+}
+
+function netRevenue(order: OrderRow): number {
+  const subtotal = order.subtotal !== null ? amount(order.subtotal) : amount(order.total) - amount(order.tax);
+  return subtotal - amount(order.discount);
+}
+
+/**
+ * Net revenue split by category from the pricing breakdown. Category discount lines
+ * come off their own category; order discounts are spread by each category's share.
+ * Whatever the breakdown doesn't account for (orders priced before it was stored) is `other`.
+ */
+function categoryRevenue(order: OrderRow): Partial<Record<SalesCategory, number>> {
+  const net: Partial<Record<SalesCategory, number>> = {
+    frame: amount(order.framePrice),
+    mat: amount(order.matPrice),
+    glass: amount(order.glassPrice),
+    backing: amount(order.backingPrice),
+    labor: amount(order.basePrice) + amount(order.laborPrice) + amount(order.rushFee)
+  };
+
+  const lines: DiscountLine[] = order.discountLines
+    || (amount(order.discount) > 0 ? [{ source: 'manual', label: 'Discount', amount: amount(order.discount) }] : []);
+  let orderDiscount = 0;
+  for (const line of lines) {
+    if (!line.category || line.category === 'order') {
+      orderDiscount += line.amount;
+    } else {
+      net[line.category] = (net[line.category] || 0) - line.amount;
+    }
+  }
+
+  const beforeOrderDiscount = Object.values(net).reduce((sum, value) => sum + Math.max(0, value || 0), 0);
+  for (const category of Object.keys(net) as SalesCategory[]) {
+    const share = beforeOrderDiscount > 0 ? Math.max(0, net[category] || 0) / beforeOrderDiscount : 0;
+    net[category] = Math.max(0, (net[category] || 0) - orderDiscount * share);
+  }
+
+  const unallocated = netRevenue(order) - Object.values(net).reduce((sum, value) => sum + (value || 0), 0);
+  if (unallocated > 0.005) {
+    net.other = unallocated;
+  }
+  return net;
+}
+
+/**
+ * Day, week (starting Monday) or month a date falls in, in server local time
+ */
+function periodKey(date: Date, interval: SalesInterval): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  if (interval === 'month') {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  }
+  const offset = interval === 'week' ? (date.getDay() + 6) % 7 : 0;
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+}
+
+export const salesReportService = new SalesReportService();
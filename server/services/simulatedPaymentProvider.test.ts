@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimulatedPaymentProvider } from './simulatedPaymentProvider';
+import { PaymentProviderError } from './paymentProvider';
+
+const ORDER_ID = '5d0c8a4e-6f7b-4c1e-9a2d-3b8e7f6a1c90';
+
+describe('SimulatedPaymentProvider', () => {
+  let provider: SimulatedPaymentProvider;
+
+  beforeEach(() => {
+    provider = new SimulatedPaymentProvider();
+  });
+
+  const authorize = (capture: boolean, paymentMethodToken = 'tok_visa', idempotencyKey?: string) =>
+    provider.authorize({ orderId: ORDER_ID, amount: 120, paymentMethodToken, capture, idempotencyKey });
+
+  it('captures a sale in one step', async () => {
+    const sale = await authorize(true);
+
+    expect(sale.id).toMatch(/^sim_/);
+    expect(sale.status).toBe('captured');
+    expect(sale.amount).toBe(120);
+  });
+
+  it('declines the decline test tokens', async () => {
+    await expect(authorize(true, 'tok_insufficient_funds')).rejects.toMatchObject({
+      code: 'declined',
+      declineCode: 'insufficient_funds'
+    });
+  });
+
+  it('follows the script before the token', async () => {
+    provider.script({ outcome: 'decline', declineCode: 'do_not_honor' });
+
+    await expect(authorize(true)).rejects.toBeInstanceOf(PaymentProviderError);
+    await expect(authorize(true)).resolves.toMatchObject({ status: 'captured' });
+  });
+
+  it('returns the first result for a repeated idempotency key', async () => {
+    const first = await authorize(true, 'tok_visa', 'key-1');
+    const replay = await authorize(true, 'tok_decline', 'key-1');
+
+    expect(replay).toEqual(first);
+  });
+
+  it('captures part of an authorization', async () => {
+    const hold = await authorize(false);
+    expect(hold.status).toBe('authorized');
+
+    const captured = await provider.capture(hold.id, 80);
+
+    expect(captured.amount).toBe(80);
+    await expect(provider.capture(hold.id)).rejects.toMatchObject({ code: 'invalid_request' });
+  });
+
+  it('refunds no more than was captured', async () => {
+    const sale = await authorize(true);
+
+    const refund = await provider.refund(sale.id, 50);
+
+    expect(refund.id).toMatch(/^simre_/);
+    expect(refund.status).toBe('refunded');
+    expect(provider.getTransaction(sale.id)?.refunded).toBe(50);
+    await expect(provider.refund(sale.id, 70.01)).rejects.toMatchObject({ code: 'invalid_request' });
+  });
+
+  it('releases a hold and refunds a captured sale on void', async () => {
+    const hold = await authorize(false);
+    const sale = await authorize(true);
+
+    const released = await provider.void(hold.id, 'Customer changed their mind');
+    const reversed = await provider.void(sale.id, 'Rang up twice');
+
+    expect(released).toMatchObject({ status: 'voided', amount: 0 });
+    expect(reversed).toMatchObject({ status: 'refunded', amount: 120 });
+  });
+});
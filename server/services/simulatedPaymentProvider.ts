@@ -0,0 +1,200 @@
+/**
+ * Simulated Payment Provider
+ * In-process PaymentProvider for tests and local development.
+ * Outcomes can be scripted: declines, timeouts and partial captures.
+ */
+
+import { randomUUID } from 'crypto';
+import { Payment } from '../../shared/schema';
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderTransaction,
+  AuthorizeRequest,
+  ProviderEvent
+} from './paymentProvider';
+
+export type SimulatedOutcome =
+  | { outcome: 'approve' }
+  | { outcome: 'decline'; declineCode?: string; message?: string }
+  | { outcome: 'timeout'; afterMs?: number }
+  // Captures only part of the requested amount, as some card types allow
+  | { outcome: 'partial_capture'; amount: number };
+
+interface SimulatedTransaction {
+  id: string;
+  orderId: string;
+  authorized: number;
+  captured: number;
+  refunded: number;
+  status: 'authorized' | 'captured' | 'voided';
+}
+
+const TEST_TOKENS: Record<string, SimulatedOutcome> = {
+  tok_decline: { outcome: 'decline', declineCode: 'generic_decline' },
+  tok_insufficient_funds: { outcome: 'decline', declineCode: 'insufficient_funds' },
+  tok_timeout: { outcome: 'timeout' }
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class SimulatedPaymentProvider implements PaymentProvider {
+  readonly name = 'simulator';
+  private queue: SimulatedOutcome[] = [];
+  private transactions = new Map<string, SimulatedTransaction>();
+  private idempotency = new Map<string, ProviderTransaction>();
+
+  /**
+   * Queues outcomes for the next calls to authorize/capture/refund/void.
+   * Unscripted calls approve, unless the payment token is one of TEST_TOKENS.
+   */
+  script(...outcomes: SimulatedOutcome[]): this {
+    this.queue.push(...outcomes);
+    return this;
+  }
+
+  reset(): void {
+    this.queue = [];
+    this.transactions.clear();
+    this.idempotency.clear();
+  }
+
+  getTransaction(transactionId: string): SimulatedTransaction | undefined {
+    return this.transactions.get(transactionId);
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderTransaction> {
+    if (request.idempotencyKey && this.idempotency.has(request.idempotencyKey)) {
+      return this.idempotency.get(request.idempotencyKey)!;
+    }
+
+    const outcome = await this.next(TEST_TOKENS[request.paymentMethodToken]);
+    const transaction: SimulatedTransaction = {
+      id: `sim_${randomUUID().replace(/-/g, '').slice(0, 24)}`,
+      orderId: request.orderId,
+      authorized: round(request.amount),
+      captured: 0,
+      refunded: 0,
+      status: 'authorized'
+    };
+    this.transactions.set(transaction.id, transaction);
+
+    const result = request.capture
+      ? this.applyCapture(transaction, outcome.outcome === 'partial_capture' ? outcome.amount : undefined)
+      : this.toResult(transaction);
+
+    if (request.idempotencyKey) {
+      this.idempotency.set(request.idempotencyKey, result);
+    }
+    return result;
+  }
+
+  async capture(transactionId: string, amount?: number): Promise<ProviderTransaction> {
+    const outcome = await this.next();
+    const transaction = this.find(transactionId);
+
+    if (transaction.status !== 'authorized') {
+      throw new PaymentProviderError('invalid_request', `Transaction is ${transaction.status}`);
+    }
+
+    return this.applyCapture(transaction, outcome.outcome === 'partial_capture' ? outcome.amount : amount);
+  }
+
+  async refund(transactionId: string, amount: number): Promise<ProviderTransaction> {
+    await this.next();
+    const transaction = this.find(transactionId);
+    const refundable = round(transaction.captured - transaction.refunded);
+
+    if (amount > refundable + 0.005) {
+      throw new PaymentProviderError('invalid_request', `Only $${refundable.toFixed(2)} can be refunded`);
+    }
+
+    transaction.refunded = round(transaction.refunded + amount);
+    return {
+      id: `simre_${randomUUID().replace(/-/g, '').slice(0, 24)}`,
+      status: 'refunded',
+      amount: round(amount),
+      raw: { simulated: true, transactionId, refunded: transaction.refunded }
+    };
+  }
+
+  async void(transactionId: string, reason: string): Promise<ProviderTransaction> {
+    const transaction = this.find(transactionId);
+
+    if (transaction.status === 'captured') {
+      return this.refund(transactionId, round(transaction.captured - transaction.refunded));
+    }
+
+    await this.next();
+    transaction.status = 'voided';
+    return { ...this.toResult(transaction), raw: { simulated: true, reason } };
+  }
+
+  /**
+   * Accepts JSON events shaped like ProviderEvent, for replaying flows locally
+   */
+  async parseWebhook(rawBody: string | Buffer): Promise<ProviderEvent> {
+    try {
+      const event = JSON.parse(rawBody.toString());
+      return {
+        id: event.id || `simevt_${randomUUID()}`,
+        type: event.type || 'unknown',
+        transactionId: event.transactionId,
+        orderId: event.orderId,
+        amount: event.amount,
+        raw: event
+      };
+    } catch {
+      throw new PaymentProviderError('invalid_request', 'Simulator webhook body must be JSON');
+    }
+  }
+
+  ownsPayment(payment: Payment): boolean {
+    return (payment.transactionId || '').startsWith('sim_');
+  }
+
+  // Takes the next scripted outcome and throws for declines and timeouts
+  private async next(fallback?: SimulatedOutcome): Promise<SimulatedOutcome> {
+    const outcome = this.queue.shift() || fallback || { outcome: 'approve' };
+
+    if (outcome.outcome === 'decline') {
+      throw new PaymentProviderError('declined', outcome.message || 'Card declined', outcome.declineCode || 'generic_decline');
+    }
+    if (outcome.outcome === 'timeout') {
+      await new Promise(resolve => setTimeout(resolve, outcome.afterMs ?? 0));
+      throw new PaymentProviderError('timeout', 'Simulated processor timeout');
+    }
+
+    return outcome;
+  }
+
+  private applyCapture(transaction: SimulatedTransaction, amount?: number): ProviderTransaction {
+    const requested = amount !== undefined ? round(amount) : transaction.authorized;
+    if (requested > transaction.authorized + 0.005) {
+      throw new PaymentProviderError('invalid_request', 'Cannot capture more than was authorized');
+    }
+
+    transaction.captured = requested;
+    transaction.status = 'captured';
+    return this.toResult(transaction);
+  }
+
+  private find(transactionId: string): SimulatedTransaction {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) {
+      throw new PaymentProviderError('invalid_request', `Unknown transaction ${transactionId}`);
+    }
+    return transaction;
+  }
+
+  private toResult(transaction: SimulatedTransaction): ProviderTransaction {
+    return {
+      id: transaction.id,
+      status: transaction.status,
+      amount: transaction.status === 'captured' ? transaction.captured : transaction.status === 'voided' ? 0 : transaction.authorized,
+      raw: { simulated: true, ...transaction }
+    };
+  }
+}
+
+export const simulatedPaymentProvider = new SimulatedPaymentProvider();
@@ -0,0 +1,300 @@
+/**
+ * Stored Value Service
+ * Gift cards and per-customer store credit, both kept as ledgers
+ */
+
+import { db } from '../db';
+import { giftCards, giftCardLedger, storeCreditLedger, customers, GiftCard, GiftCardEntry, StoreCreditEntry } from '../../shared/schema';
+import { eq, desc, sql } from 'drizzle-orm';
+import { withTransaction } from '../utils/transactionHandler';
+import { generateGiftCardCode } from '../utils/idGenerator';
+import { structuredLogger } from '../utils/logger';
+
+type Tx = typeof db;
+
+// Payment methods that draw down a balance instead of taking money
+export const STORED_VALUE_METHODS = ['gift_card', 'store_credit'] as const;
+export type StoredValueMethod = typeof STORED_VALUE_METHODS[number];
+
+export function isStoredValueMethod(method: string): method is StoredValueMethod {
+  return (STORED_VALUE_METHODS as readonly string[]).includes(method);
+}
+
+export interface GiftCardWithBalance extends GiftCard {
+  balance: number;
+}
+
+export type StoredValueErrorCode = 'not_found' | 'invalid_request' | 'insufficient_balance' | 'inactive';
+
+export class StoredValueError extends Error {
+  constructor(public readonly code: StoredValueErrorCode, message: string) {
+    super(message);
+    this.name = 'StoredValueError';
+  }
+}
+
+// Identifies the balance a ledger entry applies to
+export type StoredValueAccount =
+  | { method: 'gift_card'; giftCardId: string }
+  | { method: 'store_credit'; customerId: string };
+
+export class StoredValueService {
+  async issueGiftCard(input: {
+    amount: number;
+    customerId?: string;
+    issuedBy?: string;
+    expiresAt?: Date;
+    reason?: string;
+  }): Promise<GiftCardWithBalance> {
+    if (!(input.amount > 0)) {
+      throw new StoredValueError('invalid_request', 'Gift card amount must be positive');
+    }
+
+    return withTransaction(async (tx) => {
+      // Codes are random; retry the rare collision rather than fail the sale
+      let card: GiftCard | undefined;
+      for (let attempt = 0; attempt < 5 && !card; attempt++) {
+        [card] = await tx.insert(giftCards).values({
+          code: generateGiftCardCode(),
+          customerId: input.customerId,
+          initialBalance: input.amount.toFixed(2),
+          issuedBy: input.issuedBy,
+          expiresAt: input.expiresAt
+        }).onConflictDoNothing({ target: giftCards.code }).returning();
+      }
+
+      if (!card) {
+        throw new Error('Could not generate a unique gift card code');
+      }
+
+      await tx.insert(giftCardLedger).values({
+        giftCardId: card.id,
+        amount: input.amount.toFixed(2),
+        entryType: 'issue',
+        reason: input.reason
+      });
+
+      structuredLogger.info('Gift card issued', {
+        operation: 'giftCard.issue',
+        metadata: { giftCardId: card.id, amount: input.amount }
+      });
+
+      return { ...card, balance: input.amount };
+    }, { operation: 'giftCard.issue', customerId: input.customerId });
+  }
+
+  async getGiftCardByCode(code: string): Promise<GiftCardWithBalance | null> {
+    const [card] = await db
+      .select()
+      .from(giftCards)
+      .where(eq(giftCards.code, code.trim().toUpperCase()))
+      .limit(1);
+
+    if (!card) return null;
+    return { ...card, balance: await this.getGiftCardBalance(db, card.id) };
+  }
+
+  async listCustomerGiftCards(customerId: string): Promise<GiftCardWithBalance[]> {
+    const cards = await db
+      .select({
+        card: giftCards,
+        balance: sql<string>`coalesce((select sum(${giftCardLedger.amount}) from ${giftCardLedger} where ${giftCardLedger.giftCardId} = ${giftCards.id}), 0)`
+      })
+      .from(giftCards)
+      .where(eq(giftCards.customerId, customerId))
+      .orderBy(desc(giftCards.createdAt));
+
+    return cards.map(({ card, balance }) => ({ ...card, balance: parseFloat(balance) }));
+  }
+
+  async getGiftCardHistory(giftCardId: string): Promise<GiftCardEntry[]> {
+    return db
+      .select()
+      .from(giftCardLedger)
+      .where(eq(giftCardLedger.giftCardId, giftCardId))
+      .orderBy(desc(giftCardLedger.createdAt));
+  }
+
+  async getGiftCardBalance(tx: Tx, giftCardId: string): Promise<number> {
+    const [result] = await tx
+      .select({ balance: sql<string>`coalesce(sum(${giftCardLedger.amount}), 0)` })
+      .from(giftCardLedger)
+      .where(eq(giftCardLedger.giftCardId, giftCardId));
+
+    return parseFloat(result?.balance || '0');
+  }
+
+  async getStoreCreditBalance(tx: Tx, customerId: string): Promise<number> {
+    const [result] = await tx
+      .select({ balance: sql<string>`coalesce(sum(${storeCreditLedger.amount}), 0)` })
+      .from(storeCreditLedger)
+      .where(eq(storeCreditLedger.customerId, customerId));
+
+    return parseFloat(result?.balance || '0');
+  }
+
+  async getStoreCreditHistory(customerId: string): Promise<StoreCreditEntry[]> {
+    return db
+      .select()
+      .from(storeCreditLedger)
+      .where(eq(storeCreditLedger.customerId, customerId))
+      .orderBy(desc(storeCreditLedger.createdAt));
+  }
+
+  /**
+   * Manual store credit change (goodwill credit, correction). Cannot take the balance below zero.
+   */
+  async adjustStoreCredit(customerId: string, amount: number, reason: string): Promise<number> {
+    if (!amount || !reason?.trim()) {
+      throw new StoredValueError('invalid_request', 'A non-zero amount and a reason are required');
+    }
+
+    return withTransaction(async (tx) => {
+      await this.lockAccount(tx, { method: 'store_credit', customerId });
+      const balance = await this.getStoreCreditBalance(tx, customerId);
+
+      if (balance + amount < -0.005) {
+        throw new StoredValueError('insufficient_balance', `Store credit balance is $${balance.toFixed(2)}`);
+      }
+
+      await tx.insert(storeCreditLedger).values({
+        customerId,
+        amount: amount.toFixed(2),
+        entryType: 'adjustment',
+        reason
+      });
+
+      return Math.round((balance + amount) * 100) / 100;
+    }, { operation: 'storeCredit.adjust', customerId });
+  }
+
+  /**
+   * Resolves the account a stored-value payment draws on and locks it
+   * for the rest of the transaction so concurrent redemptions cannot overdraw it.
+   */
+  async resolveAccount(
+    tx: Tx,
+    method: StoredValueMethod,
+    ref: { giftCardCode?: string; customerId?: string | null }
+  ): Promise<StoredValueAccount> {
+    if (method === 'gift_card') {
+      if (!ref.giftCardCode) {
+        throw new StoredValueError('invalid_request', 'A gift card code is required');
+      }
+
+      const [card] = await tx
+        .select()
+        .from(giftCards)
+        .where(eq(giftCards.code, ref.giftCardCode.trim().toUpperCase()))
+        .for('update')
+        .limit(1);
+
+      if (!card) {
+        throw new StoredValueError('not_found', 'Gift card not found');
+      }
+      if (card.status !== 'active' || (card.expiresAt && new Date(card.expiresAt) < new Date())) {
+        throw new StoredValueError('inactive', 'Gift card is not active');
+      }
+
+      return { method, giftCardId: card.id };
+    }
+
+    if (!ref.customerId) {
+      throw new StoredValueError('invalid_request', 'Order has no customer to draw store credit from');
+    }
+
+    const account: StoredValueAccount = { method, customerId: ref.customerId };
+    await this.lockAccount(tx, account);
+    return account;
+  }
+
+  /**
+   * Draws down an account for a payment; partial redemption is allowed up to the balance
+   */
+  async redeem(
+    tx: Tx,
+    account: StoredValueAccount,
+    amount: number,
+    link: { orderId: string; paymentId: string }
+  ): Promise<number> {
+    const balance = account.method === 'gift_card'
+      ? await this.getGiftCardBalance(tx, account.giftCardId)
+      : await this.getStoreCreditBalance(tx, account.customerId);
+
+    if (amount > balance + 0.005) {
+      throw new StoredValueError(
+        'insufficient_balance',
+        `${account.method === 'gift_card' ? 'Gift card' : 'Store credit'} balance is $${balance.toFixed(2)}`
+      );
+    }
+
+    await this.insertEntry(tx, account, -amount, 'redemption', link);
+    return Math.round((balance - amount) * 100) / 100;
+  }
+
+  /**
+   * Puts value back on an account, for refunds and voids of stored-value payments
+   */
+  async restore(
+    tx: Tx,
+    account: StoredValueAccount,
+    amount: number,
+    link: { orderId: string; paymentId: string; reason?: string }
+  ): Promise<void> {
+    await this.lockAccount(tx, account);
+    await this.insertEntry(tx, account, amount, 'reversal', link);
+  }
+
+  /**
+   * Adds to a customer's store credit, for refunds paid out as store credit
+   */
+  async credit(
+    tx: Tx,
+    customerId: string,
+    amount: number,
+    link: { orderId: string; paymentId: string; reason?: string }
+  ): Promise<void> {
+    const account: StoredValueAccount = { method: 'store_credit', customerId };
+    await this.lockAccount(tx, account);
+    await this.insertEntry(tx, account, amount, 'refund', link);
+  }
+
+  private async lockAccount(tx: Tx, account: StoredValueAccount): Promise<void> {
+    if (account.method === 'gift_card') {
+      await tx.select({ id: giftCards.id }).from(giftCards).where(eq(giftCards.id, account.giftCardId)).for('update');
+    } else {
+      // Store credit has no account row; the customer row serializes changes to it
+      await tx.select({ id: customers.id }).from(customers).where(eq(customers.id, account.customerId)).for('update');
+    }
+  }
+
+  private async insertEntry(
+    tx: Tx,
+    account: StoredValueAccount,
+    amount: number,
+    entryType: string,
+    link: { orderId: string; paymentId: string; reason?: string }
+  ): Promise<void> {
+    if (account.method === 'gift_card') {
+      await tx.insert(giftCardLedger).values({
+        giftCardId: account.giftCardId,
+        amount: amount.toFixed(2),
+        entryType,
+        orderId: link.orderId,
+        paymentId: link.paymentId,
+        reason: link.reason
+      });
+    } else {
+      await tx.insert(storeCreditLedger).values({
+        customerId: account.customerId,
+        amount: amount.toFixed(2),
+        entryType,
+        orderId: link.orderId,
+        paymentId: link.paymentId,
+        reason: link.reason
+      });
+    }
+  }
+}
+
+export const storedValueService = new StoredValueService();
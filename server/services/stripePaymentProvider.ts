@@ -0,0 +1,173 @@
+/**
+ * Stripe Payment Provider
+ * PaymentProvider backed by Stripe PaymentIntents
+ */
+
+import Stripe from 'stripe';
+import { Payment } from '../../shared/schema';
+import { circuitBreakers } from '../middleware/circuitBreaker';
+import { structuredLogger } from '../utils/logger';
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderTransaction,
+  AuthorizeRequest,
+  ProviderEvent,
+  ProviderEventType
+} from './paymentProvider';
+
+const EVENT_TYPES: Record<string, ProviderEventType> = {
+  'payment_intent.succeeded': 'payment.captured',
+  'payment_intent.payment_failed': 'payment.failed',
+  'payment_intent.canceled': 'payment.voided',
+  'charge.refunded': 'refund.succeeded'
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const raw = (object: unknown) => object as Record<string, any>;
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  private client: Stripe | null;
+
+  constructor(secretKey = process.env.STRIPE_SECRET_KEY) {
+    this.client = secretKey ? new Stripe(secretKey, { timeout: 20000, maxNetworkRetries: 1 }) : null;
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderTransaction> {
+    const intent = await this.call(client => client.paymentIntents.create({
+      amount: toCents(request.amount),
+      currency: 'usd',
+      payment_method: request.paymentMethodToken,
+      confirm: true,
+      capture_method: request.capture ? 'automatic' : 'manual',
+      description: request.description,
+      metadata: { order_id: request.orderId },
+      automatic_payment_methods: { enabled: true, allow_redirects: 'never' }
+    }, request.idempotencyKey ? { idempotencyKey: request.idempotencyKey } : undefined));
+
+    return this.fromIntent(intent);
+  }
+
+  async capture(transactionId: string, amount?: number): Promise<ProviderTransaction> {
+    const intent = await this.call(client => client.paymentIntents.capture(
+      transactionId,
+      amount !== undefined ? { amount_to_capture: toCents(amount) } : {}
+    ));
+
+    return this.fromIntent(intent);
+  }
+
+  async refund(transactionId: string, amount: number, reason: string, metadata: Record<string, string> = {}): Promise<ProviderTransaction> {
+    const refund = await this.call(client => client.refunds.create({
+      ...(transactionId.startsWith('ch_') ? { charge: transactionId } : { payment_intent: transactionId }),
+      amount: toCents(amount),
+      metadata: { ...metadata, reason }
+    }));
+
+    structuredLogger.info('Stripe refund created', {
+      integration: 'stripe',
+      operation: 'payment.refund',
+      metadata: { refundId: refund.id, transactionId, amount }
+    });
+
+    return { id: refund.id, status: 'refunded', amount: refund.amount / 100, raw: raw(refund) };
+  }
+
+  async void(transactionId: string, reason: string): Promise<ProviderTransaction> {
+    if (transactionId.startsWith('pi_')) {
+      const intent = await this.call(client => client.paymentIntents.retrieve(transactionId));
+      if (intent.status === 'requires_capture') {
+        const cancelled = await this.call(client =>
+          client.paymentIntents.cancel(transactionId, { cancellation_reason: 'requested_by_customer' })
+        );
+        return this.fromIntent(cancelled);
+      }
+
+      return this.refund(transactionId, intent.amount_received / 100, reason);
+    }
+
+    const charge = await this.call(client => client.charges.retrieve(transactionId));
+    return this.refund(transactionId, (charge.amount_captured - charge.amount_refunded) / 100, reason);
+  }
+
+  async parseWebhook(rawBody: string | Buffer, signature: string | undefined): Promise<ProviderEvent> {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!signature || !secret) {
+      throw new PaymentProviderError('invalid_signature', 'Missing Stripe signature or webhook secret');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.getClient().webhooks.constructEvent(rawBody, signature, secret);
+    } catch (error) {
+      throw new PaymentProviderError('invalid_signature', (error as Error).message);
+    }
+
+    const object = event.data.object as Stripe.PaymentIntent | Stripe.Charge;
+    const transactionId = object.object === 'charge'
+      ? (typeof object.payment_intent === 'string' ? object.payment_intent : object.id)
+      : object.id;
+
+    return {
+      id: event.id,
+      type: EVENT_TYPES[event.type] || 'unknown',
+      transactionId,
+      orderId: object.metadata?.order_id,
+      amount: object.object === 'charge' ? object.amount_refunded / 100 : object.amount_received / 100,
+      raw: raw(event)
+    };
+  }
+
+  ownsPayment(payment: Payment): boolean {
+    const transactionId = payment.transactionId || '';
+    return transactionId.startsWith('pi_') || transactionId.startsWith('ch_');
+  }
+
+  private fromIntent(intent: Stripe.PaymentIntent): ProviderTransaction {
+    switch (intent.status) {
+      case 'succeeded':
+        return { id: intent.id, status: 'captured', amount: intent.amount_received / 100, raw: raw(intent) };
+      case 'requires_capture':
+        return { id: intent.id, status: 'authorized', amount: intent.amount_capturable / 100, raw: raw(intent) };
+      case 'canceled':
+        return { id: intent.id, status: 'voided', amount: 0, raw: raw(intent) };
+      default: {
+        const error = intent.last_payment_error;
+        throw new PaymentProviderError(
+          'declined',
+          error?.message || `Payment ${intent.status}`,
+          error?.decline_code || error?.code
+        );
+      }
+    }
+  }
+
+  private getClient(): Stripe {
+    if (!this.client) {
+      throw new PaymentProviderError('provider_error', 'Stripe is not configured');
+    }
+    return this.client;
+  }
+
+  // Runs a Stripe call through the circuit breaker and maps Stripe errors
+  private async call<T>(operation: (client: Stripe) => Promise<T>): Promise<T> {
+    const client = this.getClient();
+    try {
+      return await circuitBreakers.stripe.execute(() => operation(client));
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeCardError) {
+        throw new PaymentProviderError('declined', error.message, error.decline_code || error.code);
+      }
+      if (error instanceof Stripe.errors.StripeConnectionError) {
+        throw new PaymentProviderError('timeout', error.message);
+      }
+      if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+        throw new PaymentProviderError('invalid_request', error.message);
+      }
+      throw new PaymentProviderError('provider_error', (error as Error).message);
+    }
+  }
+}
+
+export const stripePaymentProvider = new StripePaymentProvider();
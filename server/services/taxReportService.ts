@@ -0,0 +1,270 @@
+/**
+ * Tax Report Service
+ * Sales tax liability by location, jurisdiction and rate, net of refunds and adjustments
+ */
+
+import { db } from '../db';
+import { orders, payments, taxEvents, TaxEvent } from '../../shared/schema';
+import { toCsv } from '../../shared/csv';
+import { eq, and, gte, lt, ne, inArray, notInArray } from 'drizzle-orm';
+import { TAX_REPORTING_BASIS, TaxReportingBasis, OrderTaxAmounts, orderTaxAmounts } from './taxService';
+import { EXCLUDED_PAYMENT_STATUSES } from './paymentService';
+
+export interface TaxReportQuery {
+  from: Date;
+  to: Date;
+}
+
+export interface TaxLiabilityFigures {
+  orderCount: number;
+  taxableSales: number;
+  exemptSales: number;
+  taxCollected: number;
+  // Refunds, voids and, on the accrual basis, cancellations and later discounts on earlier sales
+  refundedTaxable: number;
+  refundedExempt: number;
+  refundedTax: number;
+  netTaxableSales: number;
+  netExemptSales: number;
+  taxDue: number;
+}
+
+export interface TaxLiabilityRow extends TaxLiabilityFigures {
+  location: string;
+  jurisdiction: string | null;
+  rate: number; // effective rate on the order; 0 for exempt customers
+}
+
+export interface TaxLiabilityReport {
+  basis: TaxReportingBasis;
+  from: string;
+  to: string;
+  totals: TaxLiabilityFigures;
+  rows: TaxLiabilityRow[];
+}
+
+// Signed amounts one sale (positive) or adjustment (usually negative) reports in the period
+type TaxEntry = OrderTaxAmounts & { orderId: string };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || '0') || 0;
+
+const scale = (orderId: string, amounts: OrderTaxAmounts, share: number): TaxEntry => ({
+  ...amounts,
+  orderId,
+  taxable: amounts.taxable * share,
+  exempt: amounts.exempt * share,
+  tax: amounts.tax * share
+});
+
+const taxedOrderColumns = {
+  id: orders.id,
+  subtotal: orders.subtotal,
+  discount: orders.discount,
+  tax: orders.tax,
+  taxRate: orders.taxRate,
+  taxDetails: orders.taxDetails,
+  total: orders.total
+};
+
+export class TaxReportService {
+  /**
+   * Tax liability for [from, to) on the store's reporting basis. On the accrual basis
+   * an order is reported in full when it becomes a sale, and refunds, voids, cancellations
+   * and later discounts come off in the period they happen. On the cash basis each payment,
+   * refund and void reports its share of the order's sales and tax on the day it was taken.
+   * Neither basis looks at the order's current status, so a filed period doesn't change.
+   */
+  async getReport(query: TaxReportQuery): Promise<TaxLiabilityReport> {
+    const basis = TAX_REPORTING_BASIS;
+    const { sales, adjustments } = basis === 'accrual'
+      ? await this.accrualEntries(query.from, query.to)
+      : {
+        sales: await this.ledgerEntries(query.from, query.to, 'payments'),
+        adjustments: await this.ledgerEntries(query.from, query.to, 'reversals')
+      };
+
+    const groups = new Map<string, { row: Omit<TaxLiabilityRow, keyof TaxLiabilityFigures>; sales: TaxEntry[]; adjustments: TaxEntry[] }>();
+    const add = (entry: TaxEntry, kind: 'sales' | 'adjustments') => {
+      const key = `${entry.location}|${entry.jurisdiction ?? ''}|${entry.rate.toFixed(4)}`;
+      const group = groups.get(key)
+        || { row: { location: entry.location, jurisdiction: entry.jurisdiction, rate: entry.rate }, sales: [], adjustments: [] };
+      group[kind].push(entry);
+      groups.set(key, group);
+    };
+    sales.forEach(entry => add(entry, 'sales'));
+    adjustments.forEach(entry => add(entry, 'adjustments'));
+
+    const rows = [...groups.values()]
+      .map(group => ({ ...group.row, ...this.summarize(group.sales, group.adjustments) }))
+      .sort((a, b) => a.location.localeCompare(b.location)
+        || (a.jurisdiction || '').localeCompare(b.jurisdiction || '')
+        || b.rate - a.rate);
+
+    return {
+      basis,
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+      totals: this.summarize(sales, adjustments),
+      rows
+    };
+  }
+
+  /**
+   * Replays the tax events and refunds of every order with activity in the period, from its
+   * first sale, and keeps what happened in [from, to). A refund takes off its share of what is
+   * left of the sale; a cancellation takes off the rest, so refunds issued after it are not
+   * counted again.
+   */
+  private async accrualEntries(from: Date, to: Date): Promise<{ sales: TaxEntry[]; adjustments: TaxEntry[] }> {
+    const reversed = and(ne(payments.kind, 'payment'), notInArray(payments.status, EXCLUDED_PAYMENT_STATUSES));
+    const eventOrders = await db
+      .selectDistinct({ orderId: taxEvents.orderId })
+      .from(taxEvents)
+      .where(and(gte(taxEvents.createdAt, from), lt(taxEvents.createdAt, to)));
+    const reversalOrders = await db
+      .selectDistinct({ orderId: payments.orderId })
+      .from(payments)
+      .where(and(gte(payments.createdAt, from), lt(payments.createdAt, to), reversed));
+    const orderIds = [...new Set([...eventOrders, ...reversalOrders].map(row => row.orderId))];
+    if (orderIds.length === 0) return { sales: [], adjustments: [] };
+
+    const events = await db
+      .select()
+      .from(taxEvents)
+      .where(and(inArray(taxEvents.orderId, orderIds), lt(taxEvents.createdAt, to)));
+    const reversals = await db
+      .select({ orderId: payments.orderId, amount: payments.amount, createdAt: payments.createdAt })
+      .from(payments)
+      .where(and(inArray(payments.orderId, orderIds), lt(payments.createdAt, to), reversed));
+
+    const sales: TaxEntry[] = [];
+    const adjustments: TaxEntry[] = [];
+
+    for (const orderId of orderIds) {
+      const history = [
+        ...events.filter(event => event.orderId === orderId).map(event => ({ at: event.createdAt!, event })),
+        ...reversals.filter(row => row.orderId === orderId).map(row => ({ at: row.createdAt!, refunded: -amount(row.amount) }))
+      ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+      let sale: { amounts: OrderTaxAmounts; total: number } | null = null;
+      let refunded = 0;
+      // Part of the sale not yet refunded
+      const remaining = () => sale && sale.total > 0
+        ? scale(orderId, sale.amounts, Math.max(0, 1 - refunded / sale.total))
+        : null;
+
+      for (const step of history) {
+        const reported = step.at >= from;
+        const before = remaining();
+
+        if ('refunded' in step) {
+          if (!sale) continue;
+          refunded += step.refunded;
+        } else if (step.event.event === 'sale') {
+          sale = this.snapshot(step.event);
+          refunded = 0;
+          if (reported) sales.push(scale(orderId, sale.amounts, 1));
+          continue;
+        } else if (step.event.event === 'discount') {
+          if (!sale) continue;
+          sale = this.snapshot(step.event);
+        } else {
+          sale = null;
+        }
+
+        const after = remaining();
+        if (reported && before) adjustments.push(scale(orderId, before, -1));
+        if (reported && after) adjustments.push(after);
+      }
+    }
+
+    return { sales, adjustments };
+  }
+
+  private snapshot(event: TaxEvent): { amounts: OrderTaxAmounts; total: number } {
+    return {
+      amounts: {
+        location: event.location,
+        jurisdiction: event.jurisdiction,
+        rate: amount(event.rate),
+        taxable: amount(event.taxable),
+        exempt: amount(event.exempt),
+        tax: amount(event.tax)
+      },
+      total: amount(event.total)
+    };
+  }
+
+  /**
+   * Ledger rows taken in the period as a share of their order's total:
+   * `payments` only, or every `reversals` (refunds and voids)
+   */
+  private async ledgerEntries(from: Date, to: Date, kind: 'payments' | 'reversals'): Promise<TaxEntry[]> {
+    const rows = await db
+      .select({ paid: payments.amount, order: taxedOrderColumns })
+      .from(payments)
+      .innerJoin(orders, eq(payments.orderId, orders.id))
+      .where(and(
+        gte(payments.createdAt, from),
+        lt(payments.createdAt, to),
+        kind === 'payments' ? eq(payments.kind, 'payment') : ne(payments.kind, 'payment'),
+        notInArray(payments.status, EXCLUDED_PAYMENT_STATUSES)
+      ));
+
+    return rows
+      .filter(({ order }) => amount(order.total) > 0)
+      .map(({ paid, order }) => scale(order.id, orderTaxAmounts(order), amount(paid) / amount(order.total)));
+  }
+
+  private summarize(sales: TaxEntry[], adjustments: TaxEntry[]): TaxLiabilityFigures {
+    const total = (entries: TaxEntry[], field: 'taxable' | 'exempt' | 'tax') =>
+      round(entries.reduce((sum, entry) => sum + entry[field], 0));
+
+    const taxableSales = total(sales, 'taxable');
+    const exemptSales = total(sales, 'exempt');
+    const taxCollected = total(sales, 'tax');
+    // Adjustments are negative when they reduce the sale; reported as positive amounts
+    const refundedTaxable = -total(adjustments, 'taxable');
+    const refundedExempt = -total(adjustments, 'exempt');
+    const refundedTax = -total(adjustments, 'tax');
+
+    return {
+      orderCount: new Set(sales.map(entry => entry.orderId)).size,
+      taxableSales,
+      exemptSales,
+      taxCollected,
+      refundedTaxable,
+      refundedExempt,
+      refundedTax,
+      netTaxableSales: round(taxableSales - refundedTaxable),
+      netExemptSales: round(exemptSales - refundedExempt),
+      taxDue: round(taxCollected - refundedTax)
+    };
+  }
+}
+
+export function taxReportToCsv(report: TaxLiabilityReport): string {
+  const figures = (line: TaxLiabilityFigures) => [
+    line.orderCount, line.taxableSales, line.exemptSales, line.taxCollected,
+    line.refundedTaxable, line.refundedExempt, line.refundedTax,
+    line.netTaxableSales, line.netExemptSales, line.taxDue
+  ];
+
+  const rows: unknown[][] = [
+    ['Sales Tax Liability', report.from.slice(0, 10), report.to.slice(0, 10)],
+    ['Basis', report.basis],
+    [],
+    [
+      'Location', 'Jurisdiction', 'Rate', 'Orders', 'Taxable Sales', 'Exempt Sales', 'Tax Collected',
+      'Refunded Taxable', 'Refunded Exempt', 'Refunded Tax', 'Net Taxable Sales', 'Net Exempt Sales', 'Tax Due'
+    ],
+    ...report.rows.map(line => [line.location, line.jurisdiction, line.rate, ...figures(line)]),
+    [],
+    ['Total', '', '', ...figures(report.totals)]
+  ];
+
+  return toCsv(rows);
+}
+
+export const taxReportService = new TaxReportService();
@@ -0,0 +1,231 @@
+/**
+ * Tax Service
+ * Sales tax rates by store location and tax category, and resale certificate exemptions
+ */
+
+import { db } from '../db';
+import { taxRates, taxEvents, customers, Customer, Order, TaxRate } from '../../shared/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { AppliedTax, DEFAULT_TAX_RATES, PricingBreakdown, TaxCalculation, TaxCategory, TaxRates, TAX_CATEGORIES } from '../../shared/pricing';
+import { structuredLogger } from '../utils/logger';
+
+type Tx = typeof db;
+
+// Location used when an order doesn't name one
+export const DEFAULT_TAX_LOCATION = process.env.STORE_LOCATION || 'main';
+
+export const TAX_REPORTING_BASES = ['accrual', 'cash'] as const;
+export type TaxReportingBasis = typeof TAX_REPORTING_BASES[number];
+
+// Basis the store files sales tax on: accrual reports orders when placed, cash when paid
+export const TAX_REPORTING_BASIS: TaxReportingBasis = process.env.TAX_REPORTING_BASIS === 'cash' ? 'cash' : 'accrual';
+
+// Rates in effect for an order, before the amounts are known
+export interface TaxContext {
+  location: string;
+  jurisdiction: string | null;
+  rates: TaxRates;
+  exemptCertificate?: string;
+}
+
+// An order's taxed amounts and where they are reported
+export interface OrderTaxAmounts {
+  location: string;
+  jurisdiction: string | null;
+  rate: number; // effective rate on the order; 0 for exempt customers
+  taxable: number;
+  exempt: number;
+  tax: number;
+}
+
+export type TaxedOrder = Pick<Order, 'subtotal' | 'discount' | 'tax' | 'taxRate' | 'taxDetails' | 'total'>;
+
+export interface TaxRateInput {
+  location: string;
+  category: TaxCategory;
+  rate: number;
+  jurisdiction?: string | null;
+}
+
+export type TaxErrorCode = 'not_found' | 'invalid_request';
+
+export class TaxError extends Error {
+  constructor(public readonly code: TaxErrorCode, message: string) {
+    super(message);
+    this.name = 'TaxError';
+  }
+}
+
+/**
+ * A customer is exempt only while a resale certificate is on file and unexpired
+ */
+export function isTaxExempt(
+  customer: Pick<Customer, 'taxExempt' | 'resaleCertificateNumber' | 'resaleCertificateExpiresAt'>,
+  asOf: Date = new Date()
+): boolean {
+  return customer.taxExempt
+    && Boolean(customer.resaleCertificateNumber)
+    && (!customer.resaleCertificateExpiresAt || customer.resaleCertificateExpiresAt > asOf);
+}
+
+/**
+ * What gets stored on the order: the rates used and the amounts they applied to
+ */
+export function toAppliedTax(context: TaxContext, calculation: TaxCalculation): AppliedTax {
+  return {
+    location: context.location,
+    jurisdiction: context.jurisdiction,
+    rates: context.rates,
+    taxable: calculation.taxable,
+    exempt: calculation.exempt,
+    ...(context.exemptCertificate ? { exemptCertificate: context.exemptCertificate } : {})
+  };
+}
+
+// Tax over the discounted subtotal, as stored in orders.taxRate
+export function effectiveTaxRate(breakdown: Pick<PricingBreakdown, 'subtotal' | 'discount' | 'tax'>): string {
+  const base = breakdown.subtotal - breakdown.discount;
+  return (base > 0 ? breakdown.tax / base : 0).toFixed(4);
+}
+
+// Quotes and cancelled orders are not sales
+export const NON_SALE_STATUSES = ['quote', 'cancelled'];
+
+export function isSaleStatus(status: string | null): boolean {
+  return status !== null && !NON_SALE_STATUSES.includes(status);
+}
+
+/**
+ * Taxable and exempt sales and tax on the whole order. Orders taxed before the
+ * amounts were recorded count as fully taxable when they were charged tax.
+ */
+export function orderTaxAmounts(order: TaxedOrder): OrderTaxAmounts {
+  const amount = (value: string | null | undefined) => parseFloat(value || '0') || 0;
+  const tax = amount(order.tax);
+  const subtotal = order.subtotal !== null ? amount(order.subtotal) : amount(order.total) - tax;
+  const net = subtotal - amount(order.discount);
+  const { taxable, exempt } = order.taxDetails || (tax > 0 ? { taxable: net, exempt: 0 } : { taxable: 0, exempt: net });
+
+  return {
+    location: order.taxDetails?.location || DEFAULT_TAX_LOCATION,
+    jurisdiction: order.taxDetails?.jurisdiction ?? null,
+    rate: order.taxRate !== null ? amount(order.taxRate) : (taxable > 0 ? Math.round(tax / taxable * 10000) / 10000 : 0),
+    taxable,
+    exempt,
+    tax
+  };
+}
+
+export class TaxService {
+  async listRates(location?: string): Promise<TaxRate[]> {
+    return db
+      .select()
+      .from(taxRates)
+      .where(location ? eq(taxRates.location, location) : undefined)
+      .orderBy(asc(taxRates.location), asc(taxRates.category));
+  }
+
+  /**
+   * Sets the rate for one location and category, replacing any existing rate
+   */
+  async setRate(input: TaxRateInput): Promise<TaxRate> {
+    if (!input.location) {
+      throw new TaxError('invalid_request', 'A location is required');
+    }
+    if (!TAX_CATEGORIES.includes(input.category)) {
+      throw new TaxError('invalid_request', `Tax category must be one of ${TAX_CATEGORIES.join(', ')}`);
+    }
+    if (!(input.rate >= 0 && input.rate < 1)) {
+      throw new TaxError('invalid_request', 'Rate must be a fraction between 0 and 1, e.g. 0.0875');
+    }
+
+    const values = {
+      location: input.location,
+      category: input.category,
+      rate: input.rate.toFixed(4),
+      jurisdiction: input.jurisdiction ?? null
+    };
+
+    const [existing] = await db
+      .select({ id: taxRates.id })
+      .from(taxRates)
+      .where(and(eq(taxRates.location, input.location), eq(taxRates.category, input.category)))
+      .limit(1);
+
+    const [rate] = existing
+      ? await db.update(taxRates).set({ ...values, updatedAt: new Date() }).where(eq(taxRates.id, existing.id)).returning()
+      : await db.insert(taxRates).values(values).returning();
+
+    structuredLogger.info('Tax rate set', {
+      operation: 'tax.setRate',
+      metadata: { location: input.location, category: input.category, rate: input.rate }
+    });
+    return rate;
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    const [deleted] = await db.delete(taxRates).where(eq(taxRates.id, id)).returning({ id: taxRates.id });
+    if (!deleted) {
+      throw new TaxError('not_found', 'Tax rate not found');
+    }
+  }
+
+  /**
+   * Rates for an order at a location; an exempt customer's rates are all 0.
+   * Categories not configured for the location fall back to the default rate.
+   */
+  async resolveTax(tx: Tx, location: string = DEFAULT_TAX_LOCATION, customerId?: string | null): Promise<TaxContext> {
+    const configured = await tx.select().from(taxRates).where(eq(taxRates.location, location));
+    if (configured.length === 0) {
+      structuredLogger.warn('No tax rates configured for location, using defaults', {
+        operation: 'tax.resolve',
+        metadata: { location }
+      });
+    }
+
+    const rates = { ...DEFAULT_TAX_RATES };
+    for (const row of configured) {
+      rates[row.category as TaxCategory] = parseFloat(row.rate);
+    }
+    const context: TaxContext = {
+      location,
+      jurisdiction: configured.find(row => row.jurisdiction)?.jurisdiction ?? null,
+      rates
+    };
+
+    if (customerId) {
+      const [customer] = await tx.select().from(customers).where(eq(customers.id, customerId)).limit(1);
+      if (customer && isTaxExempt(customer)) {
+        return {
+          ...context,
+          rates: Object.fromEntries(TAX_CATEGORIES.map(category => [category, 0])) as TaxRates,
+          exemptCertificate: customer.resaleCertificateNumber!
+        };
+      }
+    }
+
+    return context;
+  }
+
+  /**
+   * Records the order's taxed amounts when it becomes a sale, when a discount changes a sale,
+   * and when a sale is cancelled. The accrual report reads these instead of the order's current
+   * amounts and status, so a period stays as it was filed.
+   */
+  async recordTaxEvent(tx: Tx, order: Order, event: 'sale' | 'discount' | 'cancellation'): Promise<void> {
+    const amounts = orderTaxAmounts(order);
+    await tx.insert(taxEvents).values({
+      orderId: order.id,
+      event,
+      location: amounts.location,
+      jurisdiction: amounts.jurisdiction,
+      rate: amounts.rate.toFixed(4),
+      taxable: amounts.taxable.toFixed(2),
+      exempt: amounts.exempt.toFixed(2),
+      tax: amounts.tax.toFixed(2),
+      total: order.total
+    });
+  }
+}
+
+export const taxService = new TaxService();
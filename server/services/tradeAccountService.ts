@@ -0,0 +1,311 @@
+/**
+ * Trade Account Service
+ * Designer and corporate accounts billed on net terms, with credit limits and monthly statements
+ */
+
+import { db } from '../db';
+import { tradeAccounts, tradeStatements, orders, customers, Order, TradeAccount, TradeStatement } from '../../shared/schema';
+import { eq, and, asc, desc, notInArray, isNotNull, sql, gte, lte } from 'drizzle-orm';
+import { TradeTier, TRADE_DISCOUNT_TIERS } from '../../shared/pricing';
+import { StatementLine, agingBucket, daysBetween, sumAging } from '../../shared/receivables';
+import { withTransaction } from '../utils/transactionHandler';
+import { structuredLogger } from '../utils/logger';
+
+type Tx = typeof db;
+
+export const TRADE_TERMS = ['net_15', 'net_30'] as const;
+export type TradeTerms = typeof TRADE_TERMS[number];
+
+export const TERMS_DAYS: Record<TradeTerms, number> = {
+  net_15: 15,
+  net_30: 30
+};
+
+// Quotes and cancelled orders are not charges against the account
+const NON_BILLABLE_STATUSES = ['quote', 'cancelled'];
+
+export interface TradeAccountInput {
+  customerId: string;
+  companyName: string;
+  tier?: TradeTier;
+  creditLimit: number;
+  terms?: TradeTerms;
+  billingEmail?: string | null;
+  active?: boolean;
+}
+
+export interface TradeAccountSummary {
+  account: TradeAccount;
+  openBalance: number;
+  availableCredit: number;
+  openOrders: Order[];
+}
+
+export type TradeAccountErrorCode = 'not_found' | 'invalid_request' | 'duplicate';
+
+export class TradeAccountError extends Error {
+  constructor(public readonly code: TradeAccountErrorCode, message: string) {
+    super(message);
+    this.name = 'TradeAccountError';
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+export class TradeAccountService {
+  async listAccounts(): Promise<TradeAccount[]> {
+    return db.select().from(tradeAccounts).orderBy(asc(tradeAccounts.companyName));
+  }
+
+  async getAccount(id: string): Promise<TradeAccount> {
+    const [account] = await db.select().from(tradeAccounts).where(eq(tradeAccounts.id, id)).limit(1);
+    if (!account) {
+      throw new TradeAccountError('not_found', 'Trade account not found');
+    }
+    return account;
+  }
+
+  /**
+   * The customer's active trade account, if they have one
+   */
+  async getAccountForCustomer(tx: Tx, customerId: string): Promise<TradeAccount | null> {
+    const [account] = await tx
+      .select()
+      .from(tradeAccounts)
+      .where(and(eq(tradeAccounts.customerId, customerId), eq(tradeAccounts.active, true)))
+      .limit(1);
+    return account || null;
+  }
+
+  async createAccount(input: TradeAccountInput): Promise<TradeAccount> {
+    this.validate(input);
+
+    const [customer] = await db.select({ id: customers.id }).from(customers).where(eq(customers.id, input.customerId)).limit(1);
+    if (!customer) {
+      throw new TradeAccountError('not_found', 'Customer not found');
+    }
+    const [existing] = await db
+      .select({ id: tradeAccounts.id })
+      .from(tradeAccounts)
+      .where(eq(tradeAccounts.customerId, input.customerId))
+      .limit(1);
+    if (existing) {
+      throw new TradeAccountError('duplicate', 'Customer already has a trade account');
+    }
+
+    const [account] = await db.insert(tradeAccounts).values(this.toColumns(input)).returning();
+
+    structuredLogger.info('Trade account opened', {
+      customerId: input.customerId,
+      operation: 'tradeAccount.create',
+      metadata: { accountId: account.id, tier: account.tier, creditLimit: account.creditLimit }
+    });
+    return account;
+  }
+
+  /**
+   * Replaces an account's settings. Orders already placed keep their terms and discount.
+   */
+  async updateAccount(id: string, input: Omit<TradeAccountInput, 'customerId'>): Promise<TradeAccount> {
+    const existing = await this.getAccount(id);
+    this.validate({ ...input, customerId: existing.customerId });
+
+    const [account] = await db
+      .update(tradeAccounts)
+      .set({ ...this.toColumns({ ...input, customerId: existing.customerId }), updatedAt: new Date() })
+      .where(eq(tradeAccounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async getSummary(id: string): Promise<TradeAccountSummary> {
+    const account = await this.getAccount(id);
+    const openOrders = await this.getOpenOrders(db, id);
+    const openBalance = round(openOrders.reduce((sum, order) => sum + this.balanceOf(order), 0));
+
+    return {
+      account,
+      openBalance,
+      availableCredit: round(parseFloat(account.creditLimit) - openBalance),
+      openOrders
+    };
+  }
+
+  /**
+   * Why charging this amount to the account would be refused, or null when it fits the credit limit.
+   * Locks the account row so concurrent approvals are checked one at a time.
+   */
+  async checkCredit(tx: Tx, accountId: string, amount: number, excludeOrderId?: string): Promise<string | null> {
+    const [account] = await tx
+      .select()
+      .from(tradeAccounts)
+      .where(eq(tradeAccounts.id, accountId))
+      .for('update');
+
+    if (!account || !account.active) {
+      return 'Trade account is closed';
+    }
+
+    const openBalance = (await this.getOpenOrders(tx, accountId))
+      .filter(order => order.id !== excludeOrderId)
+      .reduce((sum, order) => sum + this.balanceOf(order), 0);
+    const available = parseFloat(account.creditLimit) - openBalance;
+    if (amount > available + 0.005) {
+      return `Exceeds credit limit: $${amount.toFixed(2)} with $${Math.max(0, available).toFixed(2)} of $${parseFloat(account.creditLimit).toFixed(2)} available`;
+    }
+    return null;
+  }
+
+  /**
+   * Invoice date and due date for an account order being completed
+   */
+  invoiceDates(order: Pick<Order, 'paymentTerms'>, invoicedAt: Date = new Date()): { invoicedAt: Date; dueDate: Date } {
+    const days = TERMS_DAYS[order.paymentTerms as TradeTerms] ?? TERMS_DAYS.net_30;
+    return { invoicedAt, dueDate: addDays(invoicedAt, days) };
+  }
+
+  async listStatements(accountId: string): Promise<TradeStatement[]> {
+    return db
+      .select()
+      .from(tradeStatements)
+      .where(eq(tradeStatements.tradeAccountId, accountId))
+      .orderBy(desc(tradeStatements.periodEnd));
+  }
+
+  async getStatement(id: string): Promise<TradeStatement> {
+    const [statement] = await db.select().from(tradeStatements).where(eq(tradeStatements.id, id)).limit(1);
+    if (!statement) {
+      throw new TradeAccountError('not_found', 'Statement not found');
+    }
+    return statement;
+  }
+
+  /**
+   * Consolidates the account's invoiced, unpaid orders into a statement for the month
+   * ending at `periodEnd`, aged by days past due. Running it again for the same month
+   * returns the statement already issued.
+   */
+  async generateStatement(accountId: string, periodEnd: Date = new Date()): Promise<TradeStatement> {
+    const account = await this.getAccount(accountId);
+    const periodStart = new Date(periodEnd.getFullYear(), periodEnd.getMonth(), 1);
+
+    return withTransaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(tradeStatements)
+        .where(and(
+          eq(tradeStatements.tradeAccountId, accountId),
+          gte(tradeStatements.periodEnd, periodStart),
+          lte(tradeStatements.periodStart, periodEnd)
+        ))
+        .limit(1);
+      if (existing) {
+        return existing;
+      }
+
+      const lines: StatementLine[] = (await this.getOpenOrders(tx, accountId))
+        .filter(order => order.invoicedAt && order.dueDate && order.invoicedAt <= periodEnd)
+        .map(order => {
+          const daysPastDue = daysBetween(order.dueDate!, periodEnd);
+          return {
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            invoicedAt: order.invoicedAt!.toISOString(),
+            dueDate: order.dueDate!.toISOString(),
+            total: parseFloat(order.total),
+            amountPaid: parseFloat(order.amountPaid || '0'),
+            balance: round(this.balanceOf(order)),
+            daysPastDue: Math.max(0, daysPastDue),
+            bucket: agingBucket(daysPastDue)
+          };
+        });
+
+      const [statement] = await tx.insert(tradeStatements).values({
+        tradeAccountId: accountId,
+        statementNumber: `ST-${periodEnd.getFullYear()}${String(periodEnd.getMonth() + 1).padStart(2, '0')}-${account.id.slice(0, 8).toUpperCase()}`,
+        periodStart,
+        periodEnd,
+        dueDate: this.invoiceDates({ paymentTerms: account.terms }, periodEnd).dueDate,
+        totalDue: round(lines.reduce((sum, line) => sum + line.balance, 0)).toFixed(2),
+        aging: sumAging(lines),
+        lines
+      }).returning();
+
+      structuredLogger.info('Trade statement generated', {
+        customerId: account.customerId,
+        operation: 'tradeAccount.statement',
+        metadata: { accountId, statementId: statement.id, totalDue: statement.totalDue, lines: lines.length }
+      });
+      return statement;
+    }, { operation: 'tradeAccount.statement', customerId: account.customerId });
+  }
+
+  /**
+   * Month-end job: a statement for every active account with an invoiced balance
+   */
+  async generateMonthlyStatements(periodEnd: Date = new Date()): Promise<TradeStatement[]> {
+    const accounts = await db
+      .selectDistinct({ id: tradeAccounts.id })
+      .from(tradeAccounts)
+      .innerJoin(orders, eq(orders.tradeAccountId, tradeAccounts.id))
+      .where(and(
+        eq(tradeAccounts.active, true),
+        isNotNull(orders.invoicedAt),
+        notInArray(orders.status, NON_BILLABLE_STATUSES),
+        sql`${orders.total} - coalesce(${orders.amountPaid}, 0) > 0.005`
+      ));
+
+    const statements: TradeStatement[] = [];
+    for (const { id } of accounts) {
+      statements.push(await this.generateStatement(id, periodEnd));
+    }
+    return statements;
+  }
+
+  private async getOpenOrders(tx: Tx, accountId: string): Promise<Order[]> {
+    return tx
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.tradeAccountId, accountId),
+        notInArray(orders.status, NON_BILLABLE_STATUSES),
+        sql`${orders.total} - coalesce(${orders.amountPaid}, 0) > 0.005`
+      ))
+      .orderBy(asc(orders.createdAt));
+  }
+
+  private balanceOf(order: Order): number {
+    return parseFloat(order.total) - parseFloat(order.amountPaid || '0');
+  }
+
+  private validate(input: TradeAccountInput): void {
+    if (!input.companyName?.trim()) {
+      throw new TradeAccountError('invalid_request', 'A company name is required');
+    }
+    if (!(input.creditLimit >= 0)) {
+      throw new TradeAccountError('invalid_request', 'Credit limit must be zero or more');
+    }
+    if (input.tier && !(input.tier in TRADE_DISCOUNT_TIERS)) {
+      throw new TradeAccountError('invalid_request', `Tier must be one of ${Object.keys(TRADE_DISCOUNT_TIERS).join(', ')}`);
+    }
+    if (input.terms && !TRADE_TERMS.includes(input.terms)) {
+      throw new TradeAccountError('invalid_request', `Terms must be one of ${TRADE_TERMS.join(', ')}`);
+    }
+  }
+
+  private toColumns(input: TradeAccountInput) {
+    return {
+      customerId: input.customerId,
+      companyName: input.companyName.trim(),
+      tier: input.tier || 'standard',
+      creditLimit: input.creditLimit.toFixed(2),
+      terms: input.terms || 'net_30',
+      billingEmail: input.billingEmail?.trim() || null,
+      active: input.active ?? true
+    };
+  }
+}
+
+export const tradeAccountService = new TradeAccountService();
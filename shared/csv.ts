@@ -0,0 +1,20 @@
+/**
+ * CSV Export
+ * Cell escaping shared by the report exports
+ */
+
+// A cell starting with one of these is read as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function escapeCsvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Negative amounts stay numbers; anything else that would run as a formula is kept as text
+  if (FORMULA_PREFIX.test(text) && isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\n');
+}
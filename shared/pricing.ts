@@ -17,17 +17,152 @@ export interface MaterialPricing {
   backing: Record<string, number>; // per square inch
 }
 
+export type MouldingMode = 'length' | 'chop' | 'join';
+
+export interface UnitedInchBracket {
+  maxUnitedInches: number; // width + height of the frame
+  price: number;
+}
+
+export interface MouldingPricing {
+  rates: Record<string, Partial<Record<MouldingMode, number>>>; // per linear inch by frame style and mode
+  modeMultipliers: Record<MouldingMode, number>; // applied to the frames rate when a style has no mode rate
+  wasteFactor: Record<MouldingMode, number>; // fraction of footage added for miters and offcuts
+  unitedInchTables: Record<string, UnitedInchBracket[]>; // frame styles priced by united inch instead
+}
+
+// Border widths from the artwork edge to the outside edge, per side
+export interface MatBorders {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// One board in a mat stack, listed top layer first
+export interface MatLayer {
+  matType: string;
+  reveal?: number; // inches this layer shows inside the opening of the layer above (ignored for the top layer)
+  fillet?: string; // fillet style lining this layer's opening
+  vGroove?: boolean;
+}
+
+export interface MatStackPricing {
+  fillets: Record<string, number>; // per linear inch of opening
+  vGroove: number; // per linear inch of groove
+  layerLabor: number; // cutting charge for each layer after the first
+}
+
+export interface MatLayerPrice {
+  matType: string;
+  opening: { width: number; height: number };
+  boardPrice: number;
+  filletPrice: number;
+  vGroovePrice: number;
+  total: number;
+}
+
 export interface OrderSpecs {
   imageWidth: number;
   imageHeight: number;
   matWidth?: number; // additional width for matting
   matHeight?: number; // additional height for matting
+  matBorders?: MatBorders; // per-side borders, takes precedence over matWidth/matHeight
   frameStyle: string;
-  matType?: string;
+  mouldingMode?: MouldingMode; // how the moulding is bought from the supplier, defaults to length
+  matType?: string; // single mat, used when matLayers is not given
+  matLayers?: MatLayer[];
   glassType: string;
   backingType: string;
   complexity: 'simple' | 'medium' | 'complex';
-  rush?: boolean;
+  priority?: 'standard' | 'rush' | 'express';
+  rush?: boolean; // legacy flag, treated as priority 'rush'
+}
+
+export interface PricingBreakdown {
+  basePrice: number;
+  framePrice: number;
+  matPrice: number;
+  glassPrice: number;
+  backingPrice: number;
+  laborPrice: number;
+  rushFee: number;
+  subtotal: number;
+  discount: number; // discount lines taken off the subtotal before tax
+  tax: number;
+  total: number;
+}
+
+// Breakdown component a discount is limited to; 'order' discounts the whole subtotal
+export type DiscountCategory = 'order' | 'frame' | 'mat' | 'glass' | 'backing' | 'labor';
+
+// A percentage or fixed discount before it is priced against a breakdown
+export interface Discount {
+  source: 'manual' | 'coupon' | 'promotion' | 'trade';
+  label: string;
+  kind: 'percent' | 'fixed';
+  value: number; // percent (0-100) or dollars
+  category?: DiscountCategory;
+  reference?: string; // promotion id for coupons and promotions
+}
+
+// A reduction taken off an order before tax, kept on the order as its own line
+export interface DiscountLine {
+  source: 'loyalty' | Discount['source'];
+  label: string;
+  amount: number;
+  category?: DiscountCategory;
+  reference?: string; // record that funded the discount, e.g. a loyalty ledger entry or promotion
+}
+
+// Materials are the goods sold (frame, mat, glass, backing); labor is the base fitting
+// charge, labor and the rush surcharge. Jurisdictions that don't tax labor use a 0 rate.
+export const TAX_CATEGORIES = ['materials', 'labor'] as const;
+export type TaxCategory = typeof TAX_CATEGORIES[number];
+export type TaxRates = Record<TaxCategory, number>;
+
+export interface TaxCalculation {
+  tax: number;
+  taxable: number; // amount after discounts that tax was charged on
+  exempt: number; // amount after discounts at a 0 rate
+}
+
+// Tax as recorded on an order
+export interface AppliedTax {
+  location: string;
+  jurisdiction: string | null;
+  rates: TaxRates;
+  taxable: number;
+  exempt: number;
+  exemptCertificate?: string; // resale certificate that zeroed the rates
+}
+
+export interface MouldingSummary {
+  mode: MouldingMode;
+  method: 'linear' | 'united_inch';
+  unitedInches: number;
+  footage: number; // feet purchased, including waste
+  wasteFactor: number;
+}
+
+export interface PricingResult {
+  breakdown: PricingBreakdown;
+  discounts: DiscountLine[];
+  finishedSize: { width: number; height: number; area: number };
+  borders: MatBorders;
+  openingSize: { width: number; height: number }; // top mat opening
+  moulding: MouldingSummary;
+  matLayers: MatLayerPrice[];
+  priceBookVersion: number;
+}
+
+// A versioned snapshot of tiers and material rates, stored in the price_books table
+export interface PriceBook {
+  version: number;
+  tiers: PricingTier[];
+  materials: MaterialPricing;
+  moulding?: MouldingPricing;
+  matStack?: MatStackPricing;
 }
 
 // Industry-standard pricing tiers based on finished size
@@ -69,42 +204,221 @@ export const MATERIAL_PRICING: MaterialPricing = {
   }
 };
 
-export function calculateFramingPrice(specs: OrderSpecs): {
-  breakdown: {
-    basePrice: number;
-    framePrice: number;
-    matPrice: number;
-    glassPrice: number;
-    backingPrice: number;
-    laborPrice: number;
-    rushFee: number;
-    subtotal: number;
-    tax: number;
-    total: number;
+// Length is cut in-house and carries miter waste; chop and join are cut by the supplier
+export const MOULDING_PRICING: MouldingPricing = {
+  rates: {},
+  modeMultipliers: {
+    length: 1.0,
+    chop: 1.35,
+    join: 1.6
+  },
+  wasteFactor: {
+    length: 0.15,
+    chop: 0,
+    join: 0
+  },
+  unitedInchTables: {}
+};
+
+// Books published before purchase modes (version 1) bought all moulding by the foot with no waste
+export const LEGACY_MOULDING_PRICING: MouldingPricing = {
+  rates: {},
+  modeMultipliers: {
+    length: 1.0,
+    chop: 1.0,
+    join: 1.0
+  },
+  wasteFactor: {
+    length: 0,
+    chop: 0,
+    join: 0
+  },
+  unitedInchTables: {}
+};
+
+export const MAT_STACK_PRICING: MatStackPricing = {
+  fillets: {
+    'gold-leaf': 0.45,
+    'silver-leaf': 0.45,
+    'black-lacquer': 0.35,
+    'wood-natural': 0.30
+  },
+  vGroove: 0.10,
+  layerLabor: 8.00
+};
+
+// Books published before mat stacks had no fillets and charged nothing for V-grooves or extra layers
+export const LEGACY_MAT_STACK_PRICING: MatStackPricing = {
+  fillets: {},
+  vGroove: 0,
+  layerLabor: 0
+};
+
+// Built-in price book used until one is loaded from the database (seeded as version 1, so it
+// has no moulding modes or mat stacks; MOULDING_PRICING and MAT_STACK_PRICING were published later)
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+  version: 1,
+  tiers: PRICING_TIERS,
+  materials: MATERIAL_PRICING
+};
+
+// Surcharge applied to frame, mat, glass and labor by order priority
+export const PRIORITY_SURCHARGES: Record<'standard' | 'rush' | 'express', number> = {
+  standard: 0,
+  rush: 0.5,
+  express: 1.0
+};
+
+// Differences below this amount are treated as rounding, not a price mismatch
+export const PRICE_TOLERANCE = 0.01;
+
+// Trade account tiers and the percentage they take off every order
+export type TradeTier = 'standard' | 'preferred' | 'premier';
+
+export const TRADE_DISCOUNT_TIERS: Record<TradeTier, number> = {
+  standard: 10,
+  preferred: 15,
+  premier: 20
+};
+
+// Used until rates are configured for the store location
+export const SALES_TAX_RATE = 0.0875;
+export const DEFAULT_TAX_RATES: TaxRates = { materials: SALES_TAX_RATE, labor: SALES_TAX_RATE };
+
+const TAX_CATEGORY_FIELDS: Record<TaxCategory, (keyof PricingBreakdown)[]> = {
+  materials: ['framePrice', 'matPrice', 'glassPrice', 'backingPrice'],
+  labor: ['basePrice', 'laborPrice', 'rushFee']
+};
+
+const DISCOUNT_CATEGORY_FIELDS: Record<Exclude<DiscountCategory, 'order'>, keyof PricingBreakdown> = {
+  frame: 'framePrice',
+  mat: 'matPrice',
+  glass: 'glassPrice',
+  backing: 'backingPrice',
+  labor: 'laborPrice'
+};
+
+/**
+ * Per-side borders for an order, falling back to equal borders from matWidth/matHeight
+ */
+export function resolveMatBorders(specs: Pick<OrderSpecs, 'matBorders' | 'matWidth' | 'matHeight'>): MatBorders {
+  if (specs.matBorders) {
+    return specs.matBorders;
+  }
+  const side = specs.matWidth || 0;
+  const topBottom = specs.matHeight || 0;
+  return { top: topBottom, bottom: topBottom, left: side, right: side };
+}
+
+/**
+ * Opening (top mat) and outside dimensions for the job ticket
+ */
+export function summarizeMatDimensions(
+  specs: Pick<OrderSpecs, 'imageWidth' | 'imageHeight' | 'matBorders' | 'matWidth' | 'matHeight' | 'matLayers'>
+): { borders: MatBorders; opening: { width: number; height: number }; outside: { width: number; height: number } } {
+  const borders = resolveMatBorders(specs);
+  const innerReveals = (specs.matLayers || []).slice(1).reduce((sum, layer) => sum + (layer.reveal || 0), 0);
+  return {
+    borders,
+    opening: {
+      width: specs.imageWidth + innerReveals * 2,
+      height: specs.imageHeight + innerReveals * 2
+    },
+    outside: {
+      width: specs.imageWidth + borders.left + borders.right,
+      height: specs.imageHeight + borders.top + borders.bottom
+    }
   };
-  finishedSize: { width: number; height: number; area: number };
-} {
+}
+
+/**
+ * Restores the open-ended tier after a price book has been through JSON,
+ * which serializes Infinity as null
+ */
+export function normalizePriceBook(priceBook: PriceBook): PriceBook {
+  return {
+    ...priceBook,
+    tiers: priceBook.tiers.map(tier => ({
+      ...tier,
+      maxSize: tier.maxSize ?? Infinity
+    }))
+  };
+}
+
+export function calculateFramingPrice(
+  specs: OrderSpecs,
+  priceBook: PriceBook = DEFAULT_PRICE_BOOK,
+  discounts: Discount[] = [],
+  taxRates: TaxRates = DEFAULT_TAX_RATES
+): PricingResult {
+  const { tiers, materials } = priceBook;
+  const moulding = priceBook.moulding || LEGACY_MOULDING_PRICING;
+  const matStack = priceBook.matStack || LEGACY_MAT_STACK_PRICING;
+
   // Calculate finished dimensions
-  const finishedWidth = specs.imageWidth + (specs.matWidth || 0) * 2;
-  const finishedHeight = specs.imageHeight + (specs.matHeight || 0) * 2;
+  const { borders, opening, outside } = summarizeMatDimensions(specs);
+  const finishedWidth = outside.width;
+  const finishedHeight = outside.height;
   const finishedArea = finishedWidth * finishedHeight;
   const perimeter = (finishedWidth + finishedHeight) * 2;
 
   // Find appropriate pricing tier
-  const tier = PRICING_TIERS.find(t => finishedArea >= t.minSize && finishedArea <= t.maxSize) 
-    || PRICING_TIERS[PRICING_TIERS.length - 1];
+  const tier = tiers.find(t => finishedArea >= t.minSize && finishedArea <= t.maxSize) 
+    || tiers[tiers.length - 1];
 
   // Calculate component prices
   const basePrice = tier.basePrice;
   
-  const framePrice = (MATERIAL_PRICING.frames[specs.frameStyle] || 3.0) * perimeter;
+  // Moulding: united-inch table when the style has one, otherwise footage by purchase mode
+  const mouldingMode = specs.mouldingMode || 'length';
+  const unitedInches = finishedWidth + finishedHeight;
+  const wasteFactor = moulding.wasteFactor[mouldingMode] ?? 0;
+  const footage = (perimeter * (1 + wasteFactor)) / 12;
+  const unitedInchTable = moulding.unitedInchTables[specs.frameStyle];
+
+  let framePrice: number;
+  if (unitedInchTable && unitedInchTable.length > 0) {
+    const bracket = unitedInchTable.find(b => unitedInches <= b.maxUnitedInches)
+      || unitedInchTable[unitedInchTable.length - 1];
+    framePrice = bracket.price;
+  } else {
+    const frameRate = moulding.rates[specs.frameStyle]?.[mouldingMode]
+      ?? (materials.frames[specs.frameStyle] || 3.0) * (moulding.modeMultipliers[mouldingMode] ?? 1);
+    framePrice = frameRate * footage * 12;
+  }
   
-  const matPrice = specs.matType 
-    ? (MATERIAL_PRICING.mats[specs.matType] || 0.15) * finishedArea
-    : 0;
+  // Mat stack: each layer is a full board; openings grow outward from the artwork by each reveal
+  const layers: MatLayer[] = specs.matLayers
+    || (specs.matType ? [{ matType: specs.matType }] : []);
+
+  let openingWidth = specs.imageWidth;
+  let openingHeight = specs.imageHeight;
+  const matLayers: MatLayerPrice[] = [];
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i];
+    const openingPerimeter = (openingWidth + openingHeight) * 2;
+    const boardPrice = (materials.mats[layer.matType] || 0.15) * finishedArea;
+    const filletPrice = layer.fillet ? (matStack.fillets[layer.fillet] || 0) * openingPerimeter : 0;
+    const vGroovePrice = layer.vGroove ? matStack.vGroove * openingPerimeter : 0;
+
+    matLayers.unshift({
+      matType: layer.matType,
+      opening: { width: openingWidth, height: openingHeight },
+      boardPrice: Math.round(boardPrice * 100) / 100,
+      filletPrice: Math.round(filletPrice * 100) / 100,
+      vGroovePrice: Math.round(vGroovePrice * 100) / 100,
+      total: Math.round((boardPrice + filletPrice + vGroovePrice) * 100) / 100
+    });
+
+    openingWidth += (layer.reveal || 0) * 2;
+    openingHeight += (layer.reveal || 0) * 2;
+  }
+
+  const matPrice = matLayers.reduce((sum, layer) => sum + layer.total, 0)
+    + Math.max(0, layers.length - 1) * matStack.layerLabor;
     
-  const glassPrice = (MATERIAL_PRICING.glass[specs.glassType] || 0.08) * finishedArea;
-  const backingPrice = (MATERIAL_PRICING.backing[specs.backingType] || 0.05) * finishedArea;
+  const glassPrice = (materials.glass[specs.glassType] || 0.08) * finishedArea;
+  const backingPrice = (materials.backing[specs.backingType] || 0.05) * finishedArea;
 
   // Labor calculation based on complexity and tier
   const complexityMultiplier = {
@@ -115,34 +429,222 @@ export function calculateFramingPrice(specs: OrderSpecs): {
 
   const laborPrice = basePrice * tier.laborMultiplier * complexityMultiplier;
 
-  // Rush fee (50% surcharge)
-  const rushFee = specs.rush ? (framePrice + matPrice + glassPrice + laborPrice) * 0.5 : 0;
+  // Rush fee (50% rush, 100% express surcharge)
+  const priority = specs.priority || (specs.rush ? 'rush' : 'standard');
+  const rushFee = (framePrice + matPrice + glassPrice + laborPrice) * PRIORITY_SURCHARGES[priority];
 
   const subtotal = basePrice + framePrice + matPrice + glassPrice + backingPrice + laborPrice + rushFee;
-  const tax = subtotal * 0.0875; // 8.75% tax rate (adjust as needed)
-  const total = subtotal + tax;
+
+  const breakdown: PricingBreakdown = {
+    basePrice,
+    framePrice: Math.round(framePrice * 100) / 100,
+    matPrice: Math.round(matPrice * 100) / 100,
+    glassPrice: Math.round(glassPrice * 100) / 100,
+    backingPrice: Math.round(backingPrice * 100) / 100,
+    laborPrice: Math.round(laborPrice * 100) / 100,
+    rushFee: Math.round(rushFee * 100) / 100,
+    subtotal: Math.round(subtotal * 100) / 100,
+    discount: 0,
+    tax: 0,
+    total: 0
+  };
+  const discountLines = calculateDiscountLines(breakdown, discounts);
 
   return {
-    breakdown: {
-      basePrice,
-      framePrice: Math.round(framePrice * 100) / 100,
-      matPrice: Math.round(matPrice * 100) / 100,
-      glassPrice: Math.round(glassPrice * 100) / 100,
-      backingPrice: Math.round(backingPrice * 100) / 100,
-      laborPrice: Math.round(laborPrice * 100) / 100,
-      rushFee: Math.round(rushFee * 100) / 100,
-      subtotal: Math.round(subtotal * 100) / 100,
-      tax: Math.round(tax * 100) / 100,
-      total: Math.round(total * 100) / 100
-    },
+    breakdown: applyDiscounts(breakdown, discountLines, taxRates),
+    discounts: discountLines,
     finishedSize: {
       width: finishedWidth,
       height: finishedHeight,
       area: finishedArea
+    },
+    borders,
+    openingSize: opening,
+    moulding: {
+      mode: mouldingMode,
+      method: unitedInchTable && unitedInchTable.length > 0 ? 'united_inch' : 'linear',
+      unitedInches,
+      footage: Math.round(footage * 100) / 100,
+      wasteFactor
+    },
+    matLayers,
+    priceBookVersion: priceBook.version
+  };
+}
+
+/**
+ * Sums item breakdowns into order totals
+ */
+export function rollUpBreakdowns(breakdowns: PricingBreakdown[]): PricingBreakdown {
+  const totals: PricingBreakdown = {
+    basePrice: 0,
+    framePrice: 0,
+    matPrice: 0,
+    glassPrice: 0,
+    backingPrice: 0,
+    laborPrice: 0,
+    rushFee: 0,
+    subtotal: 0,
+    discount: 0,
+    tax: 0,
+    total: 0
+  };
+
+  for (const breakdown of breakdowns) {
+    for (const field of Object.keys(totals) as (keyof PricingBreakdown)[]) {
+      totals[field] += breakdown[field];
     }
+  }
+
+  for (const field of Object.keys(totals) as (keyof PricingBreakdown)[]) {
+    totals[field] = Math.round(totals[field] * 100) / 100;
+  }
+
+  return totals;
+}
+
+/**
+ * Prices discounts against a breakdown, one line each. Category discounts are
+ * taken first and are limited to their component; order discounts follow, percent
+ * before fixed, each on what is left of the subtotal after any lines already applied.
+ */
+export function calculateDiscountLines(
+  breakdown: PricingBreakdown,
+  discounts: Discount[],
+  applied: DiscountLine[] = []
+): DiscountLine[] {
+  const rank = (discount: Discount) =>
+    (discount.category && discount.category !== 'order' ? 0 : 1) * 2 + (discount.kind === 'percent' ? 0 : 1);
+  const categoryTaken: Partial<Record<DiscountCategory, number>> = {};
+  let remaining = breakdown.subtotal;
+  for (const line of applied) {
+    const category = line.category || 'order';
+    categoryTaken[category] = (categoryTaken[category] || 0) + line.amount;
+    remaining -= line.amount;
+  }
+  const lines: DiscountLine[] = [];
+
+  for (const discount of [...discounts].sort((a, b) => rank(a) - rank(b))) {
+    const category = discount.category || 'order';
+    const base = category === 'order'
+      ? remaining
+      : breakdown[DISCOUNT_CATEGORY_FIELDS[category]] - (categoryTaken[category] || 0);
+    const requested = discount.kind === 'percent' ? base * discount.value / 100 : discount.value;
+    const amount = Math.round(Math.max(0, Math.min(requested, base, remaining)) * 100) / 100;
+    if (amount <= 0) continue;
+
+    categoryTaken[category] = (categoryTaken[category] || 0) + amount;
+    remaining -= amount;
+    lines.push({
+      source: discount.source,
+      label: discount.label,
+      amount,
+      ...(category !== 'order' ? { category } : {}),
+      ...(discount.reference ? { reference: discount.reference } : {})
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * The discount a trade account's tier earns, priced like any other order discount
+ */
+export function tradeDiscount(tier: TradeTier): Discount {
+  const percent = TRADE_DISCOUNT_TIERS[tier];
+  return {
+    source: 'trade',
+    label: `Trade discount (${tier}, ${percent}%)`,
+    kind: 'percent',
+    value: percent
   };
 }
 
+/**
+ * Tax on a breakdown after its discount lines, by category. Category discounts
+ * reduce their own category; order discounts are spread across both by share.
+ */
+export function calculateTax(breakdown: PricingBreakdown, lines: DiscountLine[], rates: TaxRates): TaxCalculation {
+  const net = {} as Record<TaxCategory, number>;
+  for (const category of TAX_CATEGORIES) {
+    net[category] = TAX_CATEGORY_FIELDS[category].reduce((sum, field) => sum + breakdown[field], 0);
+  }
+
+  let orderDiscount = 0;
+  for (const line of lines) {
+    if (!line.category || line.category === 'order') {
+      orderDiscount += line.amount;
+    } else {
+      const category: TaxCategory = line.category === 'labor' ? 'labor' : 'materials';
+      net[category] -= line.amount;
+    }
+  }
+
+  const beforeOrderDiscount = TAX_CATEGORIES.reduce((sum, category) => sum + Math.max(0, net[category]), 0);
+  let tax = 0;
+  let taxable = 0;
+  let exempt = 0;
+  for (const category of TAX_CATEGORIES) {
+    const share = beforeOrderDiscount > 0 ? Math.max(0, net[category]) / beforeOrderDiscount : 0;
+    const amount = Math.max(0, net[category] - orderDiscount * share);
+    if (rates[category] > 0) {
+      tax += amount * rates[category];
+      taxable += amount;
+    } else {
+      exempt += amount;
+    }
+  }
+
+  return {
+    tax: Math.round(tax * 100) / 100,
+    taxable: Math.round(taxable * 100) / 100,
+    exempt: Math.round(exempt * 100) / 100
+  };
+}
+
+/**
+ * Re-totals a breakdown with the given discount lines (all of them, replacing
+ * any applied before). Discounts come off the subtotal before tax. Tax is
+ * recalculated with the given rates, or at the rate the breakdown was taxed at
+ * when the rates are not known.
+ */
+export function applyDiscounts(
+  breakdown: PricingBreakdown,
+  lines: DiscountLine[],
+  rates?: TaxRates
+): PricingBreakdown {
+  const taxable = breakdown.subtotal - breakdown.discount;
+  const taxRate = taxable > 0 ? breakdown.tax / taxable : SALES_TAX_RATE;
+
+  const requested = lines.reduce((sum, line) => sum + line.amount, 0);
+  const discount = Math.round(Math.min(requested, breakdown.subtotal) * 100) / 100;
+  const tax = rates
+    ? calculateTax(breakdown, lines, rates).tax
+    : Math.round((breakdown.subtotal - discount) * taxRate * 100) / 100;
+
+  return {
+    ...breakdown,
+    discount,
+    tax,
+    total: Math.round((breakdown.subtotal - discount + tax) * 100) / 100
+  };
+}
+
+/**
+ * Compares client-submitted amounts against the engine's breakdown.
+ * Returns the names of fields that differ; fields the client omitted are skipped.
+ */
+export function findPricingMismatches(
+  submitted: Partial<Record<keyof PricingBreakdown, number | string>>,
+  expected: PricingBreakdown
+): (keyof PricingBreakdown)[] {
+  return (Object.keys(expected) as (keyof PricingBreakdown)[]).filter(field => {
+    const value = submitted[field];
+    if (value === undefined || value === null || value === '') return false;
+    return Math.abs(parseFloat(value.toString()) - expected[field]) > PRICE_TOLERANCE;
+  });
+}
+
 export function calculateEstimatedCompletion(
   currentWorkload: number,
   orderComplexity: 'simple' | 'medium' | 'complex',
@@ -0,0 +1,91 @@
+/**
+ * Accounts Receivable
+ * Aging buckets shared by trade account statements and receivables reporting
+ */
+
+export const AGING_BUCKETS = ['current', '1_30', '31_60', '61_90', 'over_90'] as const;
+export type AgingBucket = typeof AGING_BUCKETS[number];
+export type AgingTotals = Record<AgingBucket, number>;
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  '1_30': '1-30 days',
+  '31_60': '31-60 days',
+  '61_90': '61-90 days',
+  over_90: 'Over 90 days'
+};
+
+// Receivables report buckets, by days since the balance became receivable
+export const AR_BUCKETS = ['0_30', '31_60', '61_90', 'over_90'] as const;
+export type ArBucket = typeof AR_BUCKETS[number];
+export type ArTotals = Record<ArBucket, number>;
+
+export const AR_BUCKET_LABELS: Record<ArBucket, string> = {
+  '0_30': '0-30 days',
+  '31_60': '31-60 days',
+  '61_90': '61-90 days',
+  over_90: 'Over 90 days'
+};
+
+// One open order on a trade account statement
+export interface StatementLine {
+  orderId: string;
+  orderNumber: string;
+  invoicedAt: string;
+  dueDate: string;
+  total: number;
+  amountPaid: number;
+  balance: number;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from one date to another, negative when `to` is earlier
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+export function agingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return '1_30';
+  if (daysPastDue <= 60) return '31_60';
+  if (daysPastDue <= 90) return '61_90';
+  return 'over_90';
+}
+
+export function arBucket(daysOutstanding: number): ArBucket {
+  if (daysOutstanding <= 30) return '0_30';
+  if (daysOutstanding <= 60) return '31_60';
+  if (daysOutstanding <= 90) return '61_90';
+  return 'over_90';
+}
+
+export function emptyAging(): AgingTotals {
+  return { current: 0, '1_30': 0, '31_60': 0, '61_90': 0, over_90: 0 };
+}
+
+/**
+ * Sums balances into aging buckets, rounded to cents
+ */
+export function sumAging(entries: { bucket: AgingBucket; balance: number }[]): AgingTotals {
+  return sumBuckets(AGING_BUCKETS, entries);
+}
+
+export function sumAr(entries: { bucket: ArBucket; balance: number }[]): ArTotals {
+  return sumBuckets(AR_BUCKETS, entries);
+}
+
+function sumBuckets<B extends string>(buckets: readonly B[], entries: { bucket: B; balance: number }[]): Record<B, number> {
+  const totals = Object.fromEntries(buckets.map(bucket => [bucket, 0])) as Record<B, number>;
+  for (const entry of entries) {
+    totals[entry.bucket] += entry.balance;
+  }
+  for (const bucket of buckets) {
+    totals[bucket] = Math.round(totals[bucket] * 100) / 100;
+  }
+  return totals;
+}
@@ -2,6 +2,8 @@
  import { pgTable, text, integer, decimal, timestamp, boolean, jsonb, uuid, varchar } from "drizzle-orm/pg-core";
  import { createInsertSchema, createSelectSchema } from "drizzle-zod";
  import { z } from "zod";
++import type { PricingTier, MaterialPricing, MouldingPricing, MatStackPricing, MatLayer, DiscountLine, AppliedTax } from "./pricing";
++import type { AgingTotals, StatementLine } from "./receivables";
  
 +// Enhanced Customer table with comprehensive tracking
  export const customers = pgTable("customers", {
@@ -16,10 +18,31 @@
 +  totalSpent: decimal("total_spent", { precision: 10, scale: 2 }).default("0.00"),
 +  lastOrderDate: timestamp("last_order_date"),
 +  loyaltyPoints: integer("loyalty_points").default(0),
++  phoneNormalized: text("phone_normalized"), // digits only, without the US country code
++  emailNormalized: text("email_normalized"), // trimmed and lowercased
++  mergedIntoId: uuid("merged_into_id"), // surviving record once merged as a duplicate
++  mergedAt: timestamp("merged_at"),
++  taxExempt: boolean("tax_exempt").notNull().default(false), // only honored with a current resale certificate
++  resaleCertificateNumber: text("resale_certificate_number"),
++  resaleCertificateExpiresAt: timestamp("resale_certificate_expires_at"), // null does not expire
    createdAt: timestamp("created_at").defaultNow(),
 +  updatedAt: timestamp("updated_at").defaultNow(),
  });
  
++// Order status lifecycle; the server only allows the transitions listed here
++export const ORDER_STATUSES = ['quote', 'approved', 'in_production', 'quality_check', 'ready', 'completed', 'cancelled'] as const;
++export type OrderStatus = typeof ORDER_STATUSES[number];
++
++export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
++  quote: ['approved', 'cancelled'],
++  approved: ['in_production', 'quote', 'cancelled'],
++  in_production: ['quality_check', 'approved', 'cancelled'],
++  quality_check: ['ready', 'in_production', 'cancelled'],
++  ready: ['completed', 'quality_check', 'cancelled'],
++  completed: [],
++  cancelled: ['quote']
++};
++
 +// Enhanced Orders table with comprehensive order management
  export const orders = pgTable("orders", {
    id: uuid("id").defaultRandom().primaryKey(),
@@ -34,10 +57,16 @@
 +  imageHeight: decimal("image_height", { precision: 8, scale: 2 }),
 +  matWidth: decimal("mat_width", { precision: 8, scale: 2 }),
 +  matHeight: decimal("mat_height", { precision: 8, scale: 2 }),
++  matBorderTop: decimal("mat_border_top", { precision: 8, scale: 2 }),
++  matBorderBottom: decimal("mat_border_bottom", { precision: 8, scale: 2 }),
++  matBorderLeft: decimal("mat_border_left", { precision: 8, scale: 2 }),
++  matBorderRight: decimal("mat_border_right", { precision: 8, scale: 2 }),
 +  
 +  // Materials
 +  frameStyle: text("frame_style"),
-+  matType: text("mat_type"),
++  mouldingMode: text("moulding_mode").default("length"), // length, chop, join
++  matType: text("mat_type"), // top mat layer
++  matLayers: jsonb("mat_layers").$type<MatLayer[]>(), // full mat stack, top layer first
 +  glassType: text("glass_type"),
 +  backingType: text("backing_type"),
 +  complexity: text("complexity").default("simple"), // simple, medium, complex
@@ -51,13 +80,23 @@
 +  laborPrice: decimal("labor_price", { precision: 10, scale: 2 }),
 +  rushFee: decimal("rush_fee", { precision: 10, scale: 2 }).default("0.00"),
 +  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
++  discount: decimal("discount", { precision: 10, scale: 2 }).default("0.00"), // sum of discountLines, before tax
++  discountLines: jsonb("discount_lines").$type<DiscountLine[]>(),
 +  tax: decimal("tax", { precision: 10, scale: 2 }),
++  taxRate: decimal("tax_rate", { precision: 6, scale: 4 }), // effective rate: tax over the discounted subtotal
++  taxDetails: jsonb("tax_details").$type<AppliedTax>(), // location, jurisdiction and per-category rates used
    total: decimal("total", { precision: 10, scale: 2 }).notNull(),
++  priceBookVersion: integer("price_book_version"), // price_books.version used to price this order
 -  status: text("status").notNull().default("pending"),
 +  
 +  // Payment tracking
 +  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).default("0.00"),
 +  paymentStatus: text("payment_status").default("unpaid"), // unpaid, partial, paid, refunded
++  depositRequired: decimal("deposit_required", { precision: 10, scale: 2 }), // from deposit_rules when quoted and approved
++  tradeAccountId: uuid("trade_account_id"), // billed on account instead of paid at pickup
++  paymentTerms: text("payment_terms"), // net_15, net_30; copied from the trade account
++  invoicedAt: timestamp("invoiced_at"), // account orders are invoiced when completed
++  dueDate: timestamp("due_date"), // invoicedAt plus the payment terms
 +  
 +  // Dates and tracking
 +  estimatedCompletion: timestamp("estimated_completion"),
@@ -74,20 +113,272 @@
 +  updatedAt: timestamp("updated_at").defaultNow(),
 +});
 +
++// Order line items: one row per framed piece
++export const orderItems = pgTable("order_items", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  orderId: uuid("order_id").references(() => orders.id).notNull(),
++  lineNumber: integer("line_number").notNull(),
++  status: text("status").notNull().default("pending"), // pending, in_production, completed
++  assignedTo: text("assigned_to"), // framer responsible for the piece
++  
++  // Artwork specifications
++  artworkDescription: text("artwork_description"),
++  imageWidth: decimal("image_width", { precision: 8, scale: 2 }).notNull(),
++  imageHeight: decimal("image_height", { precision: 8, scale: 2 }).notNull(),
++  matBorderTop: decimal("mat_border_top", { precision: 8, scale: 2 }),
++  matBorderBottom: decimal("mat_border_bottom", { precision: 8, scale: 2 }),
++  matBorderLeft: decimal("mat_border_left", { precision: 8, scale: 2 }),
++  matBorderRight: decimal("mat_border_right", { precision: 8, scale: 2 }),
++  
++  // Materials
++  frameStyle: text("frame_style"),
++  mouldingMode: text("moulding_mode").default("length"),
++  matType: text("mat_type"),
++  matLayers: jsonb("mat_layers").$type<MatLayer[]>(),
++  glassType: text("glass_type"),
++  backingType: text("backing_type"),
++  complexity: text("complexity").default("medium"),
++  
++  // Pricing breakdown
++  basePrice: decimal("base_price", { precision: 10, scale: 2 }),
++  framePrice: decimal("frame_price", { precision: 10, scale: 2 }),
++  matPrice: decimal("mat_price", { precision: 10, scale: 2 }),
++  glassPrice: decimal("glass_price", { precision: 10, scale: 2 }),
++  backingPrice: decimal("backing_price", { precision: 10, scale: 2 }),
++  laborPrice: decimal("labor_price", { precision: 10, scale: 2 }),
++  rushFee: decimal("rush_fee", { precision: 10, scale: 2 }).default("0.00"),
++  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
++  tax: decimal("tax", { precision: 10, scale: 2 }),
++  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
++  
++  specialInstructions: text("special_instructions"),
++  completedAt: timestamp("completed_at"),
++  createdAt: timestamp("created_at").defaultNow(),
++  updatedAt: timestamp("updated_at").defaultNow(),
++});
++
++// Audit trail of order status transitions
++export const orderStatusHistory = pgTable("order_status_history", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  orderId: uuid("order_id").references(() => orders.id).notNull(),
++  fromStatus: text("from_status"), // null for the status an order was created with
++  toStatus: text("to_status").notNull(),
++  actor: text("actor").notNull(),
++  note: text("note"),
++  override: boolean("override").default(false), // a guard was bypassed
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
 +// Payment transactions table
 +export const payments = pgTable("payments", {
 +  id: uuid("id").defaultRandom().primaryKey(),
 +  orderId: uuid("order_id").references(() => orders.id).notNull(),
-+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-+  method: text("method").notNull(), // cash, card, check, venmo, zelle, etc.
-+  status: text("status").default("completed"), // pending, completed, failed, refunded
++  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // negative for refunds and voids
++  method: text("method").notNull(), // cash, card, check, venmo, zelle, stripe, gift_card, store_credit
++  giftCardId: uuid("gift_card_id"), // card redeemed when method is gift_card
++  kind: text("kind").notNull().default("payment"), // payment, refund, void
++  status: text("status").default("completed"), // pending, completed, failed, refunded, voided, released (authorization hold let go)
++  originalPaymentId: uuid("original_payment_id"), // payment a refund or void reverses
++  reason: text("reason"), // required for refunds and voids
 +  transactionId: text("transaction_id"),
++  idempotencyKey: text("idempotency_key").unique(), // Idempotency-Key header of the request that recorded it
 +  processorResponse: jsonb("processor_response"),
 +  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).default("0.00"),
++  drawerSessionId: uuid("drawer_session_id").references(() => drawerSessions.id), // register session that took or returned the money
 +  notes: text("notes"),
 +  createdAt: timestamp("created_at").defaultNow(),
 +});
 +
++// Per-customer store credit ledger; the balance is the sum of amounts
++export const storeCreditLedger = pgTable("store_credit_ledger", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  customerId: uuid("customer_id").references(() => customers.id).notNull(),
++  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // positive issues credit, negative redeems it
++  entryType: text("entry_type").notNull(), // refund, redemption, reversal, adjustment
++  orderId: uuid("order_id").references(() => orders.id),
++  paymentId: uuid("payment_id").references(() => payments.id),
++  reason: text("reason"),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
++// Gift cards; the balance is the sum of the card's ledger entries
++export const giftCards = pgTable("gift_cards", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  code: text("code").notNull().unique(),
++  customerId: uuid("customer_id").references(() => customers.id), // purchaser or recipient, if known
++  initialBalance: decimal("initial_balance", { precision: 10, scale: 2 }).notNull(),
++  status: text("status").notNull().default("active"), // active, void
++  issuedBy: text("issued_by"),
++  expiresAt: timestamp("expires_at"),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
++export const giftCardLedger = pgTable("gift_card_ledger", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  giftCardId: uuid("gift_card_id").references(() => giftCards.id).notNull(),
++  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // positive loads the card, negative redeems it
++  entryType: text("entry_type").notNull(), // issue, redemption, reversal, adjustment
++  orderId: uuid("order_id").references(() => orders.id),
++  paymentId: uuid("payment_id").references(() => payments.id),
++  reason: text("reason"),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
++// Loyalty earn rules: points per dollar paid, or a bonus when an order matches
++export const loyaltyRules = pgTable("loyalty_rules", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  name: text("name").notNull(),
++  kind: text("kind").notNull(), // per_dollar, bonus
++  pointsPerDollar: decimal("points_per_dollar", { precision: 8, scale: 2 }), // per_dollar rules
++  bonusPoints: integer("bonus_points"), // bonus rules, awarded once the order is paid in full
++  matchField: text("match_field"), // bonus rules: glassType, frameStyle, matType, priority, complexity
++  matchValue: text("match_value"), // case-insensitive substring; alternatives separated by |, e.g. "museum|uv-protection"
++  minOrderTotal: decimal("min_order_total", { precision: 10, scale: 2 }),
++  active: boolean("active").notNull().default(true),
++  createdAt: timestamp("created_at").defaultNow(),
++  updatedAt: timestamp("updated_at").defaultNow(),
++});
++
++// Loyalty points ledger; customers.loyaltyPoints is the running sum of points
++export const loyaltyLedger = pgTable("loyalty_ledger", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  customerId: uuid("customer_id").references(() => customers.id).notNull(),
++  points: integer("points").notNull(), // negative for redemptions and reversals
++  entryType: text("entry_type").notNull(), // earn, reversal, bonus, bonus_reversal, redemption, redemption_reversal, adjustment
++  orderId: uuid("order_id").references(() => orders.id),
++  paymentId: uuid("payment_id").references(() => payments.id), // earn and reversal entries
++  ruleId: uuid("rule_id").references(() => loyaltyRules.id), // bonus entries
++  rate: decimal("rate", { precision: 8, scale: 2 }), // points per dollar an earn entry used
++  reason: text("reason"),
++  actor: text("actor"),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
++// Trade (designer and corporate) accounts: orders are billed on net terms up to a credit limit
++export const tradeAccounts = pgTable("trade_accounts", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  customerId: uuid("customer_id").references(() => customers.id).notNull().unique(),
++  companyName: text("company_name").notNull(),
++  tier: text("tier").notNull().default("standard"), // standard, preferred, premier (see TRADE_DISCOUNT_TIERS)
++  creditLimit: decimal("credit_limit", { precision: 10, scale: 2 }).notNull(),
++  terms: text("terms").notNull().default("net_30"), // net_15, net_30
++  billingEmail: text("billing_email"),
++  active: boolean("active").notNull().default(true),
++  createdAt: timestamp("created_at").defaultNow(),
++  updatedAt: timestamp("updated_at").defaultNow(),
++});
++
++// Monthly statements: a snapshot of a trade account's open invoices and their aging
++export const tradeStatements = pgTable("trade_statements", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  tradeAccountId: uuid("trade_account_id").references(() => tradeAccounts.id).notNull(),
++  statementNumber: text("statement_number").notNull().unique(),
++  periodStart: timestamp("period_start").notNull(),
++  periodEnd: timestamp("period_end").notNull(),
++  dueDate: timestamp("due_date").notNull(), // when the current charges fall due under the account terms
++  totalDue: decimal("total_due", { precision: 10, scale: 2 }).notNull(),
++  aging: jsonb("aging").$type<AgingTotals>().notNull(),
++  lines: jsonb("lines").$type<StatementLine[]>().notNull(),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
++// Sales tax rate per store location and tax category (materials, labor)
++export const taxRates = pgTable("tax_rates", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  location: text("location").notNull(),
++  category: text("category").notNull(), // materials, labor
++  rate: decimal("rate", { precision: 6, scale: 4 }).notNull(), // 0.0875 for 8.75%; 0 when not taxable
++  jurisdiction: text("jurisdiction"), // reported with the tax, e.g. "CA - Los Angeles County"
++  createdAt: timestamp("created_at").defaultNow(),
++  updatedAt: timestamp("updated_at").defaultNow(),
++});
++
++// An order's taxed amounts as they stood at each event the accrual tax report counts
++export const taxEvents = pgTable("tax_events", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  orderId: uuid("order_id").references(() => orders.id).notNull(),
++  event: text("event").notNull(), // sale, discount, cancellation
++  location: text("location").notNull(),
++  jurisdiction: text("jurisdiction"),
++  rate: decimal("rate", { precision: 6, scale: 4 }).notNull(),
++  taxable: decimal("taxable", { precision: 10, scale: 2 }).notNull(),
++  exempt: decimal("exempt", { precision: 10, scale: 2 }).notNull(),
++  tax: decimal("tax", { precision: 10, scale: 2 }).notNull(),
++  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
++// Coupons (with a code) and automatic promotions (without one), applied before tax
++export const promotions = pgTable("promotions", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  name: text("name").notNull(), // shown as the discount line label
++  code: text("code").unique(), // stored uppercase; null applies automatically
++  kind: text("kind").notNull(), // percent, fixed
++  value: decimal("value", { precision: 10, scale: 2 }).notNull(), // percent (0-100) or dollars
++  category: text("category").notNull().default("order"), // order, frame, mat, glass, backing, labor
++  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
++  startsAt: timestamp("starts_at"), // null is open-ended
++  endsAt: timestamp("ends_at"),
++  usageLimit: integer("usage_limit"), // orders the promotion can be used on; null is unlimited
++  usageCount: integer("usage_count").notNull().default(0),
++  active: boolean("active").notNull().default(true),
++  createdAt: timestamp("created_at").defaultNow(),
++  updatedAt: timestamp("updated_at").defaultNow(),
++});
++
++// Cash drawer sessions: opened with a float, closed with counted amounts per tender
++export const drawerSessions = pgTable("drawer_sessions", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  register: text("register").notNull().default("main"),
++  status: text("status").notNull().default("open"), // open, closed
++  openingFloat: decimal("opening_float", { precision: 10, scale: 2 }).notNull(),
++  openedBy: text("opened_by").notNull(),
++  openedAt: timestamp("opened_at").defaultNow().notNull(),
++  closedBy: text("closed_by"),
++  closedAt: timestamp("closed_at"),
++  countedAmounts: jsonb("counted_amounts").$type<Record<string, number>>(), // tender -> counted
++  expectedAmounts: jsonb("expected_amounts").$type<Record<string, number>>(), // tender -> expected
++  overShort: decimal("over_short", { precision: 10, scale: 2 }), // counted minus expected, all tenders
++  zReport: jsonb("z_report"), // snapshot taken at close so reprints match
++  notes: text("notes"),
++});
++
++// Paid-in / paid-out movements of cash during a drawer session
++export const drawerMovements = pgTable("drawer_movements", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  sessionId: uuid("session_id").references(() => drawerSessions.id).notNull(),
++  type: text("type").notNull(), // paid_in, paid_out
++  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
++  reason: text("reason").notNull(),
++  actor: text("actor").notNull(),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
++// Deposit rules checked on quote -> approved; the first active match by sortOrder applies
++export const depositRules = pgTable("deposit_rules", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  name: text("name").notNull(),
++  priority: text("priority"), // standard, rush, express; null matches any priority
++  minTotal: decimal("min_total", { precision: 10, scale: 2 }), // null matches any order total
++  percent: decimal("percent", { precision: 5, scale: 2 }).notNull(), // of the order total
++  minimumAmount: decimal("minimum_amount", { precision: 10, scale: 2 }), // floor, capped at the order total
++  sortOrder: integer("sort_order").notNull().default(0),
++  active: boolean("active").notNull().default(true),
++  createdAt: timestamp("created_at").defaultNow(),
++  updatedAt: timestamp("updated_at").defaultNow(),
++});
++
++// Installment schedule for an order; payments cover installments in due-date order
++export const paymentInstallments = pgTable("payment_installments", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  orderId: uuid("order_id").references(() => orders.id).notNull(),
++  sequence: integer("sequence").notNull(),
++  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
++  dueDate: timestamp("due_date").notNull(),
++  lastReminderAt: timestamp("last_reminder_at"),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
 +// Materials inventory table
 +export const materials = pgTable("materials", {
 +  id: uuid("id").defaultRandom().primaryKey(),
@@ -151,29 +442,113 @@
 +  createdAt: timestamp("created_at").defaultNow(),
  });
  
++// Versioned price books (tiers and material rates) with effective dates
++export const priceBooks = pgTable("price_books", {
++  id: uuid("id").defaultRandom().primaryKey(),
++  version: integer("version").notNull().unique(),
++  name: text("name").notNull(),
++  tiers: jsonb("tiers").$type<PricingTier[]>().notNull(),
++  materials: jsonb("materials").$type<MaterialPricing>().notNull(),
++  moulding: jsonb("moulding").$type<MouldingPricing>(),
++  matStack: jsonb("mat_stack").$type<MatStackPricing>(),
++  effectiveFrom: timestamp("effective_from").notNull().defaultNow(),
++  effectiveTo: timestamp("effective_to"),
++  notes: text("notes"),
++  createdBy: text("created_by"),
++  createdAt: timestamp("created_at").defaultNow(),
++});
++
 +// Create Zod schemas for validation
  export const insertCustomerSchema = createInsertSchema(customers);
  export const selectCustomerSchema = createSelectSchema(customers);
  export const insertOrderSchema = createInsertSchema(orders);
  export const selectOrderSchema = createSelectSchema(orders);
++export const insertOrderItemSchema = createInsertSchema(orderItems);
++export const selectOrderItemSchema = createSelectSchema(orderItems);
++export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory);
++export const selectOrderStatusHistorySchema = createSelectSchema(orderStatusHistory);
 +export const insertPaymentSchema = createInsertSchema(payments);
 +export const selectPaymentSchema = createSelectSchema(payments);
++export const insertStoreCreditEntrySchema = createInsertSchema(storeCreditLedger);
++export const selectStoreCreditEntrySchema = createSelectSchema(storeCreditLedger);
++export const insertGiftCardSchema = createInsertSchema(giftCards);
++export const selectGiftCardSchema = createSelectSchema(giftCards);
++export const insertGiftCardEntrySchema = createInsertSchema(giftCardLedger);
++export const selectGiftCardEntrySchema = createSelectSchema(giftCardLedger);
++export const insertLoyaltyRuleSchema = createInsertSchema(loyaltyRules);
++export const selectLoyaltyRuleSchema = createSelectSchema(loyaltyRules);
++export const insertLoyaltyEntrySchema = createInsertSchema(loyaltyLedger);
++export const selectLoyaltyEntrySchema = createSelectSchema(loyaltyLedger);
++export const insertTradeAccountSchema = createInsertSchema(tradeAccounts);
++export const selectTradeAccountSchema = createSelectSchema(tradeAccounts);
++export const insertTradeStatementSchema = createInsertSchema(tradeStatements);
++export const selectTradeStatementSchema = createSelectSchema(tradeStatements);
++export const insertTaxRateSchema = createInsertSchema(taxRates);
++export const selectTaxRateSchema = createSelectSchema(taxRates);
++export const insertTaxEventSchema = createInsertSchema(taxEvents);
++export const selectTaxEventSchema = createSelectSchema(taxEvents);
++export const insertPromotionSchema = createInsertSchema(promotions);
++export const selectPromotionSchema = createSelectSchema(promotions);
++export const insertDrawerSessionSchema = createInsertSchema(drawerSessions);
++export const selectDrawerSessionSchema = createSelectSchema(drawerSessions);
++export const insertDrawerMovementSchema = createInsertSchema(drawerMovements);
++export const selectDrawerMovementSchema = createSelectSchema(drawerMovements);
++export const insertDepositRuleSchema = createInsertSchema(depositRules);
++export const selectDepositRuleSchema = createSelectSchema(depositRules);
++export const insertPaymentInstallmentSchema = createInsertSchema(paymentInstallments);
++export const selectPaymentInstallmentSchema = createSelectSchema(paymentInstallments);
 +export const insertMaterialSchema = createInsertSchema(materials);
 +export const selectMaterialSchema = createSelectSchema(materials);
 +export const insertNotificationSchema = createInsertSchema(notifications);
 +export const selectNotificationSchema = createSelectSchema(notifications);
 +export const insertAiAnalysisSchema = createInsertSchema(aiAnalysis);
 +export const selectAiAnalysisSchema = createSelectSchema(aiAnalysis);
++export const insertPriceBookSchema = createInsertSchema(priceBooks);
++export const selectPriceBookSchema = createSelectSchema(priceBooks);
  
  export type Customer = z.infer<typeof selectCustomerSchema>;
  export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
  export type Order = z.infer<typeof selectOrderSchema>;
  export type InsertOrder = z.infer<typeof insertOrderSchema>;
++export type OrderItem = z.infer<typeof selectOrderItemSchema>;
++export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
++export type OrderStatusHistory = z.infer<typeof selectOrderStatusHistorySchema>;
++export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
 +export type Payment = z.infer<typeof selectPaymentSchema>;
 +export type InsertPayment = z.infer<typeof insertPaymentSchema>;
++export type StoreCreditEntry = z.infer<typeof selectStoreCreditEntrySchema>;
++export type InsertStoreCreditEntry = z.infer<typeof insertStoreCreditEntrySchema>;
++export type GiftCard = z.infer<typeof selectGiftCardSchema>;
++export type InsertGiftCard = z.infer<typeof insertGiftCardSchema>;
++export type GiftCardEntry = z.infer<typeof selectGiftCardEntrySchema>;
++export type InsertGiftCardEntry = z.infer<typeof insertGiftCardEntrySchema>;
++export type LoyaltyRule = z.infer<typeof selectLoyaltyRuleSchema>;
++export type InsertLoyaltyRule = z.infer<typeof insertLoyaltyRuleSchema>;
++export type LoyaltyEntry = z.infer<typeof selectLoyaltyEntrySchema>;
++export type InsertLoyaltyEntry = z.infer<typeof insertLoyaltyEntrySchema>;
++export type TradeAccount = z.infer<typeof selectTradeAccountSchema>;
++export type InsertTradeAccount = z.infer<typeof insertTradeAccountSchema>;
++export type TradeStatement = z.infer<typeof selectTradeStatementSchema>;
++export type InsertTradeStatement = z.infer<typeof insertTradeStatementSchema>;
++export type TaxRate = z.infer<typeof selectTaxRateSchema>;
++export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
++export type TaxEvent = z.infer<typeof selectTaxEventSchema>;
++export type InsertTaxEvent = z.infer<typeof insertTaxEventSchema>;
++export type Promotion = z.infer<typeof selectPromotionSchema>;
++export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
++export type DrawerSession = z.infer<typeof selectDrawerSessionSchema>;
++export type InsertDrawerSession = z.infer<typeof insertDrawerSessionSchema>;
++export type DrawerMovement = z.infer<typeof selectDrawerMovementSchema>;
++export type InsertDrawerMovement = z.infer<typeof insertDrawerMovementSchema>;
++export type DepositRule = z.infer<typeof selectDepositRuleSchema>;
++export type InsertDepositRule = z.infer<typeof insertDepositRuleSchema>;
++export type PaymentInstallment = z.infer<typeof selectPaymentInstallmentSchema>;
++export type InsertPaymentInstallment = z.infer<typeof insertPaymentInstallmentSchema>;
 +export type Material = z.infer<typeof selectMaterialSchema>;
 +export type InsertMaterial = z.infer<typeof insertMaterialSchema>;
 +export type Notification = z.infer<typeof selectNotificationSchema>;
 +export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 +export type AiAnalysis = z.infer<typeof selectAiAnalysisSchema>;
-+export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
\ No newline at end of file
++export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
++export type PriceBookRecord = z.infer<typeof selectPriceBookSchema>;
++export type InsertPriceBook = z.infer<typeof insertPriceBookSchema>;
\ No newline at end of file
@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { DollarSign, Printer, Download } from 'lucide-react';
+
+const TENDERS = ['cash', 'card', 'check', 'venmo', 'zelle'];
+
+interface DrawerSession {
+  id: string;
+  register: string;
+  status: 'open' | 'closed';
+  openingFloat: string;
+  openedBy: string;
+  openedAt: string;
+}
+
+interface TenderLine {
+  tender: string;
+  paymentCount: number;
+  sales: number;
+  refunds: number;
+  expected: number;
+  counted: number | null;
+  overShort: number | null;
+}
+
+interface ZReport {
+  sessionId: string;
+  register: string;
+  openedBy: string;
+  openedAt: string;
+  closedBy: string | null;
+  closedAt: string | null;
+  cash: { openingFloat: number; sales: number; refunds: number; paidIn: number; paidOut: number; expected: number };
+  tenders: TenderLine[];
+  otherTenders: { tender: string; paymentCount: number; sales: number; refunds: number }[];
+  movements: { type: string; amount: string; reason: string; actor: string; createdAt: string }[];
+  totals: { grossSales: number; refunds: number; netSales: number; overShort: number | null };
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+export function CashDrawer() {
+  const [session, setSession] = useState<DrawerSession | null>(null);
+  const [report, setReport] = useState<ZReport | null>(null);
+  const [staffName, setStaffName] = useState('');
+  const [openingFloat, setOpeningFloat] = useState('200.00');
+  const [movement, setMovement] = useState({ type: 'paid_out', amount: '', reason: '' });
+  const [counted, setCounted] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadCurrentSession();
+  }, []);
+
+  const loadCurrentSession = async () => {
+    try {
+      const response = await fetch('/api/drawer/sessions/current');
+      if (response.status === 404) {
+        setSession(null);
+        return;
+      }
+      if (!response.ok) throw new Error(`Drawer request failed: ${response.status}`);
+      const current: DrawerSession = await response.json();
+      setSession(current);
+      await loadReport(current.id);
+    } catch (error) {
+      console.error('Error loading drawer session:', error);
+    }
+  };
+
+  const loadReport = async (sessionId: string) => {
+    const response = await fetch(`/api/drawer/sessions/${sessionId}/report`);
+    if (response.ok) {
+      setReport(await response.json());
+    }
+  };
+
+  const post = async (url: string, body: any) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDrawer = async () => {
+    const opened = await post('/api/drawer/sessions', {
+      openingFloat: parseFloat(openingFloat) || 0,
+      openedBy: staffName
+    });
+    if (opened) {
+      setSession(opened);
+      setReport(null);
+      await loadReport(opened.id);
+    }
+  };
+
+  const recordMovement = async () => {
+    if (!session) return;
+    const recorded = await post(`/api/drawer/sessions/${session.id}/movements`, {
+      type: movement.type,
+      amount: parseFloat(movement.amount),
+      reason: movement.reason,
+      actor: staffName
+    });
+    if (recorded) {
+      setMovement({ type: 'paid_out', amount: '', reason: '' });
+      await loadReport(session.id);
+    }
+  };
+
+  const closeDrawer = async () => {
+    if (!session) return;
+    const result = await post(`/api/drawer/sessions/${session.id}/close`, {
+      closedBy: staffName,
+      counted: Object.fromEntries(TENDERS.map(tender => [tender, parseFloat(counted[tender] || '0') || 0]))
+    });
+    if (result) {
+      setSession(null);
+      setCounted({});
+      setReport(result.report);
+    }
+  };
+
+  const overShortClass = (value: number | null) => {
+    if (value === null || Math.abs(value) < 0.01) return '';
+    return value > 0 ? 'text-green-600' : 'text-red-600';
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="w-5 h-5" />
+              Cash Drawer
+              {session && <Badge variant="outline">Open</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Staff Name</Label>
+              <Input value={staffName} onChange={(e) => setStaffName(e.target.value)} />
+            </div>
+
+            {!session ? (
+              <>
+                <div>
+                  <Label>Starting Float</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={openingFloat}
+                    onChange={(e) => setOpeningFloat(e.target.value)}
+                  />
+                </div>
+                <Button onClick={openDrawer} disabled={!staffName || loading} className="w-full">
+                  Open Drawer
+                </Button>
+              </>
+            ) : (
+              <div className="text-sm text-gray-600">
+                Opened by {session.openedBy} at {new Date(session.openedAt).toLocaleTimeString()} with {formatCurrency(parseFloat(session.openingFloat))}
+              </div>
+            )}
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+          </CardContent>
+        </Card>
+
+        {session && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Paid In / Paid Out</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Select value={movement.type} onValueChange={(value) => setMovement(prev => ({ ...prev, type: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="paid_in">Paid In</SelectItem>
+                  <SelectItem value="paid_out">Paid Out</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="Amount"
+                value={movement.amount}
+                onChange={(e) => setMovement(prev => ({ ...prev, amount: e.target.value }))}
+              />
+              <Input
+                placeholder="Reason"
+                value={movement.reason}
+                onChange={(e) => setMovement(prev => ({ ...prev, reason: e.target.value }))}
+              />
+              <Button
+                variant="outline"
+                onClick={recordMovement}
+                disabled={!staffName || !movement.amount || !movement.reason || loading}
+                className="w-full"
+              >
+                Record
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {session && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Close Drawer</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {TENDERS.map(tender => (
+                <div key={tender} className="grid grid-cols-2 gap-2 items-center">
+                  <Label className="capitalize">Counted {tender}</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={counted[tender] || ''}
+                    onChange={(e) => setCounted(prev => ({ ...prev, [tender]: e.target.value }))}
+                  />
+                </div>
+              ))}
+              <Button onClick={closeDrawer} disabled={!staffName || loading} className="w-full">
+                Close Drawer &amp; Run Z-Report
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <div className="lg:col-span-2">
+        {report && (
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>{report.closedAt ? 'Z-Report' : 'X-Report (drawer open)'} — {report.register}</CardTitle>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => window.print()}>
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/drawer/sessions/${report.sessionId}/report?format=csv`}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export CSV
+                    </a>
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div className="text-gray-600">
+                Opened {new Date(report.openedAt).toLocaleString()} by {report.openedBy}
+                {report.closedAt && ` · Closed ${new Date(report.closedAt).toLocaleString()} by ${report.closedBy}`}
+              </div>
+
+              <div className="grid grid-cols-7 gap-2 font-medium">
+                <span>Tender</span>
+                <span className="text-right">Count</span>
+                <span className="text-right">Sales</span>
+                <span className="text-right">Refunds</span>
+                <span className="text-right">Expected</span>
+                <span className="text-right">Counted</span>
+                <span className="text-right">Over/Short</span>
+              </div>
+              {report.tenders.map(line => (
+                <div key={line.tender} className="grid grid-cols-7 gap-2">
+                  <span className="capitalize">{line.tender}</span>
+                  <span className="text-right">{line.paymentCount}</span>
+                  <span className="text-right">{formatCurrency(line.sales)}</span>
+                  <span className="text-right">{formatCurrency(line.refunds)}</span>
+                  <span className="text-right">{formatCurrency(line.expected)}</span>
+                  <span className="text-right">{line.counted !== null ? formatCurrency(line.counted) : '—'}</span>
+                  <span className={`text-right ${overShortClass(line.overShort)}`}>
+                    {line.overShort !== null ? formatCurrency(line.overShort) : '—'}
+                  </span>
+                </div>
+              ))}
+              {report.otherTenders.map(line => (
+                <div key={line.tender} className="grid grid-cols-7 gap-2 text-gray-500">
+                  <span className="capitalize">{line.tender.replace('_', ' ')}</span>
+                  <span className="text-right">{line.paymentCount}</span>
+                  <span className="text-right">{formatCurrency(line.sales)}</span>
+                  <span className="text-right">{formatCurrency(line.refunds)}</span>
+                  <span className="col-span-3 text-right">not reconciled</span>
+                </div>
+              ))}
+
+              <Separator />
+
+              <div className="grid grid-cols-2 gap-2">
+                <span>Opening Float:</span>
+                <span className="text-right">{formatCurrency(report.cash.openingFloat)}</span>
+                <span>Paid In:</span>
+                <span className="text-right">{formatCurrency(report.cash.paidIn)}</span>
+                <span>Paid Out:</span>
+                <span className="text-right">-{formatCurrency(report.cash.paidOut)}</span>
+                <span>Expected Cash in Drawer:</span>
+                <span className="text-right font-medium">{formatCurrency(report.cash.expected)}</span>
+              </div>
+
+              <Separator />
+
+              <div className="grid grid-cols-2 gap-2">
+                <span>Gross Sales:</span>
+                <span className="text-right">{formatCurrency(report.totals.grossSales)}</span>
+                <span>Refunds:</span>
+                <span className="text-right">-{formatCurrency(report.totals.refunds)}</span>
+                <span className="font-bold">Net Sales:</span>
+                <span className="text-right font-bold">{formatCurrency(report.totals.netSales)}</span>
+                {report.totals.overShort !== null && (
+                  <>
+                    <span className="font-bold">Over/Short:</span>
+                    <span className={`text-right font-bold ${overShortClass(report.totals.overShort)}`}>
+                      {formatCurrency(report.totals.overShort)}
+                    </span>
+                  </>
+                )}
+              </div>
+
+              {report.movements.length > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-1">
+                    {report.movements.map((m, index) => (
+                      <div key={index} className="flex justify-between text-gray-600">
+                        <span>{m.type === 'paid_in' ? 'Paid In' : 'Paid Out'} · {m.reason} · {m.actor}</span>
+                        <span>{formatCurrency(parseFloat(m.amount))}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
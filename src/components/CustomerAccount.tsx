@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { Building2, CreditCard, Gift, Wallet } from 'lucide-react';
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, AgingTotals } from '../../shared/receivables';
+
+interface LedgerEntry {
+  id: string;
+  amount: string;
+  entryType: string;
+  orderId?: string | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
+interface GiftCard {
+  id: string;
+  code: string;
+  status: string;
+  initialBalance: string;
+  balance: number;
+  expiresAt?: string | null;
+}
+
+interface PointsEntry {
+  id: string;
+  points: number;
+  entryType: string;
+  reason?: string | null;
+  createdAt: string;
+}
+
+interface LoyaltyAccount {
+  balance: number;
+  pointValue: number;
+  history: PointsEntry[];
+}
+
+interface TradeAccountSummary {
+  account: { id: string; companyName: string; tier: string; terms: string; creditLimit: string };
+  openBalance: number;
+  availableCredit: number;
+}
+
+interface TradeStatement {
+  id: string;
+  statementNumber: string;
+  periodEnd: string;
+  totalDue: string;
+  aging: AgingTotals;
+}
+
+interface CustomerAccountProps {
+  customerId: string;
+  customerName: string;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const ENTRY_LABELS: Record<string, string> = {
+  issue: 'Issued',
+  refund: 'Refund to credit',
+  redemption: 'Redeemed',
+  reversal: 'Returned',
+  adjustment: 'Adjustment'
+};
+
+const POINTS_LABELS: Record<string, string> = {
+  earn: 'Earned',
+  reversal: 'Refund reversal',
+  bonus: 'Bonus',
+  bonus_reversal: 'Bonus reversed',
+  redemption: 'Redeemed',
+  redemption_reversal: 'Redemption returned',
+  adjustment: 'Adjustment'
+};
+
+function LedgerList({ entries }: { entries: LedgerEntry[] }) {
+  if (entries.length === 0) {
+    return <div className="text-sm text-gray-500">No activity</div>;
+  }
+
+  return (
+    <div className="space-y-1 text-sm">
+      {entries.map(entry => {
+        const amount = parseFloat(entry.amount);
+        return (
+          <div key={entry.id} className="flex justify-between">
+            <span className="text-gray-600">
+              {new Date(entry.createdAt).toLocaleDateString()} · {ENTRY_LABELS[entry.entryType] || entry.entryType}
+              {entry.reason && ` · ${entry.reason}`}
+            </span>
+            <span className={amount < 0 ? 'text-red-600' : 'text-green-600'}>
+              {amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(amount))}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function PointsList({ entries }: { entries: PointsEntry[] }) {
+  if (entries.length === 0) {
+    return <div className="text-sm text-gray-500">No activity</div>;
+  }
+
+  return (
+    <div className="space-y-1 text-sm">
+      {entries.map(entry => (
+        <div key={entry.id} className="flex justify-between">
+          <span className="text-gray-600">
+            {new Date(entry.createdAt).toLocaleDateString()} · {POINTS_LABELS[entry.entryType] || entry.entryType}
+            {entry.reason && ` · ${entry.reason}`}
+          </span>
+          <span className={entry.points < 0 ? 'text-red-600' : 'text-green-600'}>
+            {entry.points < 0 ? '' : '+'}{entry.points} pts
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Store credit, gift card, loyalty point and trade account balances with history for one customer
+ */
+export function CustomerAccount({ customerId, customerName }: CustomerAccountProps) {
+  const [storeCredit, setStoreCredit] = useState<{ balance: number; history: LedgerEntry[] } | null>(null);
+  const [giftCards, setGiftCards] = useState<GiftCard[]>([]);
+  const [loyalty, setLoyalty] = useState<LoyaltyAccount | null>(null);
+  const [trade, setTrade] = useState<TradeAccountSummary | null>(null);
+  const [latestStatement, setLatestStatement] = useState<TradeStatement | null>(null);
+  const [cardHistory, setCardHistory] = useState<Record<string, LedgerEntry[]>>({});
+
+  useEffect(() => {
+    setCardHistory({});
+    loadAccount();
+  }, [customerId]);
+
+  const loadAccount = async () => {
+    try {
+      const [creditResponse, cardsResponse, loyaltyResponse, tradeResponse] = await Promise.all([
+        fetch(`/api/store-credit/${customerId}`),
+        fetch(`/api/gift-cards?customerId=${customerId}`),
+        fetch(`/api/loyalty/customers/${customerId}`),
+        fetch(`/api/trade-accounts/customers/${customerId}`)
+      ]);
+      if (creditResponse.ok) setStoreCredit(await creditResponse.json());
+      if (cardsResponse.ok) setGiftCards(await cardsResponse.json());
+      if (loyaltyResponse.ok) setLoyalty(await loyaltyResponse.json());
+
+      // Most customers have no trade account (404)
+      const tradeSummary: TradeAccountSummary | null = tradeResponse.ok ? await tradeResponse.json() : null;
+      setTrade(tradeSummary);
+      setLatestStatement(null);
+      if (tradeSummary) {
+        const statementsResponse = await fetch(`/api/trade-accounts/${tradeSummary.account.id}/statements`);
+        if (statementsResponse.ok) setLatestStatement((await statementsResponse.json())[0] || null);
+      }
+    } catch (error) {
+      console.error('Error loading customer account:', error);
+    }
+  };
+
+  const toggleCardHistory = async (card: GiftCard) => {
+    if (cardHistory[card.id]) {
+      setCardHistory(prev => {
+        const { [card.id]: _, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+
+    const response = await fetch(`/api/gift-cards/${card.code}`);
+    if (response.ok) {
+      const data = await response.json();
+      setCardHistory(prev => ({ ...prev, [card.id]: data.history }));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{customerName} — Credit, Gift Cards &amp; Points</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <span className="font-medium flex items-center gap-2">
+              <Wallet className="w-4 h-4" />
+              Store Credit
+            </span>
+            <span className="font-bold text-green-600">{formatCurrency(storeCredit?.balance || 0)}</span>
+          </div>
+          <LedgerList entries={storeCredit?.history || []} />
+        </div>
+
+        <Separator />
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <span className="font-medium flex items-center gap-2">
+              <Gift className="w-4 h-4" />
+              Loyalty Points
+            </span>
+            <span className="font-bold text-green-600">
+              {loyalty?.balance || 0} pts
+              <span className="text-sm font-normal text-gray-500">
+                {' '}({formatCurrency((loyalty?.balance || 0) * (loyalty?.pointValue || 0))})
+              </span>
+            </span>
+          </div>
+          <PointsList entries={loyalty?.history || []} />
+        </div>
+
+        {trade && (
+          <>
+            <Separator />
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-medium flex items-center gap-2">
+                  <Building2 className="w-4 h-4" />
+                  Trade Account · {trade.account.companyName}
+                </span>
+                <Badge variant="outline">{trade.account.tier} · {trade.account.terms.replace('_', ' ')}</Badge>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <div className="text-gray-500">Balance</div>
+                  <div className="font-medium">{formatCurrency(trade.openBalance)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Credit limit</div>
+                  <div className="font-medium">{formatCurrency(parseFloat(trade.account.creditLimit))}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">Available</div>
+                  <div className={`font-medium ${trade.availableCredit < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(trade.availableCredit)}
+                  </div>
+                </div>
+              </div>
+              {latestStatement && (
+                <div className="text-sm">
+                  <div className="text-gray-500 mb-1">
+                    Statement {latestStatement.statementNumber} ({new Date(latestStatement.periodEnd).toLocaleDateString()}):{' '}
+                    {formatCurrency(parseFloat(latestStatement.totalDue))} due
+                  </div>
+                  <div className="grid grid-cols-5 gap-1 text-xs">
+                    {AGING_BUCKETS.map(bucket => (
+                      <div key={bucket}>
+                        <div className="text-gray-500">{AGING_BUCKET_LABELS[bucket]}</div>
+                        <div className={bucket !== 'current' && latestStatement.aging[bucket] > 0 ? 'text-red-600' : ''}>
+                          {formatCurrency(latestStatement.aging[bucket])}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <span className="font-medium flex items-center gap-2">
+            <CreditCard className="w-4 h-4" />
+            Gift Cards
+          </span>
+          {giftCards.length === 0 && <div className="text-sm text-gray-500">No gift cards</div>}
+          {giftCards.map(card => (
+            <div key={card.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-mono">{card.code}</span>
+                <span className="flex items-center gap-2">
+                  {card.status !== 'active' && <Badge variant="outline">{card.status}</Badge>}
+                  <span className="font-medium">
+                    {formatCurrency(card.balance)} of {formatCurrency(parseFloat(card.initialBalance))}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => toggleCardHistory(card)}>
+                    {cardHistory[card.id] ? 'Hide' : 'History'}
+                  </Button>
+                </span>
+              </div>
+              {cardHistory[card.id] && <LedgerList entries={cardHistory[card.id]} />}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { BarChart3, Clock, DollarSign, Package, TrendingUp } from 'lucide-react';
+
+const TIMEFRAMES = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' }
+];
+
+// Production order of the funnel; anything else is listed after
+const FUNNEL_STATUSES = ['quote', 'approved', 'in_production', 'quality_check', 'ready', 'completed', 'cancelled'];
+
+interface SalesFigures {
+  orderCount: number;
+  revenue: number;
+  cogs: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+interface SalesRow extends SalesFigures {
+  period?: string;
+  previous: SalesFigures;
+  revenueChangePercent: number | null;
+}
+
+interface MaterialUsage {
+  name: string;
+  orders: number | string;
+  revenue: number | string;
+}
+
+interface DashboardData {
+  totalOrders: number | string;
+  totalRevenue: number | string;
+  statusBreakdown: { status: string; count: number | string }[];
+  paymentBreakdown: { paymentStatus: string | null; count: number | string }[];
+  sales: SalesRow;
+  revenueTrend: SalesRow[];
+  trendInterval: 'day' | 'week' | 'month';
+  turnaround: { completedOrders: number; averageDays: number | null };
+  topMaterials: { frames: MaterialUsage[]; mats: MaterialUsage[]; glass: MaterialUsage[] };
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+const formatPeriod = (period: string, interval: DashboardData['trendInterval']) => {
+  const [year, month, day] = period.split('-').map(Number);
+  const date = new Date(year, month - 1, day || 1);
+  return interval === 'month'
+    ? date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+function ChangeBadge({ percent }: { percent: number | null }) {
+  if (percent === null) return null;
+  return (
+    <Badge variant={percent >= 0 ? 'default' : 'destructive'}>
+      {percent >= 0 ? '+' : ''}{percent.toFixed(1)}% vs previous
+    </Badge>
+  );
+}
+
+function MaterialList({ title, items }: { title: string; items: MaterialUsage[] }) {
+  const max = Math.max(1, ...items.map(item => Number(item.orders)));
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-gray-700">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">No orders</p>
+      ) : (
+        items.map(item => (
+          <div key={item.name} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="capitalize">{item.name}</span>
+              <span className="text-gray-600">
+                {Number(item.orders)} orders · {formatCurrency(Number(item.revenue))}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded">
+              <div className="h-2 bg-blue-500 rounded" style={{ width: `${(Number(item.orders) / max) * 100}%` }} />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function Dashboard() {
+  const [timeframe, setTimeframe] = useState('30');
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadDashboard(timeframe);
+  }, [timeframe]);
+
+  const loadDashboard = async (days: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/orders/analytics/dashboard?timeframe=${days}`);
+      if (!response.ok) throw new Error(`Dashboard request failed: ${response.status}`);
+      setData(await response.json());
+    } catch (error) {
+      console.error('Error loading dashboard:', error);
+      setError('Could not load dashboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const funnel = data
+    ? [...data.statusBreakdown].sort((a, b) => {
+        const rank = (status: string) => {
+          const index = FUNNEL_STATUSES.indexOf(status);
+          return index === -1 ? FUNNEL_STATUSES.length : index;
+        };
+        return rank(a.status) - rank(b.status);
+      })
+    : [];
+  const funnelMax = Math.max(1, ...funnel.map(entry => Number(entry.count)));
+  const trendMax = data ? Math.max(1, ...data.revenueTrend.map(row => Math.max(row.revenue, row.previous.revenue))) : 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">Dashboard</h2>
+          {loading && <p className="text-sm text-gray-500">Loading…</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <div className="w-48">
+          <Label>Timeframe</Label>
+          <Select value={timeframe} onValueChange={setTimeframe}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMEFRAMES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {data && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <DollarSign className="w-4 h-4" />
+                  Revenue
+                </div>
+                <div className="text-2xl font-bold">{formatCurrency(data.sales.revenue)}</div>
+                <ChangeBadge percent={data.sales.revenueChangePercent} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <TrendingUp className="w-4 h-4" />
+                  Gross Margin
+                </div>
+                <div className="text-2xl font-bold">{formatCurrency(data.sales.margin)}</div>
+                <div className="text-sm text-gray-600">
+                  {data.sales.marginPercent !== null ? `${data.sales.marginPercent.toFixed(1)}% of revenue` : '—'}
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <Package className="w-4 h-4" />
+                  Orders
+                </div>
+                <div className="text-2xl font-bold">{Number(data.totalOrders)}</div>
+                <div className="text-sm text-gray-600">{formatCurrency(Number(data.totalRevenue || 0))} collected</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <Clock className="w-4 h-4" />
+                  Average Turnaround
+                </div>
+                <div className="text-2xl font-bold">
+                  {data.turnaround.averageDays !== null ? `${data.turnaround.averageDays} days` : '—'}
+                </div>
+                <div className="text-sm text-gray-600">{data.turnaround.completedOrders} orders completed</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="w-5 h-5" />
+                Revenue Trend
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.revenueTrend.length === 0 ? (
+                <p className="text-sm text-gray-500">No sales in this timeframe</p>
+              ) : (
+                <>
+                  <div className="flex items-end gap-1 h-48">
+                    {data.revenueTrend.map(row => (
+                      <div
+                        key={row.period}
+                        className="flex-1 flex items-end gap-px h-full"
+                        title={`${formatPeriod(row.period!, data.trendInterval)}: ${formatCurrency(row.revenue)} (previous ${formatCurrency(row.previous.revenue)})`}
+                      >
+                        <div className="flex-1 bg-gray-200 rounded-t" style={{ height: `${(row.previous.revenue / trendMax) * 100}%` }} />
+                        <div className="flex-1 bg-blue-500 rounded-t" style={{ height: `${(row.revenue / trendMax) * 100}%` }} />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-xs text-gray-500 mt-2">
+                    <span>{formatPeriod(data.revenueTrend[0].period!, data.trendInterval)}</span>
+                    <span className="flex items-center gap-3">
+                      <span className="flex items-center gap-1"><span className="w-3 h-3 bg-blue-500 rounded" /> This period</span>
+                      <span className="flex items-center gap-1"><span className="w-3 h-3 bg-gray-200 rounded" /> Previous period</span>
+                    </span>
+                    <span>{formatPeriod(data.revenueTrend[data.revenueTrend.length - 1].period!, data.trendInterval)}</span>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Funnel</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {funnel.map(entry => (
+                  <div key={entry.status} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="capitalize">{formatStatus(entry.status)}</span>
+                      <span className="text-gray-600">{Number(entry.count)}</span>
+                    </div>
+                    <div className="h-3 bg-gray-100 rounded">
+                      <div
+                        className={`h-3 rounded ${entry.status === 'cancelled' ? 'bg-red-400' : 'bg-green-500'}`}
+                        style={{ width: `${(Number(entry.count) / funnelMax) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Separator />
+                <div className="flex flex-wrap gap-2">
+                  {data.paymentBreakdown.map(entry => (
+                    <Badge key={entry.paymentStatus || 'unknown'} variant="outline" className="capitalize">
+                      {entry.paymentStatus || 'unknown'}: {Number(entry.count)}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Materials</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <MaterialList title="Frames" items={data.topMaterials.frames} />
+                <MaterialList title="Mats" items={data.topMaterials.mats} />
+                <MaterialList title="Glass" items={data.topMaterials.glass} />
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -22,9 +22,37 @@ import {
   Camera,
   Palette,
   Ruler,
-  Settings
+  Settings,
+  Gift,
+  BarChart3
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useStripe } from '../hooks/useStripe';
+import { CashDrawer } from './CashDrawer';
+import { CustomerAccount } from './CustomerAccount';
+import { Dashboard } from './Dashboard';
+import {
+  applyDiscounts,
+  calculateDiscountLines,
+  calculateFramingPrice,
+  normalizePriceBook,
+  Discount,
+  DiscountCategory,
+  DEFAULT_PRICE_BOOK,
+  DEFAULT_TAX_RATES,
+  LEGACY_MAT_STACK_PRICING,
+  MatBorders,
+  MatLayer,
+  MaterialPricing,
+  MouldingMode,
+  PriceBook,
+  PricingResult,
+  TaxRates,
+  rollUpBreakdowns,
+  summarizeMatDimensions,
+  tradeDiscount,
+  TradeTier
+} from '../../shared/pricing';
 
 interface Customer {
   id: string;
@@ -33,8 +61,51 @@ interface Customer {
   phone?: string;
   address?: string;
   notes?: string;
+  total_orders?: number;
+  total_spent?: string;
+  last_order_date?: string | null;
 }
 
+// Lifetime stats are maintained by the server; quotes and cancelled orders don't count
+const customerStats = (customer: Customer) => {
+  const totalOrders = customer.total_orders || 0;
+  const totalSpent = parseFloat(customer.total_spent || '0');
+  return {
+    totalOrders,
+    totalSpent,
+    averageOrderValue: totalOrders > 0 ? totalSpent / totalOrders : 0,
+    daysSinceLastVisit: customer.last_order_date
+      ? Math.floor((Date.now() - new Date(customer.last_order_date).getTime()) / (24 * 60 * 60 * 1000))
+      : null
+  };
+};
+
+// A promotions row as returned by /api/promotions
+interface Promotion {
+  id: string;
+  name: string;
+  code: string | null;
+  kind: 'percent' | 'fixed';
+  value: string;
+  category: DiscountCategory;
+}
+
+// The customer's trade account as returned by /api/trade-accounts/customers/:id
+interface TradeAccountSummary {
+  account: { id: string; companyName: string; tier: TradeTier; terms: string; creditLimit: string };
+  openBalance: number;
+  availableCredit: number;
+}
+
+const toDiscount = (promotion: Promotion): Discount => ({
+  source: promotion.code ? 'coupon' : 'promotion',
+  label: promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name,
+  kind: promotion.kind,
+  value: parseFloat(promotion.value),
+  category: promotion.category,
+  reference: promotion.id
+});
+
 interface Material {
   id: string;
   category: string;
@@ -52,10 +123,10 @@ interface OrderSpecs {
   artworkDescription: string;
   imageWidth: number;
   imageHeight: number;
-  matWidth: number;
-  matHeight: number;
+  matBorders: MatBorders;
   frameStyle: string;
-  matType: string;
+  mouldingMode: MouldingMode;
+  matLayers: MatLayer[]; // top layer first; empty for no mat
   glassType: string;
   backingType: string;
   complexity: 'simple' | 'medium' | 'complex';
@@ -69,6 +140,7 @@ export function FramingPOS() {
   const [materials, setMaterials] = useState<Material[]>([]);
   const [orders, setOrders] = useState<any[]>([]);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [accountCustomer, setAccountCustomer] = useState<Customer | null>(null);
   const [showNewCustomer, setShowNewCustomer] = useState(false);
   
   // Order form state
@@ -76,10 +148,10 @@ export function FramingPOS() {
     artworkDescription: '',
     imageWidth: 16,
     imageHeight: 20,
-    matWidth: 2,
-    matHeight: 2,
+    matBorders: { top: 2, bottom: 2, left: 2, right: 2 },
     frameStyle: '',
-    matType: '',
+    mouldingMode: 'length',
+    matLayers: [],
     glassType: '',
     backingType: '',
     complexity: 'medium',
@@ -87,21 +159,91 @@ export function FramingPOS() {
     specialInstructions: ''
   });
 
-  const [pricing, setPricing] = useState<any>(null);
+  const [pricing, setPricing] = useState<PricingResult | null>(null);
+  const [orderItems, setOrderItems] = useState<OrderSpecs[]>([]);
+  const [priceBook, setPriceBook] = useState<PriceBook>(DEFAULT_PRICE_BOOK);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [couponCode, setCouponCode] = useState('');
+  const [coupon, setCoupon] = useState<Promotion | null>(null);
+  const [taxRates, setTaxRates] = useState<TaxRates>(DEFAULT_TAX_RATES);
+  const [taxExemptCertificate, setTaxExemptCertificate] = useState<string | null>(null);
+  const [tradeAccount, setTradeAccount] = useState<TradeAccountSummary | null>(null);
   const [loading, setLoading] = useState(false);
+  const { createOrderCheckoutSession, loading: checkoutLoading } = useStripe();
 
   // Load data on component mount
   useEffect(() => {
     loadCustomers();
     loadMaterials();
     loadOrders();
+    loadPriceBook();
+    loadPromotions();
   }, []);
 
+  // Rates depend on the customer: a resale certificate on file zeroes them.
+  // Trade account customers get their tier discount and are billed on terms.
+  useEffect(() => {
+    loadTaxRates(selectedCustomer?.id);
+    loadTradeAccount(selectedCustomer?.id);
+  }, [selectedCustomer]);
+
+  const loadPriceBook = async () => {
+    try {
+      const response = await fetch('/api/price-books/active');
+      if (!response.ok) throw new Error(`Price book request failed: ${response.status}`);
+      setPriceBook(normalizePriceBook(await response.json()));
+    } catch (error) {
+      console.error('Error loading price book:', error);
+    }
+  };
+
+  const loadTaxRates = async (customerId?: string) => {
+    try {
+      const response = await fetch(`/api/tax/rates/resolve${customerId ? `?customerId=${customerId}` : ''}`);
+      if (!response.ok) throw new Error(`Tax rate request failed: ${response.status}`);
+      const context = await response.json();
+      setTaxRates(context.rates);
+      setTaxExemptCertificate(context.exemptCertificate || null);
+    } catch (error) {
+      console.error('Error loading tax rates:', error);
+    }
+  };
+
+  const loadTradeAccount = async (customerId?: string) => {
+    if (!customerId) {
+      setTradeAccount(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/trade-accounts/customers/${customerId}`);
+      if (response.status === 404) {
+        setTradeAccount(null);
+        return;
+      }
+      if (!response.ok) throw new Error(`Trade account request failed: ${response.status}`);
+      setTradeAccount(await response.json());
+    } catch (error) {
+      console.error('Error loading trade account:', error);
+      setTradeAccount(null);
+    }
+  };
+
+  const loadPromotions = async () => {
+    try {
+      const response = await fetch('/api/promotions/active');
+      if (!response.ok) throw new Error(`Promotions request failed: ${response.status}`);
+      setPromotions(await response.json());
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+    }
+  };
+
   const loadCustomers = async () => {
     try {
       const { data, error } = await supabase
         .from('customers')
         .select('*')
+        .is('merged_into_id', null)
         .order('name');
       
       if (error) throw error;
@@ -132,7 +274,8 @@ export function FramingPOS() {
         .from('orders')
         .select(`
           *,
-          customer:customers(*)
+          customer:customers(*),
+          order_items(id, status)
         `)
         .order('created_at', { ascending: false })
         .limit(50);
@@ -144,145 +287,183 @@ export function FramingPOS() {
     }
   };
 
-  // Calculate pricing based on specifications
+  // Price one piece with the shared engine used by the server
+  const priceItem = (item: OrderSpecs): PricingResult => {
+    return calculateFramingPrice({
+      imageWidth: item.imageWidth,
+      imageHeight: item.imageHeight,
+      matBorders: item.matBorders,
+      frameStyle: item.frameStyle,
+      mouldingMode: item.mouldingMode,
+      matLayers: item.matLayers.filter(layer => layer.matType),
+      glassType: item.glassType,
+      backingType: item.backingType,
+      complexity: item.complexity,
+      priority: orderSpecs.priority
+    }, priceBook, [], taxRates);
+  };
+
   const calculatePricing = () => {
     if (!orderSpecs.imageWidth || !orderSpecs.imageHeight) return;
-
-    const finishedWidth = orderSpecs.imageWidth + (orderSpecs.matWidth * 2);
-    const finishedHeight = orderSpecs.imageHeight + (orderSpecs.matHeight * 2);
-    const finishedArea = finishedWidth * finishedHeight;
-    const perimeter = (finishedWidth + finishedHeight) * 2;
-
-    // Get material prices
-    const frameMaterial = materials.find(m => m.sku === orderSpecs.frameStyle);
-    const matMaterial = materials.find(m => m.sku === orderSpecs.matType);
-    const glassMaterial = materials.find(m => m.sku === orderSpecs.glassType);
-    const backingMaterial = materials.find(m => m.sku === orderSpecs.backingType);
-
-    const framePrice = frameMaterial ? frameMaterial.unit_price * perimeter : 0;
-    const matPrice = (matMaterial && orderSpecs.matType !== 'none') ? matMaterial.unit_price * finishedArea : 0;
-    const glassPrice = glassMaterial ? glassMaterial.unit_price * finishedArea : 0;
-    const backingPrice = backingMaterial ? backingMaterial.unit_price * finishedArea : 0;
-
-    // Base labor calculation
-    const baseLabor = 35.00;
-    const complexityMultiplier = {
-      simple: 1.0,
-      medium: 1.3,
-      complex: 1.7
-    }[orderSpecs.complexity];
-
-    const laborPrice = baseLabor * complexityMultiplier;
-
-    // Rush fee calculation
-    const rushFee = orderSpecs.priority === 'rush' ? (framePrice + matPrice + glassPrice + laborPrice) * 0.5 :
-                   orderSpecs.priority === 'express' ? (framePrice + matPrice + glassPrice + laborPrice) * 1.0 : 0;
-
-    const subtotal = framePrice + matPrice + glassPrice + backingPrice + laborPrice + rushFee;
-    const tax = subtotal * 0.0875; // 8.75% tax
-    const total = subtotal + tax;
-
-    setPricing({
-      finishedSize: { width: finishedWidth, height: finishedHeight, area: finishedArea },
-      breakdown: {
-        framePrice: Math.round(framePrice * 100) / 100,
-        matPrice: Math.round(matPrice * 100) / 100,
-        glassPrice: Math.round(glassPrice * 100) / 100,
-        backingPrice: Math.round(backingPrice * 100) / 100,
-        laborPrice: Math.round(laborPrice * 100) / 100,
-        rushFee: Math.round(rushFee * 100) / 100,
-        subtotal: Math.round(subtotal * 100) / 100,
-        tax: Math.round(tax * 100) / 100,
-        total: Math.round(total * 100) / 100
-      }
-    });
+    setPricing(priceItem(orderSpecs));
   };
 
   // Recalculate pricing when specs change
   useEffect(() => {
     calculatePricing();
-  }, [orderSpecs, materials]);
+  }, [orderSpecs, priceBook, taxRates]);
+
+  const isItemComplete = (item: OrderSpecs) => {
+    return Boolean(item.artworkDescription && item.frameStyle && item.glassType && item.backingType);
+  };
+
+  // Move the piece in the form onto the order and start a fresh piece
+  const addItemToOrder = () => {
+    if (!isItemComplete(orderSpecs)) return;
+    setOrderItems(prev => [...prev, orderSpecs]);
+    setOrderSpecs(prev => ({
+      ...prev,
+      artworkDescription: '',
+      specialInstructions: ''
+    }));
+  };
+
+  const removeOrderItem = (index: number) => {
+    setOrderItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Preview of the discounts the server will apply; the server's total is authoritative
+  const previewDiscounts = () => {
+    const items = orderItems.length > 0 ? orderItems : [orderSpecs];
+    const totals = rollUpBreakdowns(items.map(item => priceItem(item).breakdown));
+    const lines = calculateDiscountLines(totals, [
+      ...(tradeAccount ? [tradeDiscount(tradeAccount.account.tier)] : []),
+      ...[...promotions, ...(coupon ? [coupon] : [])].map(toDiscount)
+    ]);
+    return { lines, totals: applyDiscounts(totals, lines, taxRates) };
+  };
+
+  const applyCoupon = async () => {
+    if (!couponCode.trim()) return;
+
+    try {
+      const subtotal = previewDiscounts().totals.subtotal;
+      const response = await fetch(`/api/promotions/coupons/${encodeURIComponent(couponCode.trim())}?subtotal=${subtotal}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Coupon request failed: ${response.status}`);
+
+      setCoupon(data);
+    } catch (error) {
+      setCoupon(null);
+      alert((error as Error).message);
+    }
+  };
 
   const createOrder = async () => {
-    if (!selectedCustomer || !pricing) return;
+    // Pieces already added to the order, or the one in the form for a single-piece order
+    const items = orderItems.length > 0 ? orderItems : [orderSpecs];
+    if (!selectedCustomer || !items.every(isItemComplete)) return;
+
+    const itemPricing = items.map(priceItem);
+    const totals = rollUpBreakdowns(itemPricing.map(result => result.breakdown));
 
     setLoading(true);
     try {
-      const orderNumber = `JF-${Date.now().toString().slice(-8)}`;
-      
-      const { data, error } = await supabase
-        .from('orders')
-        .insert({
-          customer_id: selectedCustomer.id,
-          order_number: orderNumber,
-          artwork_description: orderSpecs.artworkDescription,
-          image_width: orderSpecs.imageWidth,
-          image_height: orderSpecs.imageHeight,
-          mat_width: orderSpecs.matWidth,
-          mat_height: orderSpecs.matHeight,
-          frame_style: orderSpecs.frameStyle,
-          mat_type: orderSpecs.matType,
-          glass_type: orderSpecs.glassType,
-          backing_type: orderSpecs.backingType,
-          complexity: orderSpecs.complexity,
+      // The server re-prices the order and rejects it if these totals disagree
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customerId: selectedCustomer.id,
           priority: orderSpecs.priority,
-          special_instructions: orderSpecs.specialInstructions,
-          frame_price: pricing.breakdown.framePrice,
-          mat_price: orderSpecs.matType === 'none' ? 0 : pricing.breakdown.matPrice,
-          glass_price: pricing.breakdown.glassPrice,
-          backing_price: pricing.breakdown.backingPrice,
-          labor_price: pricing.breakdown.laborPrice,
-          rush_fee: pricing.breakdown.rushFee,
-          subtotal: pricing.breakdown.subtotal,
-          tax: pricing.breakdown.tax,
-          total: pricing.breakdown.total,
-          status: 'quote'
+          status: 'quote',
+          items: items.map((item, index) => ({
+            artworkDescription: item.artworkDescription,
+            imageWidth: item.imageWidth,
+            imageHeight: item.imageHeight,
+            matBorders: item.matBorders,
+            frameStyle: item.frameStyle,
+            mouldingMode: item.mouldingMode,
+            matLayers: item.matLayers.filter(layer => layer.matType),
+            glassType: item.glassType,
+            backingType: item.backingType,
+            complexity: item.complexity,
+            specialInstructions: item.specialInstructions,
+            ...itemPricing[index].breakdown
+          })),
+          couponCode: coupon?.code || undefined,
+          ...totals
         })
-        .select()
-        .single();
+      });
 
-      if (error) throw error;
+      if (!response.ok) {
+        const errorData = await response.json();
+        if (errorData.code === 'pricing_mismatch') {
+          // Prices changed since the price book was loaded; refresh and let the user review
+          await loadPriceBook();
+          alert('Pricing has been updated since this quote was prepared. Please review the new total and try again.');
+          return;
+        }
+        throw new Error(errorData.error || 'Failed to create order');
+      }
+
+      const newOrder = await response.json();
 
-      alert(`Order created successfully! Order #${orderNumber} for ${selectedCustomer.name} - Total: $${pricing.breakdown.total}`);
+      alert(`Order created successfully! Order #${newOrder.orderNumber} for ${selectedCustomer.name} - ${items.length} ${items.length === 1 ? 'piece' : 'pieces'}, Total: $${newOrder.total}`);
       
       // Reset form
       setOrderSpecs({
         artworkDescription: '',
         imageWidth: 16,
         imageHeight: 20,
-        matWidth: 2,
-        matHeight: 2,
+        matBorders: { top: 2, bottom: 2, left: 2, right: 2 },
         frameStyle: '',
-        matType: '',
+        mouldingMode: 'length',
+        matLayers: [],
         glassType: '',
         backingType: '',
         complexity: 'medium',
         priority: 'standard',
         specialInstructions: ''
       });
+      setOrderItems([]);
       setSelectedCustomer(null);
       setPricing(null);
+      setCoupon(null);
+      setCouponCode('');
       
       // Reload orders
       loadOrders();
       
     } catch (error) {
       console.error('Error creating order:', error);
-      alert('Failed to create order. Please try again.');
+      alert((error as Error).message || 'Failed to create order. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
-  const createCustomer = async (customerData: Partial<Customer>) => {
+  const createCustomer = async (customerData: Partial<Customer>, allowDuplicate = false) => {
     try {
-      const { data, error } = await supabase
-        .from('customers')
-        .insert(customerData)
-        .select()
-        .single();
+      const response = await fetch('/api/customers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...customerData, allowDuplicate })
+      });
+      const data = await response.json();
 
-      if (error) throw error;
+      // Offer the existing record before creating a duplicate
+      if (response.status === 409 && data.code === 'duplicate') {
+        const existing: Customer = data.duplicates[0].customer;
+        if (confirm(`${existing.name} (${existing.phone || existing.email}) already exists. Use the existing customer?`)) {
+          setSelectedCustomer(existing);
+          setShowNewCustomer(false);
+        } else if (confirm('Create a new customer anyway?')) {
+          await createCustomer(customerData, true);
+        }
+        return;
+      }
+      if (!response.ok) throw new Error(data.error || `Customer request failed: ${response.status}`);
       
       setCustomers(prev => [...prev, data]);
       setSelectedCustomer(data);
@@ -294,10 +475,68 @@ export function FramingPOS() {
     }
   };
 
+  const redeemPoints = async (order: any) => {
+    const available = order.customer?.loyalty_points || 0;
+    const input = prompt(`Redeem how many points? (${available} available)`, String(available));
+    if (!input) return;
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}/loyalty-redemptions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ points: parseInt(input, 10), actor: 'staff' })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Redemption failed: ${response.status}`);
+
+      loadOrders();
+    } catch (error) {
+      console.error('Error redeeming points:', error);
+      alert((error as Error).message);
+    }
+  };
+
   const getMaterialsByCategory = (category: string) => {
     return materials.filter(m => m.category === category);
   };
 
+  const getPriceBookOptions = (category: keyof MaterialPricing) => {
+    return Object.entries(priceBook.materials[category]).map(([key, rate]) => ({
+      value: key,
+      label: key.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+      rate
+    }));
+  };
+
+  const getFilletOptions = () => {
+    return Object.entries((priceBook.matStack || LEGACY_MAT_STACK_PRICING).fillets).map(([key, rate]) => ({
+      value: key,
+      label: key.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+      rate
+    }));
+  };
+
+  const updateMatLayer = (index: number, changes: Partial<MatLayer>) => {
+    setOrderSpecs(prev => ({
+      ...prev,
+      matLayers: prev.matLayers.map((layer, i) => i === index ? { ...layer, ...changes } : layer)
+    }));
+  };
+
+  const addMatLayer = () => {
+    setOrderSpecs(prev => ({
+      ...prev,
+      matLayers: [...prev.matLayers, { matType: '', reveal: prev.matLayers.length > 0 ? 0.25 : 0 }]
+    }));
+  };
+
+  const removeMatLayer = (index: number) => {
+    setOrderSpecs(prev => ({
+      ...prev,
+      matLayers: prev.matLayers.filter((_, i) => i !== index)
+    }));
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -314,7 +553,7 @@ export function FramingPOS() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="new-order" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               New Order
@@ -331,6 +570,14 @@ export function FramingPOS() {
               <Settings className="w-4 h-4" />
               Materials
             </TabsTrigger>
+            <TabsTrigger value="register" className="flex items-center gap-2">
+              <DollarSign className="w-4 h-4" />
+              Register
+            </TabsTrigger>
+            <TabsTrigger value="dashboard" className="flex items-center gap-2">
+              <BarChart3 className="w-4 h-4" />
+              Dashboard
+            </TabsTrigger>
           </TabsList>
 
           {/* New Order Tab */}
@@ -491,24 +738,35 @@ export function FramingPOS() {
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-2 gap-3">
-                    <div>
-                      <Label>Mat Width (inches)</Label>
-                      <Input
-                        type="number"
-                        step="0.25"
-                        value={orderSpecs.matWidth}
-                        onChange={(e) => setOrderSpecs(prev => ({ ...prev, matWidth: parseFloat(e.target.value) || 0 }))}
-                      />
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <Label>Mat Borders (inches)</Label>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setOrderSpecs(prev => ({
+                          ...prev,
+                          matBorders: { ...prev.matBorders, bottom: prev.matBorders.top + 0.5 }
+                        }))}
+                      >
+                        Weight Bottom
+                      </Button>
                     </div>
-                    <div>
-                      <Label>Mat Height (inches)</Label>
-                      <Input
-                        type="number"
-                        step="0.25"
-                        value={orderSpecs.matHeight}
-                        onChange={(e) => setOrderSpecs(prev => ({ ...prev, matHeight: parseFloat(e.target.value) || 0 }))}
-                      />
+                    <div className="grid grid-cols-4 gap-2">
+                      {(['top', 'bottom', 'left', 'right'] as const).map(side => (
+                        <div key={side}>
+                          <Label className="text-xs capitalize">{side}</Label>
+                          <Input
+                            type="number"
+                            step="0.25"
+                            value={orderSpecs.matBorders[side]}
+                            onChange={(e) => setOrderSpecs(prev => ({
+                              ...prev,
+                              matBorders: { ...prev.matBorders, [side]: parseFloat(e.target.value) || 0 }
+                            }))}
+                          />
+                        </div>
+                      ))}
                     </div>
                   </div>
 
@@ -558,9 +816,9 @@ export function FramingPOS() {
                         <SelectValue placeholder="Select frame..." />
                       </SelectTrigger>
                       <SelectContent>
-                        {getMaterialsByCategory('frames').map(frame => (
-                          <SelectItem key={frame.id} value={frame.sku}>
-                            {frame.name} - {formatCurrency(frame.unit_price)}/ft
+                        {getPriceBookOptions('frames').map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label} - {formatCurrency(option.rate)}/in
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -568,22 +826,94 @@ export function FramingPOS() {
                   </div>
 
                   <div>
-                    <Label>Mat Board</Label>
-                    <Select value={orderSpecs.matType} onValueChange={(value) => setOrderSpecs(prev => ({ ...prev, matType: value }))}>
+                    <Label>Moulding Purchase</Label>
+                    <Select value={orderSpecs.mouldingMode} onValueChange={(value: MouldingMode) => setOrderSpecs(prev => ({ ...prev, mouldingMode: value }))}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select mat..." />
+                        <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="none">No Mat</SelectItem>
-                        {getMaterialsByCategory('mats').map(mat => (
-                          <SelectItem key={mat.id} value={mat.sku}>
-                            {mat.name} - {formatCurrency(mat.unit_price)}/sq ft
-                          </SelectItem>
-                        ))}
+                        <SelectItem value="length">Length (cut in-house, includes miter waste)</SelectItem>
+                        <SelectItem value="chop">Chop (cut to size by supplier)</SelectItem>
+                        <SelectItem value="join">Join (assembled by supplier)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                      <Label>Mat Stack</Label>
+                      <Button variant="outline" size="sm" onClick={addMatLayer}>
+                        + Add Layer
+                      </Button>
+                    </div>
+                    {orderSpecs.matLayers.length === 0 && (
+                      <p className="text-sm text-gray-500">No mat</p>
+                    )}
+                    {orderSpecs.matLayers.map((layer, index) => (
+                      <div key={index} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium">
+                            {index === 0 ? 'Top Mat' : `Layer ${index + 1}`}
+                          </span>
+                          <Button variant="outline" size="sm" onClick={() => removeMatLayer(index)}>
+                            Remove
+                          </Button>
+                        </div>
+                        <Select value={layer.matType} onValueChange={(value) => updateMatLayer(index, { matType: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select mat..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getPriceBookOptions('mats').map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label} - {formatCurrency(option.rate)}/sq in
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <div className="grid grid-cols-2 gap-2">
+                          {index > 0 && (
+                            <div>
+                              <Label className="text-xs">Reveal (inches)</Label>
+                              <Input
+                                type="number"
+                                step="0.125"
+                                value={layer.reveal || 0}
+                                onChange={(e) => updateMatLayer(index, { reveal: parseFloat(e.target.value) || 0 })}
+                              />
+                            </div>
+                          )}
+                          <div>
+                            <Label className="text-xs">Fillet</Label>
+                            <Select value={layer.fillet || 'none'} onValueChange={(value) => updateMatLayer(index, { fillet: value === 'none' ? undefined : value })}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No Fillet</SelectItem>
+                                {getFilletOptions().map(option => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label} - {formatCurrency(option.rate)}/in
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            id={`vGroove-${index}`}
+                            checked={Boolean(layer.vGroove)}
+                            onChange={(e) => updateMatLayer(index, { vGroove: e.target.checked })}
+                            className="rounded"
+                          />
+                          <Label htmlFor={`vGroove-${index}`} className="text-sm">V-Groove</Label>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
                   <div>
                     <Label>Glass Type *</Label>
                     <Select value={orderSpecs.glassType} onValueChange={(value) => setOrderSpecs(prev => ({ ...prev, glassType: value }))}>
@@ -591,9 +921,9 @@ export function FramingPOS() {
                         <SelectValue placeholder="Select glass..." />
                       </SelectTrigger>
                       <SelectContent>
-                        {getMaterialsByCategory('glass').map(glass => (
-                          <SelectItem key={glass.id} value={glass.sku}>
-                            {glass.name} - {formatCurrency(glass.unit_price)}/sq ft
+                        {getPriceBookOptions('glass').map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label} - {formatCurrency(option.rate)}/sq in
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -607,9 +937,9 @@ export function FramingPOS() {
                         <SelectValue placeholder="Select backing..." />
                       </SelectTrigger>
                       <SelectContent>
-                        {getMaterialsByCategory('backing').map(backing => (
-                          <SelectItem key={backing.id} value={backing.sku}>
-                            {backing.name} - {formatCurrency(backing.unit_price)}/sq ft
+                        {getPriceBookOptions('backing').map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label} - {formatCurrency(option.rate)}/sq in
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -647,19 +977,37 @@ export function FramingPOS() {
                           {pricing.finishedSize.width}" × {pricing.finishedSize.height}" 
                           ({pricing.finishedSize.area.toFixed(1)} sq in)
                         </p>
+                        <p className="text-sm text-blue-700">
+                          Opening: {pricing.openingSize.width}" × {pricing.openingSize.height}" · 
+                          Borders T {pricing.borders.top}" / B {pricing.borders.bottom}" / L {pricing.borders.left}" / R {pricing.borders.right}"
+                        </p>
                       </div>
 
                       <div className="space-y-2 text-sm">
                         <div className="flex justify-between">
-                          <span>Frame:</span>
+                          <span>Base Price:</span>
+                          <span>{formatCurrency(pricing.breakdown.basePrice)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>
+                            Frame ({pricing.moulding.method === 'united_inch'
+                              ? `${pricing.moulding.unitedInches} united in`
+                              : `${pricing.moulding.mode}, ${pricing.moulding.footage} ft`}):
+                          </span>
                           <span>{formatCurrency(pricing.breakdown.framePrice)}</span>
                         </div>
-                        {pricing.breakdown.matPrice > 0 && orderSpecs.matType !== 'none' && (
+                        {pricing.breakdown.matPrice > 0 && (
                           <div className="flex justify-between">
-                            <span>Mat Board:</span>
+                            <span>Mat Stack ({pricing.matLayers.length} {pricing.matLayers.length === 1 ? 'layer' : 'layers'}):</span>
                             <span>{formatCurrency(pricing.breakdown.matPrice)}</span>
                           </div>
                         )}
+                        {pricing.matLayers.length > 1 && pricing.matLayers.map((layer, index) => (
+                          <div key={index} className="flex justify-between text-xs text-gray-500 pl-3">
+                            <span>{layer.matType} ({layer.opening.width}" × {layer.opening.height}" opening)</span>
+                            <span>{formatCurrency(layer.total)}</span>
+                          </div>
+                        ))}
                         <div className="flex justify-between">
                           <span>Glass:</span>
                           <span>{formatCurrency(pricing.breakdown.glassPrice)}</span>
@@ -684,7 +1032,9 @@ export function FramingPOS() {
                           <span>{formatCurrency(pricing.breakdown.subtotal)}</span>
                         </div>
                         <div className="flex justify-between">
-                          <span>Tax:</span>
+                          <span>
+                            Tax{taxExemptCertificate ? ` (exempt, certificate ${taxExemptCertificate})` : ''}:
+                          </span>
                           <span>{formatCurrency(pricing.breakdown.tax)}</span>
                         </div>
                         <Separator />
@@ -696,13 +1046,92 @@ export function FramingPOS() {
                     </div>
 
                     <div className="space-y-4">
+                      <Button
+                        variant="outline"
+                        onClick={addItemToOrder}
+                        disabled={!isItemComplete(orderSpecs)}
+                        className="w-full"
+                      >
+                        + Add Piece to Order
+                      </Button>
+
+                      {orderItems.length > 0 && (
+                        <div className="border rounded-lg p-3 space-y-2 text-sm">
+                          <div className="font-medium">Order Items ({orderItems.length})</div>
+                          {orderItems.map((item, index) => (
+                            <div key={index} className="flex justify-between items-center">
+                              <span className="truncate">
+                                {index + 1}. {item.artworkDescription} ({item.imageWidth}" × {item.imageHeight}")
+                              </span>
+                              <span className="flex items-center gap-2">
+                                {formatCurrency(priceItem(item).breakdown.total)}
+                                <Button variant="outline" size="sm" onClick={() => removeOrderItem(index)}>
+                                  Remove
+                                </Button>
+                              </span>
+                            </div>
+                          ))}
+                          <Separator />
+                          <div className="flex justify-between font-bold">
+                            <span>Order Total:</span>
+                            <span className="text-green-600">
+                              {formatCurrency(rollUpBreakdowns(orderItems.map(item => priceItem(item).breakdown)).total)}
+                            </span>
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="border rounded-lg p-3 space-y-2 text-sm">
+                        {tradeAccount && (
+                          <div className="text-gray-600">
+                            Trade account: {tradeAccount.account.companyName} · {tradeAccount.account.terms.replace('_', ' ')} ·{' '}
+                            {formatCurrency(tradeAccount.availableCredit)} credit available
+                          </div>
+                        )}
+                        <div className="flex gap-2">
+                          <Input
+                            placeholder="Coupon code"
+                            value={couponCode}
+                            onChange={(e) => setCouponCode(e.target.value)}
+                          />
+                          {coupon ? (
+                            <Button variant="outline" onClick={() => { setCoupon(null); setCouponCode(''); }}>
+                              Remove
+                            </Button>
+                          ) : (
+                            <Button variant="outline" onClick={applyCoupon} disabled={!couponCode.trim()}>
+                              Apply
+                            </Button>
+                          )}
+                        </div>
+                        {(() => {
+                          const { lines, totals } = previewDiscounts();
+                          if (lines.length === 0) return null;
+                          return (
+                            <>
+                              {lines.map((line, index) => (
+                                <div key={index} className="flex justify-between text-green-700">
+                                  <span>{line.label}:</span>
+                                  <span>-{formatCurrency(line.amount)}</span>
+                                </div>
+                              ))}
+                              <Separator />
+                              <div className="flex justify-between font-bold">
+                                <span>Discounted Total:</span>
+                                <span className="text-green-600">{formatCurrency(totals.total)}</span>
+                              </div>
+                            </>
+                          );
+                        })()}
+                      </div>
+
                       <Button
                         onClick={createOrder}
-                        disabled={!selectedCustomer || !orderSpecs.artworkDescription || !orderSpecs.frameStyle || !orderSpecs.glassType || !orderSpecs.backingType || loading}
+                        disabled={!selectedCustomer || (orderItems.length === 0 && !isItemComplete(orderSpecs)) || loading}
                         className="w-full"
                         size="lg"
                       >
-                        {loading ? 'Creating Order...' : 'Create Order'}
+                        {loading ? 'Creating Order...' : orderItems.length > 0 ? `Create Order (${orderItems.length} pieces)` : 'Create Order'}
                       </Button>
 
                       {orderSpecs.priority !== 'standard' && (
@@ -760,18 +1189,74 @@ export function FramingPOS() {
                               <p className="text-xs text-gray-500">
                                 {order.image_width}" × {order.image_height}" 
                                 {order.mat_width > 0 && ` (with ${order.mat_width}" mat)`}
+                                {order.mat_layers?.length > 1 && ` · ${order.mat_layers.length}-layer mat`}
+                                {order.order_items?.length > 1 && ` · ${order.order_items.length} pieces`}
                               </p>
+                              {order.mat_border_top !== null && order.mat_border_top !== undefined && (() => {
+                                const dimensions = summarizeMatDimensions({
+                                  imageWidth: parseFloat(order.image_width),
+                                  imageHeight: parseFloat(order.image_height),
+                                  matBorders: {
+                                    top: parseFloat(order.mat_border_top),
+                                    bottom: parseFloat(order.mat_border_bottom),
+                                    left: parseFloat(order.mat_border_left),
+                                    right: parseFloat(order.mat_border_right)
+                                  },
+                                  matLayers: order.mat_layers || []
+                                });
+                                return (
+                                  <p className="text-xs text-gray-500">
+                                    Opening {dimensions.opening.width}" × {dimensions.opening.height}" · 
+                                    Outside {dimensions.outside.width}" × {dimensions.outside.height}"
+                                  </p>
+                                );
+                              })()}
                             </div>
                             <div className="text-right">
                               <div className="text-lg font-bold text-green-600">
                                 {formatCurrency(parseFloat(order.total))}
                               </div>
+                              {order.discount_lines?.map((line: any, index: number) => (
+                                <div key={index} className="text-xs text-green-700">
+                                  {line.label} -{formatCurrency(line.amount)}
+                                </div>
+                              ))}
                               <div className="text-sm text-gray-500">
                                 {new Date(order.created_at).toLocaleDateString()}
                               </div>
                               <Badge variant={order.payment_status === 'paid' ? 'default' : 'secondary'}>
                                 {order.payment_status}
                               </Badge>
+                              {order.due_date && order.payment_status !== 'paid' && (
+                                <div className={`text-xs ${new Date(order.due_date) < new Date() ? 'text-red-600' : 'text-gray-500'}`}>
+                                  Due {new Date(order.due_date).toLocaleDateString()}
+                                </div>
+                              )}
+                              {!['quote', 'cancelled'].includes(order.status) &&
+                                parseFloat(order.total) - parseFloat(order.amount_paid || 0) > 0 && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="mt-2 flex items-center gap-1"
+                                  disabled={checkoutLoading}
+                                  onClick={() => createOrderCheckoutSession(order.id).catch(error => alert(error.message))}
+                                >
+                                  <CreditCard className="w-3 h-3" />
+                                  Pay {formatCurrency(parseFloat(order.total) - parseFloat(order.amount_paid || 0))} by Card
+                                </Button>
+                              )}
+                              {!['cancelled', 'completed'].includes(order.status) &&
+                                (order.customer?.loyalty_points || 0) >= 100 && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="mt-2 flex items-center gap-1"
+                                  onClick={() => redeemPoints(order)}
+                                >
+                                  <Gift className="w-3 h-3" />
+                                  Redeem Points
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </CardContent>
@@ -792,7 +1277,13 @@ export function FramingPOS() {
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                   {customers.map(customer => (
-                    <Card key={customer.id} className="hover:shadow-md transition-shadow">
+                    <Card
+                      key={customer.id}
+                      className={`cursor-pointer hover:shadow-md transition-shadow ${
+                        accountCustomer?.id === customer.id ? 'ring-2 ring-blue-400' : ''
+                      }`}
+                      onClick={() => setAccountCustomer(customer)}
+                    >
                       <CardContent className="p-4">
                         <div className="space-y-2">
                           <h4 className="font-medium">{customer.name}</h4>
@@ -814,6 +1305,22 @@ export function FramingPOS() {
                               {customer.address}
                             </div>
                           )}
+                          {(() => {
+                            const stats = customerStats(customer);
+                            return (
+                              <div className="grid grid-cols-2 gap-x-4 gap-y-1 pt-2 border-t text-xs text-gray-600">
+                                <span>Orders: <span className="font-medium text-gray-900">{stats.totalOrders}</span></span>
+                                <span>Spent: <span className="font-medium text-gray-900">{formatCurrency(stats.totalSpent)}</span></span>
+                                <span>Avg order: <span className="font-medium text-gray-900">{formatCurrency(stats.averageOrderValue)}</span></span>
+                                <span>
+                                  Last visit:{' '}
+                                  <span className="font-medium text-gray-900">
+                                    {stats.daysSinceLastVisit === null ? 'never' : `${stats.daysSinceLastVisit}d ago`}
+                                  </span>
+                                </span>
+                              </div>
+                            );
+                          })()}
                         </div>
                       </CardContent>
                     </Card>
@@ -821,6 +1328,12 @@ export function FramingPOS() {
                 </div>
               </CardContent>
             </Card>
+
+            {accountCustomer && (
+              <div className="mt-6">
+                <CustomerAccount customerId={accountCustomer.id} customerName={accountCustomer.name} />
+              </div>
+            )}
           </TabsContent>
 
           {/* Materials Tab */}
@@ -852,6 +1365,16 @@ export function FramingPOS() {
               ))}
             </div>
           </TabsContent>
+
+          {/* Register Tab */}
+          <TabsContent value="register">
+            <CashDrawer />
+          </TabsContent>
+
+          {/* Dashboard Tab */}
+          <TabsContent value="dashboard">
+            <Dashboard />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -47,6 +47,49 @@ export function useStripe() {
     }
   };
 
+  // Checkout for the balance due on a POS order; line items come from the order's pricing
+  const createOrderCheckoutSession = async (orderId: string) => {
+    setLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/stripe-checkout`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          order_id: orderId,
+          success_url: `${window.location.origin}/success?order=${orderId}`,
+          cancel_url: `${window.location.origin}/`,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create checkout session');
+      }
+
+      const { url } = await response.json();
+      
+      if (url) {
+        window.location.href = url;
+      } else {
+        throw new Error('No checkout URL received');
+      }
+    } catch (error) {
+      console.error('Checkout error:', error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const getSubscription = async () => {
     try {
       const { data, error } = await supabase
@@ -87,6 +130,7 @@ export function useStripe() {
 
   return {
     createCheckoutSession,
+    createOrderCheckoutSession,
     getSubscription,
     getOrders,
     loading,
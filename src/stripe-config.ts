@@ -1,3 +1,6 @@
+// Fixed-price catalog for the public pricing page only.
+// POS orders are charged for their actual balance via order checkout (useStripe.createOrderCheckoutSession).
+
 export interface StripeProduct {
   id: string;
   priceId: string;
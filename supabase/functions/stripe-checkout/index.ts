@@ -43,7 +43,26 @@ Deno.serve(async (req) => {
       return corsResponse({ error: 'Method not allowed' }, 405);
     }
 
-    const { price_id, success_url, cancel_url, mode } = await req.json();
+    const { price_id, order_id, success_url, cancel_url, mode } = await req.json();
+
+    // POS orders are charged from the order row rather than a catalog price
+    if (order_id !== undefined) {
+      const orderError = validateParameters(
+        { order_id, success_url, cancel_url },
+        { order_id: 'string', success_url: 'string', cancel_url: 'string' },
+      );
+
+      if (orderError) {
+        return corsResponse({ error: orderError }, 400);
+      }
+
+      const { error: authError } = await getAuthenticatedUser(req);
+      if (authError) {
+        return corsResponse({ error: authError.message }, authError.status);
+      }
+
+      return await createOrderCheckout(order_id, success_url, cancel_url);
+    }
 
     const error = validateParameters(
       { price_id, success_url, cancel_url, mode },
@@ -59,19 +78,9 @@ Deno.serve(async (req) => {
       return corsResponse({ error }, 400);
     }
 
-    const authHeader = req.headers.get('Authorization')!;
-    const token = authHeader.replace('Bearer ', '');
-    const {
-      data: { user },
-      error: getUserError,
-    } = await supabase.auth.getUser(token);
-
-    if (getUserError) {
-      return corsResponse({ error: 'Failed to authenticate user' }, 401);
-    }
-
-    if (!user) {
-      return corsResponse({ error: 'User not found' }, 404);
+    const { user, error: authError } = await getAuthenticatedUser(req);
+    if (authError || !user) {
+      return corsResponse({ error: authError?.message }, authError?.status ?? 401);
     }
 
     const { data: customer, error: getCustomerError } = await supabase
@@ -201,6 +210,137 @@ Deno.serve(async (req) => {
   }
 });
 
+async function getAuthenticatedUser(req: Request) {
+  const authHeader = req.headers.get('Authorization') ?? '';
+  const token = authHeader.replace('Bearer ', '');
+  const {
+    data: { user },
+    error: getUserError,
+  } = await supabase.auth.getUser(token);
+
+  if (getUserError) {
+    return { user: null, error: { message: 'Failed to authenticate user', status: 401 } };
+  }
+
+  if (!user) {
+    return { user: null, error: { message: 'User not found', status: 404 } };
+  }
+
+  return { user, error: null };
+}
+
+// Breakdown columns on `orders`, in the order they appear on the checkout page
+const BREAKDOWN_LINES: { column: string; name: string }[] = [
+  { column: 'base_price', name: 'Framing service' },
+  { column: 'frame_price', name: 'Frame moulding' },
+  { column: 'mat_price', name: 'Mat board' },
+  { column: 'glass_price', name: 'Glazing' },
+  { column: 'backing_price', name: 'Backing' },
+  { column: 'labor_price', name: 'Labor' },
+  { column: 'rush_fee', name: 'Rush fee' },
+  { column: 'tax', name: 'Sales tax' },
+];
+
+const toCents = (value: string | number | null | undefined) => Math.round(parseFloat(String(value ?? 0)) * 100);
+
+/**
+ * Creates a Checkout Session for an order's balance due.
+ * An unpaid order is itemized from its pricing breakdown; a partly paid one
+ * is charged as a single balance line, since Checkout cannot show credits.
+ */
+async function createOrderCheckout(orderId: string, success_url: string, cancel_url: string) {
+  const { data: order, error: getOrderError } = await supabase
+    .from('orders')
+    .select('*, customer:customers(name, email), order_items(line_number, artwork_description, image_width, image_height)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (getOrderError) {
+    console.error('Failed to fetch order for checkout', getOrderError);
+    return corsResponse({ error: 'Failed to fetch order' }, 500);
+  }
+
+  if (!order) {
+    return corsResponse({ error: 'Order not found' }, 404);
+  }
+
+  if (['quote', 'cancelled'].includes(order.status)) {
+    return corsResponse({ error: `Cannot take payment for a ${order.status} order` }, 409);
+  }
+
+  const totalCents = toCents(order.total);
+  const balanceCents = totalCents - toCents(order.amount_paid);
+
+  if (balanceCents <= 0) {
+    return corsResponse({ error: 'Order has no balance due' }, 409);
+  }
+
+  const pieces = (order.order_items ?? [])
+    .sort((a: any, b: any) => a.line_number - b.line_number)
+    .map((item: any) => `${item.artwork_description || 'Artwork'} (${item.image_width}" × ${item.image_height}")`)
+    .join('; ');
+
+  let lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
+
+  if (balanceCents === totalCents) {
+    lineItems = BREAKDOWN_LINES
+      .map(({ column, name }) => ({ name, cents: toCents(order[column]) }))
+      .filter(line => line.cents > 0)
+      .map(line => ({
+        price_data: {
+          currency: 'usd',
+          unit_amount: line.cents,
+          product_data: {
+            name: line.name,
+            ...(line.name === 'Framing service' && pieces ? { description: pieces } : {}),
+          },
+        },
+        quantity: 1,
+      }));
+
+    // Older orders without a breakdown, or rounding drift, fall back to one line
+    const itemizedCents = lineItems.reduce((sum, line) => sum + (line.price_data?.unit_amount ?? 0), 0);
+    if (itemizedCents !== balanceCents) {
+      lineItems = [];
+    }
+  }
+
+  if (lineItems.length === 0) {
+    lineItems = [
+      {
+        price_data: {
+          currency: 'usd',
+          unit_amount: balanceCents,
+          product_data: {
+            name: `Balance due on order ${order.order_number}`,
+            ...(pieces ? { description: pieces } : {}),
+          },
+        },
+        quantity: 1,
+      },
+    ];
+  }
+
+  const metadata = { order_id: order.id, order_number: order.order_number };
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'payment',
+    payment_method_types: ['card'],
+    line_items: lineItems,
+    customer_email: order.customer?.email ?? undefined,
+    client_reference_id: order.id,
+    metadata,
+    // Copied to the PaymentIntent so refunds and failures can be traced to the order
+    payment_intent_data: { metadata },
+    success_url,
+    cancel_url,
+  });
+
+  console.log(`Created checkout session ${session.id} for order ${order.order_number}`);
+
+  return corsResponse({ sessionId: session.id, url: session.url, amount: balanceCents / 100 });
+}
+
 type ExpectedType = 'string' | { values: string[] };
 type Expectations<T> = { [K in keyof T]: ExpectedType };
 
@@ -1,6 +1,7 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import Stripe from 'npm:stripe@17.7.0';
 import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { reconcileEvent, LedgerStore, RECONCILED_EVENT_TYPES } from './reconcile.ts';
 
 const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
 const stripeWebhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET')!;
@@ -44,6 +45,16 @@ Deno.serve(async (req) => {
       return new Response(`Webhook signature verification failed: ${error.message}`, { status: 400 });
     }
 
+    // POS ledger events are handled before responding so a failure makes Stripe retry
+    if ((RECONCILED_EVENT_TYPES as readonly string[]).includes(event.type)) {
+      const result = await reconcileEvent(event, ledgerStore);
+      console.info(`Reconciled ${event.type} ${event.id}: ${JSON.stringify(result)}`);
+
+      if (result.status !== 'ignored') {
+        return Response.json({ received: true, ...result });
+      }
+    }
+
     EdgeRuntime.waitUntil(handleEvent(event));
 
     return Response.json({ received: true });
@@ -188,4 +199,79 @@ async function syncCustomerFromStripe(customerId: string) {
     console.error(`Failed to sync subscription for customer ${customerId}:`, error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Mirrors PaymentService.recomputeOrderBalance. recompute_order_balance locks the order and
+// customer rows and updates the balance, the customer's stats and loyalty points in one transaction,
+// so a POS payment on the same order can't interleave with it
+async function recomputeOrderBalance(orderId: string) {
+  const { error } = await supabase.rpc('recompute_order_balance', { p_order_id: orderId });
+
+  if (error) {
+    console.error(`Failed to recompute balance for order ${orderId}:`, error);
+    throw new Error('Failed to recompute order balance');
+  }
+}
+
+const ledgerStore: LedgerStore = {
+  async claimEvent(event, orderId) {
+    const { data, error } = await supabase
+      .from('stripe_webhook_events')
+      .upsert({ event_id: event.id, type: event.type, order_id: orderId }, { onConflict: 'event_id', ignoreDuplicates: true })
+      .select('event_id');
+
+    if (error) throw new Error(`Failed to claim event ${event.id}: ${error.message}`);
+    return (data ?? []).length > 0;
+  },
+
+  async releaseEvent(eventId) {
+    const { error } = await supabase.from('stripe_webhook_events').delete().eq('event_id', eventId);
+    if (error) console.error(`Failed to release event ${eventId}:`, error);
+  },
+
+  async findPaymentByTransaction(transactionIds) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, order_id, amount, method, kind, status, transaction_id, refunded_amount')
+      .eq('kind', 'payment')
+      .in('transaction_id', transactionIds)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to find payment: ${error.message}`);
+    return data;
+  },
+
+  async insertPayment(row) {
+    const { data, error } = await supabase
+      .from('payments')
+      .upsert(row, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw new Error(`Failed to record payment for order ${row.order_id}: ${error.message}`);
+    return (data ?? []).length > 0;
+  },
+
+  async sumReversals(originalPaymentId) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('amount')
+      .eq('original_payment_id', originalPaymentId)
+      .not('status', 'in', '(pending,failed,released)');
+
+    if (error) throw new Error(`Failed to sum refunds: ${error.message}`);
+    return Math.round(-(data ?? []).reduce((sum, row) => sum + parseFloat(row.amount), 0) * 100) / 100;
+  },
+
+  async updatePayment(paymentId, changes) {
+    const { error } = await supabase.from('payments').update(changes).eq('id', paymentId);
+    if (error) throw new Error(`Failed to update payment ${paymentId}: ${error.message}`);
+  },
+
+  async listRefunds(chargeId) {
+    const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+    return refunds.data;
+  },
+
+  recomputeOrderBalance,
+};
@@ -0,0 +1,173 @@
+import assert from 'node:assert/strict';
+import type Stripe from 'npm:stripe@17.7.0';
+import { reconcileEvent, LedgerStore, NewPaymentRow, PaymentRow } from './reconcile.ts';
+import checkoutCompleted from './fixtures/checkout.session.completed.json' with { type: 'json' };
+import chargeRefunded from './fixtures/charge.refunded.json' with { type: 'json' };
+import paymentFailed from './fixtures/payment_intent.payment_failed.json' with { type: 'json' };
+
+const ORDER_ID = '5d0c8a4e-6f7b-4c1e-9a2d-3b8e7f6a1c90';
+
+const asEvent = (fixture: unknown) => structuredClone(fixture) as Stripe.Event;
+
+// Keeps the ledger in memory with the same idempotency rules as the payments table
+class MemoryLedger implements LedgerStore {
+  events = new Set<string>();
+  payments: (PaymentRow & Partial<NewPaymentRow>)[] = [];
+  recomputed: string[] = [];
+  failNextInsert = false;
+
+  async claimEvent(event: Stripe.Event) {
+    if (this.events.has(event.id)) return false;
+    this.events.add(event.id);
+    return true;
+  }
+
+  async releaseEvent(eventId: string) {
+    this.events.delete(eventId);
+  }
+
+  async findPaymentByTransaction(transactionIds: string[]) {
+    return this.payments.find(row => row.kind === 'payment' && transactionIds.includes(row.transaction_id ?? '')) ?? null;
+  }
+
+  async insertPayment(row: NewPaymentRow) {
+    if (this.failNextInsert) {
+      this.failNextInsert = false;
+      throw new Error('connection reset');
+    }
+    if (this.payments.some(existing => existing.idempotency_key === row.idempotency_key)) return false;
+    this.payments.push({ ...row, id: `pay_${this.payments.length + 1}`, transaction_id: row.transaction_id ?? null, refunded_amount: null });
+    return true;
+  }
+
+  async sumReversals(originalPaymentId: string) {
+    const reversals = this.payments.filter(row =>
+      row.original_payment_id === originalPaymentId && !['pending', 'failed', 'released'].includes(row.status));
+    return Math.round(-reversals.reduce((sum, row) => sum + parseFloat(row.amount), 0) * 100) / 100;
+  }
+
+  async updatePayment(paymentId: string, changes: Partial<Pick<PaymentRow, 'refunded_amount' | 'status'>>) {
+    Object.assign(this.payments.find(row => row.id === paymentId)!, changes);
+  }
+
+  async listRefunds(): Promise<Stripe.Refund[]> {
+    return [];
+  }
+
+  async recomputeOrderBalance(orderId: string) {
+    this.recomputed.push(orderId);
+  }
+
+  balance() {
+    const counted = this.payments.filter(row => !['pending', 'failed', 'released'].includes(row.status));
+    return Math.round(counted.reduce((sum, row) => sum + parseFloat(row.amount), 0) * 100) / 100;
+  }
+}
+
+Deno.test('checkout.session.completed records the payment once', async () => {
+  const store = new MemoryLedger();
+
+  const first = await reconcileEvent(asEvent(checkoutCompleted), store);
+  const replay = await reconcileEvent(asEvent(checkoutCompleted), store);
+
+  assert.deepEqual(first, { status: 'processed', orderId: ORDER_ID, recorded: 1 });
+  assert.deepEqual(replay, { status: 'duplicate', orderId: ORDER_ID });
+  assert.equal(store.payments.length, 1);
+  assert.equal(store.payments[0].amount, '287.50');
+  assert.equal(store.payments[0].transaction_id, 'pi_3S3kPzLuhYFyRBQA1wX9yZ2a');
+  assert.deepEqual(store.recomputed, [ORDER_ID]);
+  assert.equal(store.balance(), 287.5);
+});
+
+Deno.test('charge.refunded records the refund against the checkout payment', async () => {
+  const store = new MemoryLedger();
+  await reconcileEvent(asEvent(checkoutCompleted), store);
+
+  const result = await reconcileEvent(asEvent(chargeRefunded), store);
+
+  assert.deepEqual(result, { status: 'processed', orderId: ORDER_ID, recorded: 1 });
+  const [payment, refund] = store.payments;
+  assert.equal(refund.amount, '-50.00');
+  assert.equal(refund.kind, 'refund');
+  assert.equal(refund.original_payment_id, payment.id);
+  assert.equal(payment.refunded_amount, '50.00');
+  assert.equal(payment.status, 'completed');
+  assert.equal(store.balance(), 237.5);
+});
+
+Deno.test('a refund redelivered under a new event ID is not counted twice', async () => {
+  const store = new MemoryLedger();
+  await reconcileEvent(asEvent(checkoutCompleted), store);
+  await reconcileEvent(asEvent(chargeRefunded), store);
+
+  const redelivered = asEvent(chargeRefunded);
+  redelivered.id = 'evt_redelivered';
+  const result = await reconcileEvent(redelivered, store);
+
+  assert.deepEqual(result, { status: 'processed', orderId: ORDER_ID, recorded: 0 });
+  assert.equal(store.payments.filter(row => row.kind === 'refund').length, 1);
+  assert.equal(store.balance(), 237.5);
+});
+
+Deno.test('a full refund marks the payment refunded', async () => {
+  const store = new MemoryLedger();
+  await reconcileEvent(asEvent(checkoutCompleted), store);
+
+  const fullRefund = asEvent(chargeRefunded);
+  const charge = fullRefund.data.object as Stripe.Charge;
+  charge.refunds!.data[0].amount = 28750;
+
+  await reconcileEvent(fullRefund, store);
+
+  assert.equal(store.payments[0].status, 'refunded');
+  assert.equal(store.payments[0].refunded_amount, '287.50');
+  assert.equal(store.balance(), 0);
+});
+
+Deno.test('charge.refunded without a POS payment is ignored', async () => {
+  const store = new MemoryLedger();
+
+  const result = await reconcileEvent(asEvent(chargeRefunded), store);
+
+  assert.equal(result.status, 'ignored');
+  assert.equal(store.events.size, 0);
+  assert.equal(store.payments.length, 0);
+});
+
+Deno.test('payment_intent.payment_failed keeps the attempt without counting it', async () => {
+  const store = new MemoryLedger();
+
+  const result = await reconcileEvent(asEvent(paymentFailed), store);
+
+  assert.deepEqual(result, { status: 'processed', orderId: ORDER_ID, recorded: 1 });
+  assert.equal(store.payments[0].status, 'failed');
+  assert.deepEqual(store.payments[0].processor_response, {
+    code: 'card_declined',
+    decline_code: 'insufficient_funds',
+    message: 'Your card has insufficient funds.',
+  });
+  assert.equal(store.balance(), 0);
+});
+
+Deno.test('a failed attempt releases the event so redelivery records it', async () => {
+  const store = new MemoryLedger();
+  store.failNextInsert = true;
+
+  await assert.rejects(reconcileEvent(asEvent(checkoutCompleted), store), /connection reset/);
+  assert.equal(store.events.size, 0);
+
+  const retry = await reconcileEvent(asEvent(checkoutCompleted), store);
+  assert.deepEqual(retry, { status: 'processed', orderId: ORDER_ID, recorded: 1 });
+  assert.equal(store.payments.length, 1);
+});
+
+Deno.test('events the ledger does not handle are ignored', async () => {
+  const store = new MemoryLedger();
+  const event = asEvent(checkoutCompleted);
+  event.type = 'customer.created' as Stripe.Event['type'];
+
+  const result = await reconcileEvent(event, store);
+
+  assert.equal(result.status, 'ignored');
+  assert.equal(store.events.size, 0);
+});
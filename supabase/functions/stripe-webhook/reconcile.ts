@@ -0,0 +1,191 @@
+import type Stripe from 'npm:stripe@17.7.0';
+
+/**
+ * Reconciles Stripe events into the POS `payments` ledger.
+ *
+ * Everything that touches the database goes through LedgerStore so the
+ * logic can be replayed against the recorded payloads in ./fixtures with
+ * an in-memory store.
+ */
+
+export interface PaymentRow {
+  id: string;
+  order_id: string;
+  amount: string;
+  method: string;
+  kind: string;
+  status: string;
+  transaction_id: string | null;
+  refunded_amount: string | null;
+}
+
+export interface NewPaymentRow {
+  order_id: string;
+  amount: string;
+  method: string;
+  kind: 'payment' | 'refund';
+  status: 'completed' | 'failed';
+  original_payment_id?: string;
+  reason?: string;
+  transaction_id?: string | null;
+  idempotency_key: string;
+  processor_response?: Record<string, unknown>;
+  notes?: string;
+}
+
+export interface LedgerStore {
+  // Records the event ID; false if it was already processed
+  claimEvent(event: Stripe.Event, orderId: string): Promise<boolean>;
+  // Forgets a claimed event so a failed attempt is retried on redelivery
+  releaseEvent(eventId: string): Promise<void>;
+  findPaymentByTransaction(transactionIds: string[]): Promise<PaymentRow | null>;
+  // False when a row with the same idempotency key already exists
+  insertPayment(row: NewPaymentRow): Promise<boolean>;
+  sumReversals(originalPaymentId: string): Promise<number>;
+  updatePayment(paymentId: string, changes: Partial<Pick<PaymentRow, 'refunded_amount' | 'status'>>): Promise<void>;
+  listRefunds(chargeId: string): Promise<Stripe.Refund[]>;
+  recomputeOrderBalance(orderId: string): Promise<void>;
+}
+
+export type ReconcileResult =
+  | { status: 'ignored'; reason: string }
+  | { status: 'duplicate'; orderId: string }
+  | { status: 'processed'; orderId: string; recorded: number };
+
+export const RECONCILED_EVENT_TYPES = [
+  'checkout.session.completed',
+  'charge.refunded',
+  'payment_intent.payment_failed',
+] as const;
+
+const toAmount = (cents: number) => (cents / 100).toFixed(2);
+const idOf = (value: string | { id: string } | null | undefined) => (typeof value === 'string' ? value : value?.id);
+
+export async function reconcileEvent(event: Stripe.Event, store: LedgerStore): Promise<ReconcileResult> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(event, event.data.object as Stripe.Checkout.Session, store);
+    case 'charge.refunded':
+      return handleChargeRefunded(event, event.data.object as Stripe.Charge, store);
+    case 'payment_intent.payment_failed':
+      return handlePaymentFailed(event, event.data.object as Stripe.PaymentIntent, store);
+    default:
+      return { status: 'ignored', reason: `Unhandled event type ${event.type}` };
+  }
+}
+
+async function withClaim(
+  event: Stripe.Event,
+  orderId: string,
+  store: LedgerStore,
+  process: () => Promise<number>,
+): Promise<ReconcileResult> {
+  if (!(await store.claimEvent(event, orderId))) {
+    return { status: 'duplicate', orderId };
+  }
+
+  try {
+    const recorded = await process();
+    await store.recomputeOrderBalance(orderId);
+    return { status: 'processed', orderId, recorded };
+  } catch (error) {
+    await store.releaseEvent(event.id);
+    throw error;
+  }
+}
+
+async function handleCheckoutCompleted(event: Stripe.Event, session: Stripe.Checkout.Session, store: LedgerStore) {
+  const orderId = session.metadata?.order_id;
+  if (!orderId) {
+    return { status: 'ignored', reason: 'Checkout session is not for a POS order' } as const;
+  }
+  if (session.payment_status !== 'paid') {
+    return { status: 'ignored', reason: `Checkout session is ${session.payment_status}` } as const;
+  }
+
+  return withClaim(event, orderId, store, async () => {
+    const paymentIntentId = idOf(session.payment_intent);
+    const inserted = await store.insertPayment({
+      order_id: orderId,
+      amount: toAmount(session.amount_total ?? 0),
+      method: 'stripe',
+      kind: 'payment',
+      status: 'completed',
+      transaction_id: paymentIntentId,
+      // Same key whichever event or retry records it first
+      idempotency_key: `stripe:${session.id}`,
+      processor_response: { checkout_session_id: session.id, payment_intent: paymentIntentId },
+      notes: 'Stripe Checkout',
+    });
+    return inserted ? 1 : 0;
+  });
+}
+
+/**
+ * Records every succeeded refund on the charge that the ledger does not have yet.
+ * Refunds started from the POS are keyed by refund ID too, so they are not counted twice.
+ */
+async function handleChargeRefunded(event: Stripe.Event, charge: Stripe.Charge, store: LedgerStore) {
+  const transactionIds = [idOf(charge.payment_intent), charge.id].filter((id): id is string => Boolean(id));
+  const payment = await store.findPaymentByTransaction(transactionIds);
+
+  if (!payment) {
+    return { status: 'ignored', reason: `No POS payment for charge ${charge.id}` } as const;
+  }
+
+  return withClaim(event, payment.order_id, store, async () => {
+    const refunds = charge.refunds?.data?.length ? charge.refunds.data : await store.listRefunds(charge.id);
+    let recorded = 0;
+
+    for (const refund of refunds.filter(r => r.status === 'succeeded')) {
+      const inserted = await store.insertPayment({
+        order_id: payment.order_id,
+        amount: `-${toAmount(refund.amount)}`,
+        method: payment.method,
+        kind: 'refund',
+        status: 'completed',
+        original_payment_id: payment.id,
+        reason: refund.reason ?? 'Refunded in Stripe',
+        transaction_id: refund.id,
+        idempotency_key: `stripe-refund:${refund.id}`,
+        processor_response: { refund_id: refund.id, charge: charge.id },
+      });
+      if (inserted) recorded++;
+    }
+
+    const refundedAmount = await store.sumReversals(payment.id);
+    await store.updatePayment(payment.id, {
+      refunded_amount: refundedAmount.toFixed(2),
+      status: refundedAmount >= parseFloat(payment.amount) - 0.005 ? 'refunded' : payment.status,
+    });
+
+    return recorded;
+  });
+}
+
+async function handlePaymentFailed(event: Stripe.Event, intent: Stripe.PaymentIntent, store: LedgerStore) {
+  const orderId = intent.metadata?.order_id;
+  if (!orderId) {
+    return { status: 'ignored', reason: 'PaymentIntent is not for a POS order' } as const;
+  }
+
+  // Failed attempts are kept for the audit trail; they never count toward amount paid
+  return withClaim(event, orderId, store, async () => {
+    const inserted = await store.insertPayment({
+      order_id: orderId,
+      amount: toAmount(intent.amount),
+      method: 'stripe',
+      kind: 'payment',
+      status: 'failed',
+      transaction_id: intent.id,
+      idempotency_key: `stripe-failed:${event.id}`,
+      processor_response: {
+        code: intent.last_payment_error?.code ?? null,
+        decline_code: intent.last_payment_error?.decline_code ?? null,
+        message: intent.last_payment_error?.message ?? null,
+      },
+      notes: 'Stripe payment failed',
+    });
+    return inserted ? 1 : 0;
+  });
+}
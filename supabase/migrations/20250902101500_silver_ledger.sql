@@ -0,0 +1,65 @@
+/*
+  # Versioned Price Book
+
+  1. New Tables
+    - `price_books`: Versioned pricing tiers and material rates
+      - `version` is unique and increases with every published book
+      - `tiers` and `materials` hold the same shapes as `PRICING_TIERS` and `MATERIAL_PRICING`
+      - `effective_from` / `effective_to` decide which book prices new orders
+
+  2. Changes
+    - `orders.price_book_version`: the price book version that priced the order
+
+  3. Seed
+    - Version 1 mirrors the built-in defaults in `shared/pricing.ts`
+*/
+
+CREATE TABLE IF NOT EXISTS price_books (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer NOT NULL UNIQUE,
+  name text NOT NULL,
+  tiers jsonb NOT NULL,
+  materials jsonb NOT NULL,
+  effective_from timestamp with time zone NOT NULL DEFAULT now(),
+  effective_to timestamp with time zone,
+  notes text,
+  created_by text,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS price_books_effective_idx ON price_books (effective_from, effective_to);
+
+ALTER TABLE price_books ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage price books"
+  ON price_books
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS price_book_version integer;
+
+-- Seed version 1 from the original hard-coded pricing (open-ended tier uses a null maxSize)
+INSERT INTO price_books (version, name, tiers, materials, effective_from, notes) VALUES
+(
+  1,
+  'Initial price book',
+  '[
+    {"minSize": 0, "maxSize": 64, "basePrice": 45, "laborMultiplier": 1.0},
+    {"minSize": 65, "maxSize": 144, "basePrice": 65, "laborMultiplier": 1.2},
+    {"minSize": 145, "maxSize": 320, "basePrice": 85, "laborMultiplier": 1.4},
+    {"minSize": 321, "maxSize": 576, "basePrice": 125, "laborMultiplier": 1.6},
+    {"minSize": 577, "maxSize": 1024, "basePrice": 185, "laborMultiplier": 1.8},
+    {"minSize": 1025, "maxSize": 1600, "basePrice": 265, "laborMultiplier": 2.0},
+    {"minSize": 1601, "maxSize": null, "basePrice": 350, "laborMultiplier": 2.5}
+  ]',
+  '{
+    "frames": {"basic-wood": 2.50, "premium-wood": 4.50, "metal-standard": 3.25, "metal-premium": 5.75, "ornate-gold": 8.50, "contemporary": 6.25},
+    "mats": {"standard": 0.15, "conservation": 0.25, "fabric": 0.35, "specialty": 0.45},
+    "glass": {"regular": 0.08, "uv-protection": 0.18, "museum": 0.35, "anti-glare": 0.22},
+    "backing": {"standard": 0.05, "archival": 0.12, "foam-core": 0.08}
+  }',
+  '2025-01-01T00:00:00Z',
+  'Migrated from MATERIAL_PRICING and PRICING_TIERS'
+)
+ON CONFLICT (version) DO NOTHING;
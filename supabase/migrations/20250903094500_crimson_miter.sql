@@ -0,0 +1,46 @@
+/*
+  # Moulding Purchase Modes
+
+  1. Changes
+    - `price_books.moulding`: per-mode moulding rates, waste factors and united-inch tables
+      - Books without it price moulding by the foot with no waste or mode markup, as version 1 always did
+    - `orders.moulding_mode`: how the order's moulding is bought (length, chop or join)
+
+  2. Seed
+    - Publishes version 2: the open-ended book's tiers and materials with the defaults from
+      `MOULDING_PRICING` in `shared/pricing.ts`; the book it replaces is closed, not rewritten
+*/
+
+ALTER TABLE price_books ADD COLUMN IF NOT EXISTS moulding jsonb;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS moulding_mode text DEFAULT 'length';
+
+WITH current_book AS (
+  SELECT version, tiers, materials
+  FROM price_books
+  WHERE effective_to IS NULL AND moulding IS NULL
+  ORDER BY effective_from DESC, version DESC
+  LIMIT 1
+),
+closed AS (
+  UPDATE price_books
+  SET effective_to = now()
+  WHERE version = (SELECT version FROM current_book)
+  RETURNING version
+)
+INSERT INTO price_books (version, name, tiers, materials, moulding, effective_from, notes)
+SELECT
+  (SELECT max(version) FROM price_books) + 1,
+  'Moulding purchase modes',
+  tiers,
+  materials,
+  '{
+    "rates": {},
+    "modeMultipliers": {"length": 1.0, "chop": 1.35, "join": 1.6},
+    "wasteFactor": {"length": 0.15, "chop": 0, "join": 0},
+    "unitedInchTables": {}
+  }',
+  now(),
+  'Adds moulding waste and chop/join pricing to version ' || (SELECT version FROM closed)
+FROM current_book
+WHERE NOT EXISTS (SELECT 1 FROM price_books WHERE moulding IS NOT NULL);
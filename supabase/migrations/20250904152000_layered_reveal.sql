@@ -0,0 +1,52 @@
+/*
+  # Mat Stacks
+
+  1. Changes
+    - `orders.mat_layers`: ordered mat stack (top layer first) with reveal, fillet and V-groove per layer
+      - `orders.mat_type` keeps the top layer for existing reports
+    - `price_books.mat_stack`: fillet rates, V-groove rate and per-layer cutting labor
+      - Books without it have no fillets and charge nothing for V-grooves or extra layers
+
+  2. Seed
+    - Publishes a new version: the open-ended book's tiers, materials and moulding with the
+      defaults from `MAT_STACK_PRICING` in `shared/pricing.ts`; the book it replaces is closed, not rewritten
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS mat_layers jsonb;
+
+ALTER TABLE price_books ADD COLUMN IF NOT EXISTS mat_stack jsonb;
+
+-- Existing single-mat orders become one-layer stacks
+UPDATE orders
+SET mat_layers = jsonb_build_array(jsonb_build_object('matType', mat_type))
+WHERE mat_layers IS NULL AND mat_type IS NOT NULL AND mat_type <> 'none';
+
+WITH current_book AS (
+  SELECT version, tiers, materials, moulding
+  FROM price_books
+  WHERE effective_to IS NULL AND mat_stack IS NULL
+  ORDER BY effective_from DESC, version DESC
+  LIMIT 1
+),
+closed AS (
+  UPDATE price_books
+  SET effective_to = now()
+  WHERE version = (SELECT version FROM current_book)
+  RETURNING version
+)
+INSERT INTO price_books (version, name, tiers, materials, moulding, mat_stack, effective_from, notes)
+SELECT
+  (SELECT max(version) FROM price_books) + 1,
+  'Mat stacks',
+  tiers,
+  materials,
+  moulding,
+  '{
+    "fillets": {"gold-leaf": 0.45, "silver-leaf": 0.45, "black-lacquer": 0.35, "wood-natural": 0.30},
+    "vGroove": 0.10,
+    "layerLabor": 8.00
+  }',
+  now(),
+  'Adds fillet, V-groove and layer pricing to version ' || (SELECT version FROM closed)
+FROM current_book
+WHERE NOT EXISTS (SELECT 1 FROM price_books WHERE mat_stack IS NOT NULL);
@@ -0,0 +1,24 @@
+/*
+  # Per-Side Mat Borders
+
+  1. Changes
+    - `orders.mat_border_top`, `mat_border_bottom`, `mat_border_left`, `mat_border_right`
+      - Border from the artwork edge to the outside edge on each side
+      - Allows bottom-weighted and uneven borders
+
+  2. Backfill
+    - Existing orders get equal borders from `mat_width` / `mat_height`
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS mat_border_top decimal(8,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS mat_border_bottom decimal(8,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS mat_border_left decimal(8,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS mat_border_right decimal(8,2);
+
+UPDATE orders
+SET
+  mat_border_top = mat_height,
+  mat_border_bottom = mat_height,
+  mat_border_left = mat_width,
+  mat_border_right = mat_width
+WHERE mat_border_top IS NULL AND mat_width IS NOT NULL AND mat_height IS NOT NULL;
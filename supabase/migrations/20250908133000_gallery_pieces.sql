@@ -0,0 +1,91 @@
+/*
+  # Order Line Items
+
+  1. New Tables
+    - `order_items`: one row per framed piece on an order
+      - Own dimensions, mat stack, materials and pricing breakdown
+      - Own production `status` (pending, in_production, completed)
+      - Order pricing columns hold the roll-up of their items
+
+  2. Security
+    - Enable RLS with the same authenticated policy as `orders`
+
+  3. Backfill
+    - Every existing priced order becomes a single-item order
+*/
+
+CREATE TABLE IF NOT EXISTS order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) NOT NULL,
+  line_number integer NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+
+  -- Artwork specifications
+  artwork_description text,
+  image_width decimal(8,2) NOT NULL,
+  image_height decimal(8,2) NOT NULL,
+  mat_border_top decimal(8,2),
+  mat_border_bottom decimal(8,2),
+  mat_border_left decimal(8,2),
+  mat_border_right decimal(8,2),
+
+  -- Materials
+  frame_style text,
+  moulding_mode text DEFAULT 'length',
+  mat_type text,
+  mat_layers jsonb,
+  glass_type text,
+  backing_type text,
+  complexity text DEFAULT 'medium',
+
+  -- Pricing breakdown
+  base_price decimal(10,2),
+  frame_price decimal(10,2),
+  mat_price decimal(10,2),
+  glass_price decimal(10,2),
+  backing_price decimal(10,2),
+  labor_price decimal(10,2),
+  rush_fee decimal(10,2) DEFAULT 0.00,
+  subtotal decimal(10,2),
+  tax decimal(10,2),
+  total decimal(10,2) NOT NULL,
+
+  special_instructions text,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  UNIQUE (order_id, line_number)
+);
+
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order items"
+  ON order_items
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+INSERT INTO order_items (
+  order_id, line_number, status, artwork_description, image_width, image_height,
+  mat_border_top, mat_border_bottom, mat_border_left, mat_border_right,
+  frame_style, moulding_mode, mat_type, mat_layers, glass_type, backing_type, complexity,
+  base_price, frame_price, mat_price, glass_price, backing_price, labor_price, rush_fee,
+  subtotal, tax, total, completed_at
+)
+SELECT
+  o.id, 1,
+  CASE
+    WHEN o.status IN ('ready', 'completed') THEN 'completed'
+    WHEN o.status IN ('in_production', 'quality_check') THEN 'in_production'
+    ELSE 'pending'
+  END,
+  o.artwork_description, o.image_width, o.image_height,
+  o.mat_border_top, o.mat_border_bottom, o.mat_border_left, o.mat_border_right,
+  o.frame_style, o.moulding_mode, o.mat_type, o.mat_layers, o.glass_type, o.backing_type, o.complexity,
+  o.base_price, o.frame_price, o.mat_price, o.glass_price, o.backing_price, o.labor_price, o.rush_fee,
+  o.subtotal, o.tax, o.total, o.actual_completion
+FROM orders o
+WHERE o.image_width IS NOT NULL
+  AND o.image_height IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM order_items i WHERE i.order_id = o.id);
@@ -0,0 +1,97 @@
+/*
+  # Order Status Lifecycle
+
+  1. New Tables
+    - `order_status_history`: one row per status transition
+      - `from_status` is null for the status an order was created with
+      - `actor`, `note` and `created_at` record who moved it, why and when
+      - `override` marks transitions that bypassed a guard
+
+  2. Changes
+    - `order_items.assigned_to`: framer responsible for the piece
+      - Orders cannot move to ready while any item is unassigned
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+
+  4. Backfill
+    - Statuses from before the lifecycle are mapped onto it (`pending` becomes `approved`,
+      `in_progress` becomes `in_production`, ...); anything unrecognised becomes `approved`
+    - Every existing order gets a history row for its current status, noting the status it was mapped from
+*/
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS assigned_to text;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  actor text NOT NULL,
+  note text,
+  override boolean DEFAULT false,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_idx
+  ON order_status_history (order_id, created_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage order status history"
+  ON order_status_history
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+ALTER TABLE orders ALTER COLUMN status SET DEFAULT 'quote';
+
+CREATE TEMP TABLE legacy_order_status ON COMMIT DROP AS
+SELECT
+  id,
+  status AS legacy_status,
+  CASE lower(trim(status))
+    WHEN 'quote' THEN 'quote'
+    WHEN 'draft' THEN 'quote'
+    WHEN 'estimate' THEN 'quote'
+    WHEN 'pending' THEN 'approved'
+    WHEN 'new' THEN 'approved'
+    WHEN 'confirmed' THEN 'approved'
+    WHEN 'approved' THEN 'approved'
+    WHEN 'in_progress' THEN 'in_production'
+    WHEN 'processing' THEN 'in_production'
+    WHEN 'in_production' THEN 'in_production'
+    WHEN 'quality_check' THEN 'quality_check'
+    WHEN 'ready' THEN 'ready'
+    WHEN 'ready_for_pickup' THEN 'ready'
+    WHEN 'completed' THEN 'completed'
+    WHEN 'complete' THEN 'completed'
+    WHEN 'delivered' THEN 'completed'
+    WHEN 'picked_up' THEN 'completed'
+    WHEN 'cancelled' THEN 'cancelled'
+    WHEN 'canceled' THEN 'cancelled'
+    ELSE 'approved'
+  END AS status
+FROM orders
+WHERE status IS NULL
+  OR status NOT IN ('quote', 'approved', 'in_production', 'quality_check', 'ready', 'completed', 'cancelled');
+
+UPDATE orders o
+SET status = l.status
+FROM legacy_order_status l
+WHERE o.id = l.id;
+
+INSERT INTO order_status_history (order_id, from_status, to_status, actor, note, created_at)
+SELECT
+  o.id,
+  NULL,
+  o.status,
+  'migration',
+  CASE
+    WHEN l.id IS NULL THEN 'Status before history was recorded'
+    ELSE 'Status before history was recorded (was ' || COALESCE(l.legacy_status, 'not set') || ')'
+  END,
+  COALESCE(o.last_status_update, o.created_at, now())
+FROM orders o
+LEFT JOIN legacy_order_status l ON l.id = o.id
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
@@ -0,0 +1,43 @@
+/*
+  # Refunds and Voids
+
+  1. Changes
+    - `payments.kind`: payment, refund or void
+      - Refunds and voids are negative rows, so an order's balance is the sum of its payments
+    - `payments.original_payment_id`: payment a refund or void reverses
+    - `payments.reason`: why a payment was refunded or voided
+
+  2. New Tables
+    - `store_credit_ledger`: per-customer store credit
+      - Positive rows issue credit (e.g. refunds to store credit), negative rows redeem it
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'payment';
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS original_payment_id uuid REFERENCES payments(id);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reason text;
+
+CREATE INDEX IF NOT EXISTS payments_original_payment_id_idx ON payments (original_payment_id);
+
+CREATE TABLE IF NOT EXISTS store_credit_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid REFERENCES customers(id) NOT NULL,
+  amount decimal(10,2) NOT NULL,
+  entry_type text NOT NULL,
+  order_id uuid REFERENCES orders(id),
+  payment_id uuid REFERENCES payments(id),
+  reason text,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS store_credit_ledger_customer_id_idx ON store_credit_ledger (customer_id);
+
+ALTER TABLE store_credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage store credit"
+  ON store_credit_ledger
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,14 @@
+/*
+  # Idempotent Payments
+
+  1. Changes
+    - `payments.idempotency_key`: `Idempotency-Key` header of the request that recorded the payment
+      - Unique, so a retried request cannot record a second payment
+      - Null for payments recorded without a key
+*/
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payments_idempotency_key_idx
+  ON payments (idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,69 @@
+/*
+  # Cash Drawer Sessions
+
+  1. New Tables
+    - `drawer_sessions`: one row per register open/close
+      - Opened with a starting float, closed with counted amounts per tender
+      - `expected_amounts` and `over_short` are computed from the payments recorded against the session
+      - `z_report` keeps the report as run at close so reprints match
+    - `drawer_movements`: paid-in and paid-out cash during a session
+
+  2. Changes
+    - `payments.drawer_session_id`: the session whose register took the payment or paid out the refund
+      - Registers open at the same time each count only their own payments
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS drawer_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  register text NOT NULL DEFAULT 'main',
+  status text NOT NULL DEFAULT 'open',
+  opening_float decimal(10,2) NOT NULL,
+  opened_by text NOT NULL,
+  opened_at timestamp with time zone NOT NULL DEFAULT now(),
+  closed_by text,
+  closed_at timestamp with time zone,
+  counted_amounts jsonb,
+  expected_amounts jsonb,
+  over_short decimal(10,2),
+  z_report jsonb,
+  notes text
+);
+
+-- Only one open session per register
+CREATE UNIQUE INDEX IF NOT EXISTS drawer_sessions_open_register_idx
+  ON drawer_sessions (register)
+  WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS drawer_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES drawer_sessions(id) NOT NULL,
+  type text NOT NULL,
+  amount decimal(10,2) NOT NULL,
+  reason text NOT NULL,
+  actor text NOT NULL,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payments_created_at_idx ON payments (created_at);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS drawer_session_id uuid REFERENCES drawer_sessions(id);
+
+CREATE INDEX IF NOT EXISTS payments_drawer_session_id_idx ON payments (drawer_session_id);
+
+ALTER TABLE drawer_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE drawer_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage drawer sessions"
+  ON drawer_sessions
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage drawer movements"
+  ON drawer_movements
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,57 @@
+/*
+  # Gift Cards and Store Credit Tenders
+
+  1. New Tables
+    - `gift_cards`: one row per card, with a generated `code` (GC-XXXX-XXXX-XXXX)
+    - `gift_card_ledger`: issue, redemption, reversal and adjustment entries
+      - A card's balance is the sum of its entries
+
+  2. Changes
+    - `payments.gift_card_id`: card redeemed by a `gift_card` payment
+    - `store_credit_ledger` (added with refunds) now also carries redemptions and reversals
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS gift_cards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  customer_id uuid REFERENCES customers(id),
+  initial_balance decimal(10,2) NOT NULL,
+  status text NOT NULL DEFAULT 'active',
+  issued_by text,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS gift_card_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  gift_card_id uuid REFERENCES gift_cards(id) NOT NULL,
+  amount decimal(10,2) NOT NULL,
+  entry_type text NOT NULL,
+  order_id uuid REFERENCES orders(id),
+  payment_id uuid REFERENCES payments(id),
+  reason text,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS gift_card_ledger_gift_card_id_idx ON gift_card_ledger (gift_card_id);
+CREATE INDEX IF NOT EXISTS gift_cards_customer_id_idx ON gift_cards (customer_id);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS gift_card_id uuid REFERENCES gift_cards(id);
+
+ALTER TABLE gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gift_card_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage gift cards"
+  ON gift_cards
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage gift card ledger"
+  ON gift_card_ledger
+  FOR ALL
+  TO authenticated
+  USING (true);
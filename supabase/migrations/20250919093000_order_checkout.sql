@@ -0,0 +1,14 @@
+/*
+  # Per-Order Stripe Checkout
+
+  1. Changes
+    - Replace the partial unique index on `payments.idempotency_key` with a unique constraint
+      - `ON CONFLICT (idempotency_key)` cannot target a partial index, and the
+        stripe-webhook function upserts Checkout payments on that key
+      - NULL keys remain allowed any number of times
+*/
+
+DROP INDEX IF EXISTS payments_idempotency_key_idx;
+
+ALTER TABLE payments
+  ADD CONSTRAINT payments_idempotency_key_key UNIQUE (idempotency_key);
@@ -0,0 +1,31 @@
+/*
+  # Stripe Webhook Reconciliation
+
+  1. New Tables
+    - `stripe_webhook_events`: Stripe event IDs already applied to the POS ledger
+      - Redelivered events with a stored ID are ignored
+      - A row is removed again if processing fails, so Stripe's retry is applied
+
+  2. Changes
+    - Index `payments.transaction_id` so refunds can be matched to the original charge
+
+  3. Security
+    - Enable RLS; only the service role (used by the webhook) writes here
+*/
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  event_id text PRIMARY KEY,
+  type text NOT NULL,
+  order_id uuid REFERENCES orders(id),
+  processed_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payments_transaction_id_idx ON payments (transaction_id);
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view processed webhook events"
+  ON stripe_webhook_events
+  FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,63 @@
+/*
+  # Deposit Rules and Payment Schedules
+
+  1. New Tables
+    - `deposit_rules`: deposit required before a quote can be approved
+      - Matched by priority and minimum order total; the first active rule by `sort_order` applies
+      - Seeded with the shop's 50% deposit
+    - `payment_installments`: optional installment schedule per order
+      - Installments add up to the order total and are covered by payments in due-date order
+
+  2. Changes
+    - `orders.deposit_required`: deposit computed from the rules when quoted and approved
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS deposit_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  priority text,
+  min_total decimal(10,2),
+  percent decimal(5,2) NOT NULL CHECK (percent >= 0 AND percent <= 100),
+  minimum_amount decimal(10,2),
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payment_installments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) NOT NULL,
+  sequence integer NOT NULL,
+  amount decimal(10,2) NOT NULL,
+  due_date timestamp with time zone NOT NULL,
+  last_reminder_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (order_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS payment_installments_due_date_idx ON payment_installments (due_date);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS deposit_required decimal(10,2);
+
+INSERT INTO deposit_rules (name, percent, sort_order)
+SELECT 'Half deposit', 50, 100
+WHERE NOT EXISTS (SELECT 1 FROM deposit_rules);
+
+ALTER TABLE deposit_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage deposit rules"
+  ON deposit_rules
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage payment installments"
+  ON payment_installments
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,33 @@
+/*
+  # Customer Search and Merging
+
+  1. Changes
+    - `customers.phone_normalized`: digits only, without the US country code
+    - `customers.email_normalized`: trimmed and lowercased
+      - Both are backfilled here and indexed for search and duplicate detection
+    - `customers.merged_into_id` / `merged_at`: a duplicate is kept after merging,
+      pointing at the surviving record
+
+  2. Security
+    - No policy changes
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS phone_normalized text;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS email_normalized text;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS merged_into_id uuid REFERENCES customers(id);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS merged_at timestamp with time zone;
+
+UPDATE customers
+SET
+  phone_normalized = NULLIF(
+    CASE
+      WHEN regexp_replace(coalesce(phone, ''), '\D', '', 'g') ~ '^1\d{10}$'
+        THEN substring(regexp_replace(phone, '\D', '', 'g') FROM 2)
+      ELSE regexp_replace(coalesce(phone, ''), '\D', '', 'g')
+    END,
+    ''
+  ),
+  email_normalized = NULLIF(lower(trim(coalesce(email, ''))), '');
+
+CREATE INDEX IF NOT EXISTS customers_phone_normalized_idx ON customers (phone_normalized) WHERE merged_into_id IS NULL;
+CREATE INDEX IF NOT EXISTS customers_email_normalized_idx ON customers (email_normalized) WHERE merged_into_id IS NULL;
@@ -0,0 +1,28 @@
+/*
+  # Customer Lifetime Stats Backfill
+
+  1. Changes
+    - Backfill `customers.total_orders`, `total_spent` and `last_order_date`, which were never maintained
+      - Orders in `quote` or `cancelled` status are not counted
+      - `total_spent` is the net amount paid across all of the customer's orders
+    - The server keeps these current from here on; `POST /api/customers/stats/recompute` reruns this
+*/
+
+UPDATE customers c
+SET
+  total_orders = s.total_orders,
+  total_spent = s.total_spent,
+  last_order_date = s.last_order_date
+FROM (
+  SELECT
+    c2.id,
+    (count(o.id) FILTER (WHERE o.status NOT IN ('quote', 'cancelled')))::int AS total_orders,
+    coalesce(sum(o.amount_paid), 0)::decimal(10,2) AS total_spent,
+    max(o.created_at) FILTER (WHERE o.status NOT IN ('quote', 'cancelled')) AS last_order_date
+  FROM customers c2
+  LEFT JOIN orders o ON o.customer_id = c2.id
+  GROUP BY c2.id
+) s
+WHERE c.id = s.id;
+
+CREATE INDEX IF NOT EXISTS orders_customer_id_idx ON orders (customer_id);
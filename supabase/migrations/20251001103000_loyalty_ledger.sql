@@ -0,0 +1,82 @@
+/*
+  # Loyalty Points
+
+  1. New Tables
+    - `loyalty_rules`: earn rules
+      - `per_dollar`: points for each dollar paid (store credit excluded)
+      - `bonus`: fixed points once an order matching `match_field`/`match_value` is paid in full
+        (`match_value` is a case-insensitive substring; alternatives are separated by `|`)
+      - Seeded with 1 point per dollar and a conservation glass bonus
+    - `loyalty_ledger`: every change to a customer's points
+      - earn, reversal, bonus, bonus_reversal, redemption, redemption_reversal and adjustment entries
+      - `customers.loyalty_points` is kept equal to the sum of a customer's entries
+
+  2. Changes
+    - `orders.discount` / `orders.discount_lines`: discounts taken off before tax, one line each
+    - Existing `customers.loyalty_points` balances become opening `adjustment` entries
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS loyalty_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('per_dollar', 'bonus')),
+  points_per_dollar decimal(8,2),
+  bonus_points integer,
+  match_field text,
+  match_value text,
+  min_order_total decimal(10,2),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid REFERENCES customers(id) NOT NULL,
+  points integer NOT NULL,
+  entry_type text NOT NULL,
+  order_id uuid REFERENCES orders(id),
+  payment_id uuid REFERENCES payments(id),
+  rule_id uuid REFERENCES loyalty_rules(id),
+  rate decimal(8,2),
+  reason text,
+  actor text,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS loyalty_ledger_customer_id_idx ON loyalty_ledger (customer_id);
+CREATE INDEX IF NOT EXISTS loyalty_ledger_order_id_idx ON loyalty_ledger (order_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount decimal(10,2) DEFAULT 0.00;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_lines jsonb;
+
+INSERT INTO loyalty_ledger (customer_id, points, entry_type, reason, actor)
+SELECT id, loyalty_points, 'adjustment', 'Opening balance', 'migration'
+FROM customers
+WHERE coalesce(loyalty_points, 0) <> 0;
+
+INSERT INTO loyalty_rules (name, kind, points_per_dollar)
+SELECT '1 point per dollar', 'per_dollar', 1
+WHERE NOT EXISTS (SELECT 1 FROM loyalty_rules);
+
+INSERT INTO loyalty_rules (name, kind, bonus_points, match_field, match_value)
+SELECT 'Conservation glass bonus', 'bonus', 50, 'glassType', 'museum|uv-protection'
+WHERE NOT EXISTS (SELECT 1 FROM loyalty_rules WHERE kind = 'bonus');
+
+ALTER TABLE loyalty_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage loyalty rules"
+  ON loyalty_rules
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage loyalty ledger"
+  ON loyalty_ledger
+  FOR ALL
+  TO authenticated
+  USING (true);
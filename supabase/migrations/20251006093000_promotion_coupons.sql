@@ -0,0 +1,46 @@
+/*
+  # Coupons and Promotions
+
+  1. New Tables
+    - `promotions`: percentage or fixed discounts applied before tax
+      - With a `code` it is a coupon entered at the counter; without one it applies
+        automatically to new orders while it runs
+      - `category` limits the discount to one part of the breakdown (frame, mat, glass,
+        backing or labor); `order` discounts the whole subtotal
+      - `starts_at` / `ends_at` bound the validity window, `usage_limit` caps the number
+        of orders it can be used on (`usage_count` counts them)
+
+  2. Changes
+    - Discounts are saved on the order as `orders.discount_lines` (added with loyalty points)
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  code text UNIQUE,
+  kind text NOT NULL CHECK (kind IN ('percent', 'fixed')),
+  value decimal(10,2) NOT NULL CHECK (value > 0),
+  category text NOT NULL DEFAULT 'order'
+    CHECK (category IN ('order', 'frame', 'mat', 'glass', 'backing', 'labor')),
+  min_subtotal decimal(10,2),
+  starts_at timestamp with time zone,
+  ends_at timestamp with time zone,
+  usage_limit integer,
+  usage_count integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CHECK (kind <> 'percent' OR value <= 100),
+  CHECK (usage_limit IS NULL OR usage_count <= usage_limit)
+);
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage promotions"
+  ON promotions
+  FOR ALL
+  TO authenticated
+  USING (true);
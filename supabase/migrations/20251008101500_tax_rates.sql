@@ -0,0 +1,56 @@
+/*
+  # Sales Tax Rates
+
+  1. New Tables
+    - `tax_rates`: rate per store location and tax category
+      - `materials` covers frame, mat, glass and backing; `labor` covers the base fitting
+        charge, labor and rush fees. A 0 rate makes the category non-taxable.
+      - `jurisdiction` is reported with the tax collected
+      - Seeded with the previous flat 8.75% for the `main` location
+
+  2. Changes
+    - `customers.tax_exempt`, `resale_certificate_number`, `resale_certificate_expires_at`:
+      exemption only applies while a certificate is on file and unexpired
+    - `orders.tax_rate`: effective rate charged (tax over the discounted subtotal)
+    - `orders.tax_details`: location, jurisdiction, per-category rates, taxable and exempt
+      amounts and any certificate used; existing orders keep only the backfilled rate
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  location text NOT NULL,
+  category text NOT NULL CHECK (category IN ('materials', 'labor')),
+  rate decimal(6,4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  jurisdiction text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (location, category)
+);
+
+INSERT INTO tax_rates (location, category, rate)
+VALUES ('main', 'materials', 0.0875), ('main', 'labor', 0.0875)
+ON CONFLICT (location, category) DO NOTHING;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS tax_exempt boolean NOT NULL DEFAULT false;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS resale_certificate_number text;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS resale_certificate_expires_at timestamp with time zone;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_rate decimal(6,4);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_details jsonb;
+
+UPDATE orders
+SET tax_rate = round(tax / (subtotal - coalesce(discount, 0)), 4)
+WHERE tax_rate IS NULL
+  AND tax IS NOT NULL
+  AND subtotal - coalesce(discount, 0) > 0;
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage tax rates"
+  ON tax_rates
+  FOR ALL
+  TO authenticated
+  USING (true);
@@ -0,0 +1,70 @@
+/*
+  # Trade Accounts
+
+  1. New Tables
+    - `trade_accounts`: designer and corporate customers who order on account
+      - `tier` sets the trade discount the pricing engine applies (standard 10%,
+        preferred 15%, premier 20%)
+      - `credit_limit` caps the unpaid balance of the account's open orders
+      - `terms`: net_15 or net_30 from the invoice date
+    - `trade_statements`: monthly snapshot of an account's open invoices with aging
+      (current, 1-30, 31-60, 61-90 and over 90 days past due)
+
+  2. Changes
+    - `orders.trade_account_id` / `payment_terms`: orders billed on account skip deposit
+      rules and may be completed with a balance
+    - `orders.invoiced_at` / `due_date`: set when an account order is completed
+
+  3. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS trade_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid REFERENCES customers(id) NOT NULL UNIQUE,
+  company_name text NOT NULL,
+  tier text NOT NULL DEFAULT 'standard' CHECK (tier IN ('standard', 'preferred', 'premier')),
+  credit_limit decimal(10,2) NOT NULL CHECK (credit_limit >= 0),
+  terms text NOT NULL DEFAULT 'net_30' CHECK (terms IN ('net_15', 'net_30')),
+  billing_email text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS trade_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_account_id uuid REFERENCES trade_accounts(id) NOT NULL,
+  statement_number text NOT NULL UNIQUE,
+  period_start timestamp with time zone NOT NULL,
+  period_end timestamp with time zone NOT NULL,
+  due_date timestamp with time zone NOT NULL,
+  total_due decimal(10,2) NOT NULL,
+  aging jsonb NOT NULL,
+  lines jsonb NOT NULL,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trade_statements_account_id_idx ON trade_statements (trade_account_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS trade_account_id uuid REFERENCES trade_accounts(id);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_terms text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS invoiced_at timestamp with time zone;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS due_date timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS orders_trade_account_id_idx ON orders (trade_account_id) WHERE trade_account_id IS NOT NULL;
+
+ALTER TABLE trade_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trade_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage trade accounts"
+  ON trade_accounts
+  FOR ALL
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage trade statements"
+  ON trade_statements
+  FOR ALL
+  TO authenticated
+  USING (true);
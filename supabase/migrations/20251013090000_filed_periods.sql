@@ -0,0 +1,75 @@
+/*
+  # Tax Events
+
+  1. New Tables
+    - `tax_events`: an order's taxed amounts at each event the accrual tax report counts
+      - `sale`: the order moved out of quote (or cancelled) into the production statuses
+      - `discount`: a discount was added to or removed from a sale
+      - `cancellation`: a sale was cancelled or sent back to quote
+      - Backfilled from `order_status_history` with each order's current amounts; orders
+        from before status history was recorded are dated by when they were created
+
+  2. Security
+    - Enable RLS with the same authenticated policy as `orders`
+*/
+
+CREATE TABLE IF NOT EXISTS tax_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) NOT NULL,
+  event text NOT NULL CHECK (event IN ('sale', 'discount', 'cancellation')),
+  location text NOT NULL,
+  jurisdiction text,
+  rate decimal(6,4) NOT NULL,
+  taxable decimal(10,2) NOT NULL,
+  exempt decimal(10,2) NOT NULL,
+  tax decimal(10,2) NOT NULL,
+  total decimal(10,2) NOT NULL,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tax_events_created_at_idx ON tax_events (created_at);
+CREATE INDEX IF NOT EXISTS tax_events_order_id_idx ON tax_events (order_id, created_at);
+
+INSERT INTO tax_events (order_id, event, location, jurisdiction, rate, taxable, exempt, tax, total, created_at)
+SELECT
+  o.id,
+  CASE WHEN h.to_status IN ('quote', 'cancelled') THEN 'cancellation' ELSE 'sale' END,
+  coalesce(o.tax_details->>'location', 'main'),
+  o.tax_details->>'jurisdiction',
+  coalesce(o.tax_rate, CASE WHEN a.taxable > 0 THEN round(a.tax / a.taxable, 4) ELSE 0 END),
+  a.taxable,
+  a.exempt,
+  a.tax,
+  o.total,
+  CASE WHEN h.actor = 'migration' THEN coalesce(o.created_at, h.created_at) ELSE h.created_at END
+FROM order_status_history h
+JOIN orders o ON o.id = h.order_id
+CROSS JOIN LATERAL (
+  SELECT
+    coalesce(o.tax, 0) AS tax,
+    coalesce(o.subtotal, o.total - coalesce(o.tax, 0)) - coalesce(o.discount, 0) AS net
+) base
+CROSS JOIN LATERAL (
+  SELECT
+    base.tax,
+    CASE
+      WHEN o.tax_details IS NOT NULL THEN (o.tax_details->>'taxable')::decimal
+      WHEN base.tax > 0 THEN base.net
+      ELSE 0
+    END AS taxable,
+    CASE
+      WHEN o.tax_details IS NOT NULL THEN (o.tax_details->>'exempt')::decimal
+      WHEN base.tax > 0 THEN 0
+      ELSE base.net
+    END AS exempt
+) a
+WHERE (h.from_status IS NULL OR h.from_status IN ('quote', 'cancelled')) <> (h.to_status IN ('quote', 'cancelled'))
+  AND NOT EXISTS (SELECT 1 FROM tax_events e WHERE e.order_id = o.id);
+
+ALTER TABLE tax_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage tax events"
+  ON tax_events
+  FOR ALL
+  TO authenticated
+  USING (true);
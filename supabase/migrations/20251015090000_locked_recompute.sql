@@ -0,0 +1,221 @@
+/*
+  # Locked Order Balance Recompute
+
+  1. Changes
+    - `recompute_order_balance(order_id)`: the Stripe webhook's balance recompute, run as one
+      transaction like the server's `PaymentService.recomputeOrderBalance`
+      - Locks the order row, then the customer row, in the same order the server does, so a
+        POS payment and a webhook delivery for the same order can't interleave
+      - `amount_paid` / `payment_status` are recomputed from the payments ledger
+      - The customer's `total_orders`, `total_spent` and `last_order_date` follow
+        (quotes and cancelled orders are not purchases)
+      - Loyalty entries are brought in line with the order's payments the way
+        `LoyaltyService.syncOrderPoints` does, and `customers.loyalty_points` is reset
+        to the sum of the customer's ledger
+    - `loyalty_bonus_matches(rule, order)`: whether the order or any of its pieces matches a bonus rule
+
+  2. Security
+    - Neither function is callable by `anon`; the webhook calls them with the service role
+*/
+
+CREATE OR REPLACE FUNCTION loyalty_bonus_matches(p_rule loyalty_rules, p_order orders)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_column text;
+BEGIN
+  IF p_rule.min_order_total IS NOT NULL AND p_order.total < p_rule.min_order_total THEN
+    RETURN false;
+  END IF;
+  IF coalesce(p_rule.match_field, '') = '' OR coalesce(p_rule.match_value, '') = '' THEN
+    RETURN true;
+  END IF;
+
+  -- loyalty_rules.match_field holds the server's camelCase field names
+  v_column := CASE p_rule.match_field
+    WHEN 'glassType' THEN 'glass_type'
+    WHEN 'frameStyle' THEN 'frame_style'
+    WHEN 'matType' THEN 'mat_type'
+    WHEN 'priority' THEN 'priority'
+    WHEN 'complexity' THEN 'complexity'
+  END;
+  IF v_column IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Any piece of the order can satisfy the rule; single-piece orders only have the order columns
+  RETURN EXISTS (
+    SELECT 1
+    FROM (
+      SELECT to_jsonb(p_order) AS source
+      UNION ALL
+      SELECT to_jsonb(i) FROM order_items i WHERE i.order_id = p_order.id
+    ) s
+    CROSS JOIN LATERAL unnest(string_to_array(lower(p_rule.match_value), '|')) AS n(needle)
+    WHERE btrim(n.needle) <> ''
+      AND jsonb_typeof(s.source -> v_column) = 'string'
+      AND position(btrim(n.needle) IN lower(s.source ->> v_column)) > 0
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION recompute_order_balance(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_net decimal(10,2);
+  v_has_reversals boolean;
+  v_amount_paid decimal(10,2);
+  v_payment_status text;
+  v_rate decimal(8,2);
+  v_payment record;
+  v_earned record;
+  v_paid decimal(10,2);
+  v_delta integer;
+  v_rule_id uuid;
+  v_rule loyalty_rules%ROWTYPE;
+  v_rule_found boolean;
+  v_current integer;
+  v_awarded integer;
+  v_qualifies boolean;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT coalesce(sum(amount), 0), coalesce(bool_or(kind <> 'payment'), false)
+  INTO v_net, v_has_reversals
+  FROM payments
+  WHERE order_id = p_order_id AND status NOT IN ('pending', 'failed', 'released');
+
+  v_amount_paid := greatest(0, v_net);
+  v_payment_status := CASE
+    WHEN v_amount_paid >= v_order.total AND v_order.total > 0 THEN 'paid'
+    WHEN v_amount_paid > 0 THEN 'partial'
+    WHEN v_has_reversals THEN 'refunded'
+    ELSE 'unpaid'
+  END;
+
+  UPDATE orders
+  SET amount_paid = v_amount_paid, payment_status = v_payment_status, updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  IF v_order.customer_id IS NULL THEN
+    RETURN v_order;
+  END IF;
+
+  PERFORM 1 FROM customers WHERE id = v_order.customer_id FOR UPDATE;
+
+  UPDATE customers c
+  SET
+    total_orders = s.total_orders,
+    total_spent = s.total_spent,
+    last_order_date = s.last_order_date,
+    updated_at = now()
+  FROM (
+    SELECT
+      (count(o.id) FILTER (WHERE o.status NOT IN ('quote', 'cancelled')))::int AS total_orders,
+      coalesce(sum(o.amount_paid), 0)::decimal(10,2) AS total_spent,
+      max(o.created_at) FILTER (WHERE o.status NOT IN ('quote', 'cancelled')) AS last_order_date
+    FROM orders o
+    WHERE o.customer_id = v_order.customer_id
+  ) s
+  WHERE c.id = v_order.customer_id;
+
+  SELECT coalesce(sum(points_per_dollar), 0) INTO v_rate
+  FROM loyalty_rules
+  WHERE active AND kind = 'per_dollar';
+
+  -- Store credit is money already credited back once, so spending it earns nothing
+  FOR v_payment IN
+    SELECT id, amount, status, refunded_amount
+    FROM payments
+    WHERE order_id = p_order_id AND kind = 'payment' AND method <> 'store_credit'
+    ORDER BY created_at
+  LOOP
+    -- Refunds reverse at the rate the payment earned at, even if the rules changed since
+    SELECT
+      coalesce(sum(points), 0)::int AS points,
+      (array_agg(rate ORDER BY created_at) FILTER (WHERE entry_type = 'earn'))[1] AS rate
+    INTO v_earned
+    FROM loyalty_ledger
+    WHERE order_id = p_order_id AND payment_id = v_payment.id;
+
+    v_paid := CASE
+      WHEN v_payment.status IN ('completed', 'refunded')
+        THEN greatest(0, v_payment.amount - coalesce(v_payment.refunded_amount, 0))
+      ELSE 0
+    END;
+    v_delta := floor(v_paid * coalesce(v_earned.rate, v_rate))::int - v_earned.points;
+
+    IF v_delta <> 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, order_id, points, entry_type, payment_id, rate, reason)
+      VALUES (
+        v_order.customer_id,
+        p_order_id,
+        v_delta,
+        CASE WHEN v_delta > 0 THEN 'earn' ELSE 'reversal' END,
+        v_payment.id,
+        CASE WHEN v_delta > 0 THEN coalesce(v_earned.rate, v_rate) END,
+        CASE
+          WHEN v_delta > 0 THEN format('Paid $%s on order %s', to_char(v_paid, 'FM999999990.00'), v_order.order_number)
+          ELSE format('Refund on order %s', v_order.order_number)
+        END
+      );
+    END IF;
+  END LOOP;
+
+  -- Bonuses are held while the order is paid in full and taken back if it no longer is
+  FOR v_rule_id IN
+    SELECT id FROM loyalty_rules WHERE active AND kind = 'bonus'
+    UNION
+    SELECT rule_id FROM loyalty_ledger WHERE order_id = p_order_id AND rule_id IS NOT NULL
+  LOOP
+    SELECT * INTO v_rule FROM loyalty_rules WHERE id = v_rule_id AND active;
+    v_rule_found := FOUND;
+
+    SELECT coalesce(sum(points), 0)::int INTO v_current
+    FROM loyalty_ledger
+    WHERE order_id = p_order_id AND rule_id = v_rule_id;
+
+    SELECT points INTO v_awarded
+    FROM loyalty_ledger
+    WHERE order_id = p_order_id AND rule_id = v_rule_id AND entry_type = 'bonus'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- A retired rule keeps the points it already gave
+    v_qualifies := v_order.payment_status = 'paid'
+      AND CASE WHEN v_rule_found THEN loyalty_bonus_matches(v_rule, v_order) ELSE v_current > 0 END;
+    v_delta := CASE WHEN v_qualifies THEN coalesce(v_awarded, v_rule.bonus_points, 0) ELSE 0 END - v_current;
+
+    IF v_delta <> 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, order_id, points, entry_type, rule_id, reason)
+      VALUES (
+        v_order.customer_id,
+        p_order_id,
+        v_delta,
+        CASE WHEN v_delta > 0 THEN 'bonus' ELSE 'bonus_reversal' END,
+        v_rule_id,
+        format('%s on order %s', coalesce(nullif(v_rule.name, ''), 'Bonus'), v_order.order_number)
+      );
+    END IF;
+  END LOOP;
+
+  -- customers.loyalty_points is the sum of the customer's ledger
+  UPDATE customers
+  SET loyalty_points = (SELECT coalesce(sum(points), 0) FROM loyalty_ledger WHERE customer_id = v_order.customer_id)
+  WHERE id = v_order.customer_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION loyalty_bonus_matches(loyalty_rules, orders) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION recompute_order_balance(uuid) FROM PUBLIC, anon;